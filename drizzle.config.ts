@@ -10,7 +10,8 @@ const schemaPath = databaseType === "postgresql"
 
 export default defineConfig({
   schema: schemaPath,
-  out: "./src/db/migrations",
+  // Each dialect keeps its own migration history
+  out: `./src/db/migrations/${databaseType === "postgresql" ? "postgres" : "sqlite"}`,
   dialect: databaseType === "postgresql" ? "postgresql" : "sqlite",
   dbCredentials:
     databaseType === "postgresql"
@@ -20,6 +21,8 @@ export default defineConfig({
       : {
           url: "./data/projectaware.db",
         },
+  // Full-text search tables are created by a custom SQLite migration (see src/db/migrations/sqlite)
+  tablesFilter: ["!*_fts", "!*_fts_*"],
   verbose: true,
   strict: true,
 });
@@ -0,0 +1,159 @@
+"use client"
+
+import * as React from "react"
+import { Loader2, RefreshCw } from "lucide-react"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+interface HealthTarget {
+  targetKey: string
+  provider: string
+  tenantName: string | null
+  endpoint: string | null
+  status: "up" | "degraded" | "down"
+  latencyP50Ms: number | null
+  latencyP95Ms: number | null
+  latencyP99Ms: number | null
+  errorRate: number
+  checkCount: number
+  consecutiveFailures: number
+  lastError: string | null
+  lastErrorAt: string | null
+  lastCheckedAt: string
+}
+
+// The page refreshes itself while open
+const POLL_INTERVAL_MS = 30000
+
+const STATUS_CLASSES: Record<HealthTarget["status"], string> = {
+  up: "bg-green-500 text-white hover:bg-green-600",
+  degraded: "bg-yellow-500 text-white hover:bg-yellow-600",
+  down: "bg-destructive text-destructive-foreground hover:bg-destructive/80",
+}
+
+function formatLatency(ms: number | null) {
+  return ms === null ? "—" : `${ms} ms`
+}
+
+export default function ProviderHealthPage() {
+  const [targets, setTargets] = React.useState<HealthTarget[] | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [checking, setChecking] = React.useState(false)
+
+  const load = React.useCallback(async (init?: RequestInit) => {
+    try {
+      const res = await fetch("/api/admin/health", init)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error?.message || "Failed to load provider health")
+      setTargets(data.targets)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load provider health")
+    }
+  }, [])
+
+  React.useEffect(() => {
+    load()
+    const timer = setInterval(() => load(), POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [load])
+
+  const runChecks = async () => {
+    setChecking(true)
+    await load({ method: "POST" })
+    setChecking(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Provider Health</h2>
+        <Button onClick={runChecks} disabled={checking}>
+          {checking ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Check now
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Providers marked down are skipped when routing requests until a health check succeeds.
+      </p>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Target</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>p50</TableHead>
+              <TableHead>p95</TableHead>
+              <TableHead>p99</TableHead>
+              <TableHead>Error rate</TableHead>
+              <TableHead>Last checked</TableHead>
+              <TableHead>Last error</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {targets?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  No health checks recorded yet.
+                </TableCell>
+              </TableRow>
+            )}
+            {targets?.map((target) => (
+              <TableRow key={target.targetKey}>
+                <TableCell>
+                  <div className="font-medium">{target.provider}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {target.tenantName ? `${target.tenantName} · ${target.endpoint}` : "Platform"}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge className={cn("border-transparent", STATUS_CLASSES[target.status])}>
+                    {target.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{formatLatency(target.latencyP50Ms)}</TableCell>
+                <TableCell>{formatLatency(target.latencyP95Ms)}</TableCell>
+                <TableCell>{formatLatency(target.latencyP99Ms)}</TableCell>
+                <TableCell>
+                  {(target.errorRate * 100).toFixed(1)}%
+                  <span className="text-xs text-muted-foreground"> of {target.checkCount}</span>
+                </TableCell>
+                <TableCell>{new Date(target.lastCheckedAt).toLocaleString()}</TableCell>
+                <TableCell className="max-w-xs">
+                  {target.lastError ? (
+                    <div title={target.lastError}>
+                      <div className="truncate text-sm">{target.lastError}</div>
+                      {target.lastErrorAt && (
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(target.lastErrorAt).toLocaleString()}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    "—"
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
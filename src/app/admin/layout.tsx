@@ -1,6 +1,6 @@
 import type { Metadata } from "next"
 import Link from "next/link"
-import { Users, LayoutDashboard, Settings, Activity } from "lucide-react"
+import { Users, LayoutDashboard, Settings, Activity, Cpu, HeartPulse } from "lucide-react"
 
 import { ThemeToggle } from "@/components/theme-toggle"
 import { Button } from "@/components/ui/button"
@@ -32,6 +32,18 @@ function AdminSidebar({ className }: React.HTMLAttributes<HTMLDivElement>) {
                 Users
               </Link>
             </Button>
+            <Button asChild variant="ghost" className="w-full justify-start">
+              <Link href="/admin/models">
+                <Cpu className="mr-2 h-4 w-4" />
+                Local Models
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" className="w-full justify-start">
+              <Link href="/admin/health">
+                <HeartPulse className="mr-2 h-4 w-4" />
+                Provider Health
+              </Link>
+            </Button>
             <Button asChild variant="ghost" className="w-full justify-start">
               <Link href="/admin/activity">
                 <Activity className="mr-2 h-4 w-4" />
@@ -0,0 +1,296 @@
+"use client"
+
+import * as React from "react"
+import { Download, Loader2, MoreHorizontal, RefreshCw } from "lucide-react"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { readEventStream } from "@/lib/api/sse"
+import { cn } from "@/lib/utils"
+
+interface LocalModel {
+  name: string
+  size: number
+  modifiedAt: string
+  family: string | null
+  parameterSize: string | null
+  quantization: string | null
+  contextWindow: number | null
+  registered: boolean
+  status: string | null
+}
+
+interface PullProgress {
+  status: string
+  total?: number
+  completed?: number
+}
+
+type PullEvent =
+  | ({ type: "progress" } & PullProgress)
+  | { type: "done"; model: { modelId: string } }
+  | { type: "error"; message: string }
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ["KB", "MB", "GB", "TB"]
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(1)} ${units[unit]}`
+}
+
+async function request(url: string, init?: RequestInit) {
+  const res = await fetch(url, init)
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error?.message || "Request failed")
+  return data
+}
+
+function modelUrl(name: string) {
+  return `/api/admin/ollama/models/${name.split("/").map(encodeURIComponent).join("/")}`
+}
+
+function PullProgressBar({ progress }: { progress: PullProgress }) {
+  const percent =
+    progress.total && progress.completed !== undefined
+      ? Math.round((progress.completed / progress.total) * 100)
+      : null
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>{progress.status}</span>
+        {percent !== null && (
+          <span>
+            {formatBytes(progress.completed ?? 0)} / {formatBytes(progress.total ?? 0)} ({percent}%)
+          </span>
+        )}
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${percent ?? 0}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default function LocalModelsPage() {
+  const [models, setModels] = React.useState<LocalModel[] | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [pullName, setPullName] = React.useState("")
+  const [pulling, setPulling] = React.useState(false)
+  const [progress, setProgress] = React.useState<PullProgress | null>(null)
+  const [busy, setBusy] = React.useState<string | null>(null)
+
+  const loadModels = React.useCallback(async () => {
+    try {
+      const data = await request("/api/admin/ollama/models")
+      setModels(data.models)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load models")
+    }
+  }, [])
+
+  React.useEffect(() => {
+    loadModels()
+  }, [loadModels])
+
+  const pullModel = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = pullName.trim()
+    if (!name || pulling) return
+
+    setPulling(true)
+    setError(null)
+    setProgress({ status: "starting" })
+
+    try {
+      const res = await fetch("/api/admin/ollama/models", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: name }),
+      })
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null)
+        throw new Error(data?.error?.message || "Pull failed")
+      }
+
+      for await (const event of readEventStream<PullEvent>(res.body)) {
+        if (event.type === "progress") {
+          setProgress(event)
+        } else if (event.type === "error") {
+          throw new Error(event.message)
+        } else {
+          setPullName("")
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Pull failed")
+    } finally {
+      setPulling(false)
+      setProgress(null)
+      loadModels()
+    }
+  }
+
+  const runAction = async (name: string, action: () => Promise<unknown>) => {
+    setBusy(name)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Action failed")
+    } finally {
+      setBusy(null)
+      loadModels()
+    }
+  }
+
+  const registerModel = (name: string) =>
+    runAction(name, () => request(modelUrl(name), { method: "PUT" }))
+
+  const copyModel = (name: string) => {
+    const destination = prompt(`Copy ${name} as:`, `${name}-copy`)?.trim()
+    if (!destination) return
+    runAction(name, () =>
+      request(modelUrl(name), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ destination }),
+      })
+    )
+  }
+
+  const deleteModel = (name: string) => {
+    if (!confirm(`Delete ${name} from the Ollama server? It will be disabled for all tenants.`)) return
+    runAction(name, () => request(modelUrl(name), { method: "DELETE" }))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Local Models</h2>
+        <Button variant="outline" onClick={loadModels}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <form onSubmit={pullModel} className="flex gap-2">
+        <Input
+          value={pullName}
+          onChange={(e) => setPullName(e.target.value)}
+          placeholder="Model to pull, e.g. llama3.2:3b"
+          aria-label="Model name"
+          disabled={pulling}
+          className="max-w-sm"
+        />
+        <Button type="submit" disabled={pulling || !pullName.trim()}>
+          {pulling ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Pull
+        </Button>
+      </form>
+      {progress && <PullProgressBar progress={progress} />}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Parameters</TableHead>
+              <TableHead>Quantization</TableHead>
+              <TableHead>Size</TableHead>
+              <TableHead>Context</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {models?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No models installed.
+                </TableCell>
+              </TableRow>
+            )}
+            {models?.map((model) => (
+              <TableRow key={model.name}>
+                <TableCell className="font-medium">{model.name}</TableCell>
+                <TableCell>
+                  {[model.family, model.parameterSize].filter(Boolean).join(" · ") || "—"}
+                </TableCell>
+                <TableCell>{model.quantization || "—"}</TableCell>
+                <TableCell>{formatBytes(model.size)}</TableCell>
+                <TableCell>{model.contextWindow?.toLocaleString() ?? "—"}</TableCell>
+                <TableCell>
+                  <Badge className={cn(!model.registered && "bg-secondary text-secondary-foreground hover:bg-secondary/80")}>
+                    {model.registered ? "Registered" : model.status || "Not registered"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" disabled={busy === model.name}>
+                        {busy === model.name ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <MoreHorizontal className="h-4 w-4" />
+                        )}
+                        <span className="sr-only">Open menu</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                      <DropdownMenuItem onClick={() => registerModel(model.name)}>
+                        {model.registered ? "Refresh details" : "Register"}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => copyModel(model.name)}>
+                        Copy
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        className="text-destructive"
+                        onClick={() => deleteModel(model.name)}
+                      >
+                        Delete model
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
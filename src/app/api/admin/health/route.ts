@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { isAdminUser } from "@/lib/auth/rbac";
+import { listProviderHealth, runHealthChecks } from "@/lib/ai/health";
+import { formatErrorResponse, AuthorizationError } from "@/lib/utils/errors";
+
+async function requireAdmin(request: NextRequest) {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session || !(await isAdminUser(session.user.id))) {
+    throw new AuthorizationError("Only admins can view provider health");
+  }
+}
+
+/**
+ * GET /api/admin/health
+ * Latest health of every platform provider and tenant custom endpoint.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const targets = await listProviderHealth();
+
+    return NextResponse.json({ targets });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * POST /api/admin/health
+ * Probe every target now instead of waiting for the next scheduled check.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    await runHealthChecks();
+    const targets = await listProviderHealth();
+
+    return NextResponse.json({ targets });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
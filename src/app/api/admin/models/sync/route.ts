@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { isAdminUser } from "@/lib/auth/rbac";
+import { aiService } from "@/lib/ai/service";
+import { formatErrorResponse, AuthorizationError } from "@/lib/utils/errors";
+
+/**
+ * POST /api/admin/models/sync
+ * Re-fetches the platform model catalog from every provider, bypassing the cache.
+ * Reports how many models each provider returned, or why it failed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session || !(await isAdminUser(session.user.id))) {
+      throw new AuthorizationError("Only admins can resync the model catalog");
+    }
+
+    const catalog = await aiService.refreshModels();
+
+    return NextResponse.json({
+      success: true,
+      count: catalog.models.length,
+      providers: catalog.providers,
+      fetchedAt: new Date(catalog.fetchedAt).toISOString(),
+    });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { isAdminUser } from "@/lib/auth/rbac";
+import { copyOllamaModel, deleteOllamaModel, registerOllamaModel, showOllamaModel } from "@/lib/ai/ollama-models";
+import { formatErrorResponse, AuthorizationError, ValidationError } from "@/lib/utils/errors";
+
+type RouteContext = { params: Promise<{ name: string[] }> };
+
+const copySchema = z.object({
+  destination: z.string().trim().min(1).max(256),
+});
+
+// Model names may contain slashes, e.g. "hf.co/org/model:tag"
+async function resolveRequest(request: NextRequest, { params }: RouteContext) {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session || !(await isAdminUser(session.user.id))) {
+    throw new AuthorizationError("Only admins can manage local models");
+  }
+
+  return (await params).name.join("/");
+}
+
+/**
+ * GET /api/admin/ollama/models/:name
+ * Context length, capabilities and parameters reported by the Ollama server.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const name = await resolveRequest(request, context);
+
+    const model = await showOllamaModel(name);
+
+    return NextResponse.json({ model });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * POST /api/admin/ollama/models/:name
+ * Copy the model to `destination` and register the copy.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const name = await resolveRequest(request, context);
+
+    const body = await request.json();
+    const parsed = copySchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid copy request", parsed.error.flatten().fieldErrors);
+    }
+
+    const model = await copyOllamaModel(name, parsed.data.destination);
+
+    return NextResponse.json({ model }, { status: 201 });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * PUT /api/admin/ollama/models/:name
+ * Register a model installed outside the admin page, or refresh its registry entry.
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const name = await resolveRequest(request, context);
+
+    const model = await registerOllamaModel(name);
+
+    return NextResponse.json({ model });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * DELETE /api/admin/ollama/models/:name
+ * Remove the model from the server; its registry entry is marked inactive.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const name = await resolveRequest(request, context);
+
+    await deleteOllamaModel(name);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
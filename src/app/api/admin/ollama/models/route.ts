@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { isAdminUser } from "@/lib/auth/rbac";
+import { listOllamaModels, pullOllamaModel } from "@/lib/ai/ollama-models";
+import { createSSEResponse } from "@/lib/api/sse";
+import { formatErrorResponse, AuthorizationError, ValidationError } from "@/lib/utils/errors";
+
+const pullSchema = z.object({
+  model: z.string().trim().min(1).max(256),
+});
+
+async function requireAdmin(request: NextRequest) {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session || !(await isAdminUser(session.user.id))) {
+    throw new AuthorizationError("Only admins can manage local models");
+  }
+}
+
+/**
+ * GET /api/admin/ollama/models
+ * Models installed on the platform Ollama server, with their registry status.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const models = await listOllamaModels();
+
+    return NextResponse.json({ models });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * POST /api/admin/ollama/models
+ * Pull a model and register it in `ai_models`. Streams SSE events:
+ * `progress` while downloading, then `done` with the registry entry, or `error`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const body = await request.json();
+    const parsed = pullSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid pull request", parsed.error.flatten().fieldErrors);
+    }
+
+    return createSSEResponse(pullOllamaModel(parsed.data.model));
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import { auth } from "@/lib/auth";
+import { decrypt } from "@/lib/utils/encryption";
+import { createAccount, createModel } from "@/test/fixtures";
+import { sendJson, startStandIn } from "@/test/server";
+import { POST } from "./route";
+
+vi.hoisted(() => {
+  process.env.OPENAI_API_KEY = "sk-platform-secret";
+});
+
+vi.mock("@/lib/auth", () => ({
+  auth: { api: { getSession: vi.fn() } },
+}));
+
+describe("POST /api/ai/config", () => {
+  let server: Awaited<ReturnType<typeof startStandIn>>;
+
+  beforeAll(async () => {
+    server = await startStandIn((request, res) =>
+      request.headers.authorization === "Bearer sk-rejected"
+        ? sendJson(res, { error: { message: "Incorrect API key" } }, 401)
+        : sendJson(res, { object: "list", data: [] })
+    );
+  });
+
+  afterAll(() => server.close());
+
+  async function setup() {
+    const { user, tenant } = await createAccount();
+    await db.insert(schema.tenantUsers).values({ tenantId: tenant.id, userId: user.id, role: "owner" });
+    vi.mocked(auth.api.getSession).mockResolvedValue({ user: { id: user.id } } as never);
+    const model = await createModel({ provider: "openai" });
+
+    const post = (body: Record<string, unknown>) =>
+      POST(
+        new NextRequest("http://localhost/api/ai/config", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "x-tenant-id": tenant.id },
+          body: JSON.stringify({ modelId: model.id, ...body }),
+        })
+      );
+    const stored = () =>
+      db.query.tenantModelConfigs.findFirst({
+        where: and(
+          eq(schema.tenantModelConfigs.tenantId, tenant.id),
+          eq(schema.tenantModelConfigs.modelId, model.id)
+        ),
+      });
+
+    return { post, stored };
+  }
+
+  it("checks a custom endpoint without a key using no credentials at all", async () => {
+    const { post, stored } = await setup();
+    const before = server.requests.length;
+
+    const response = await post({ customEndpoint: `${server.url}/v1` });
+
+    expect(response.status).toBe(200);
+    const sent = server.requests.slice(before);
+    expect(sent.length).toBeGreaterThan(0);
+    for (const request of sent) {
+      expect(JSON.stringify(request.headers)).not.toContain("sk-platform-secret");
+    }
+    expect((await stored())?.encryptedApiKey).toBeNull();
+  });
+
+  it("checks and stores the tenant's own key", async () => {
+    const { post, stored } = await setup();
+
+    const response = await post({ apiKey: "sk-tenant-key", customEndpoint: `${server.url}/v1` });
+
+    expect(response.status).toBe(200);
+    expect(server.requests.at(-1)?.headers.authorization).toBe("Bearer sk-tenant-key");
+    expect(decrypt((await stored())!.encryptedApiKey!)).toBe("sk-tenant-key");
+  });
+
+  it("does not check a removed key when the endpoint changes", async () => {
+    const { post } = await setup();
+    await post({ apiKey: "sk-tenant-key", customEndpoint: `${server.url}/v1` });
+    const before = server.requests.length;
+
+    const response = await post({ apiKey: null, customEndpoint: `${server.url}/v2` });
+
+    expect(response.status).toBe(200);
+    const sent = server.requests.slice(before);
+    expect(sent.length).toBeGreaterThan(0);
+    expect(sent.every((r) => r.headers.authorization !== "Bearer sk-tenant-key")).toBe(true);
+  });
+
+  it("rejects credentials the provider refuses", async () => {
+    const { post, stored } = await setup();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const response = await post({ apiKey: "sk-rejected", customEndpoint: `${server.url}/v1` });
+
+    expect(response.status).toBe(400);
+    expect(await stored()).toBeUndefined();
+  });
+});
@@ -1,89 +1,186 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, schema } from "@/db";
+import { z } from "zod";
+import { db, schema } from "@/db/query";
 import { eq, and } from "drizzle-orm";
-import { auth } from "@/lib/auth"; // Assuming auth export
-import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { aiService } from "@/lib/ai/service";
+import { getRequestBudget } from "@/lib/ai/usage";
+import { getActiveTenantId, getUserTenantRole } from "@/lib/tenants/isolation";
+import { encrypt, decrypt } from "@/lib/utils/encryption";
+import {
+  formatErrorResponse,
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/utils/errors";
 
-export async function GET(req: NextRequest) {
+const configSchema = z.object({
+  modelId: z.string().min(1),
+  // Omit to keep the stored key, send null or "" to remove it
+  apiKey: z.string().trim().nullable().optional(),
+  isEnabled: z.boolean().optional(),
+  customEndpoint: z.union([z.string().trim().url(), z.literal("")]).nullable().optional(),
+});
+
+/**
+ * Show only the last 4 characters of a stored key
+ */
+function maskApiKey(encryptedApiKey: string | null): string | null {
+  if (!encryptedApiKey) return null;
+
+  try {
+    return `••••${decrypt(encryptedApiKey).slice(-4)}`;
+  } catch {
+    return "••••";
+  }
+}
+
+async function requireTenant(request: NextRequest) {
   const session = await auth.api.getSession({
-      headers: await headers()
+    headers: request.headers,
   });
 
-  if (!session || !session.user) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  if (!session) {
+    throw new AuthenticationError();
   }
 
-  // TODO: Add proper RBAC check (e.g. session.user.role === 'admin')
-  // For now assuming all authenticated users can view, but only admins can edit (enforced in POST)
-
-  const tenantId = session.session.activeTenantId; // Assuming better-auth tenant plugin or custom field
+  const tenantId = await getActiveTenantId(request, session.user.id);
   if (!tenantId) {
-      // Fallback for non-multi-tenant setup or missing context
-      return NextResponse.json({ error: "No active tenant" }, { status: 400 });
+    throw new ValidationError("No active tenant");
   }
 
-  const configs = await db.query.tenantModelConfigs.findMany({
-    where: eq(schema.tenantModelConfigs.tenantId, tenantId),
-    with: {
-        model: true
-    }
-  });
+  return { userId: session.user.id, tenantId };
+}
+
+/**
+ * GET /api/ai/config
+ * Lists the tenant's model configurations with API keys masked and,
+ * for models with request caps, the remaining daily/monthly budget
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { tenantId } = await requireTenant(request);
+
+    const configs = await db.query.tenantModelConfigs.findMany({
+      where: eq(schema.tenantModelConfigs.tenantId, tenantId),
+      with: {
+        model: true,
+      },
+    });
 
-  // Mask API keys
-  const safeConfigs = configs.map(c => ({
-      ...c,
-      encryptedApiKey: c.encryptedApiKey ? "sk-****" : null, // Simple mask
-  }));
+    const safeConfigs = await Promise.all(
+      configs.map(async (config: typeof schema.tenantModelConfigs.$inferSelect) => {
+        const { encryptedApiKey, ...rest } = config;
+        return {
+          ...rest,
+          hasApiKey: !!encryptedApiKey,
+          maskedApiKey: maskApiKey(encryptedApiKey),
+          budget: await getRequestBudget(config),
+        };
+      })
+    );
 
-  return NextResponse.json(safeConfigs);
+    return NextResponse.json(safeConfigs);
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
 }
 
-export async function POST(req: NextRequest) {
-    const session = await auth.api.getSession({
-        headers: await headers()
-    });
-  
-    if (!session || !session.user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+/**
+ * POST /api/ai/config
+ * Creates or updates a model configuration (tenant owners and admins only).
+ * New credentials are checked against the provider before they are stored.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, tenantId } = await requireTenant(request);
+
+    const role = await getUserTenantRole(userId, tenantId);
+    if (role !== "owner" && role !== "admin") {
+      throw new AuthorizationError("Only tenant owners and admins can change AI settings");
     }
 
-    // RBAC Check
-    // if (session.user.role !== 'admin' && session.user.role !== 'owner') {
-    //     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    // }
-  
-    const tenantId = session.session.activeTenantId;
-    if (!tenantId) return NextResponse.json({ error: "No active tenant" }, { status: 400 });
+    const parsed = configSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new ValidationError("Invalid model configuration", parsed.error.flatten().fieldErrors);
+    }
+
+    const { modelId, apiKey, isEnabled, customEndpoint } = parsed.data;
 
-    const body = await req.json();
-    const { modelId, apiKey, isEnabled, customEndpoint } = body;
+    const model = await db.query.aiModels.findFirst({
+      where: eq(schema.aiModels.id, modelId),
+    });
 
-    if (!modelId) return NextResponse.json({ error: "Missing modelId" }, { status: 400 });
+    if (!model) {
+      throw new NotFoundError("Model");
+    }
 
-    // Find existing
     const existing = await db.query.tenantModelConfigs.findFirst({
-        where: and(
-            eq(schema.tenantModelConfigs.tenantId, tenantId),
-            eq(schema.tenantModelConfigs.modelId, modelId)
-        )
+      where: and(
+        eq(schema.tenantModelConfigs.tenantId, tenantId),
+        eq(schema.tenantModelConfigs.modelId, modelId)
+      ),
     });
 
+    const endpoint =
+      customEndpoint === undefined ? existing?.customEndpoint || null : customEndpoint || null;
+    const keyChanged = apiKey !== undefined;
+    const endpointChanged = endpoint !== (existing?.customEndpoint || null);
+
+    if (model.provider === "custom" && !endpoint) {
+      throw new ValidationError("Custom models require an endpoint URL");
+    }
+
+    let encryptedApiKey = existing?.encryptedApiKey || null;
+    if (keyChanged) {
+      encryptedApiKey = apiKey ? encrypt(apiKey) : null;
+    }
+
+    // Only call out to the provider when the credentials actually change
+    if ((keyChanged && apiKey) || (endpointChanged && endpoint)) {
+      // Only the tenant's own key is sent, never the platform's
+      const valid = await aiService.validateCredentials(model.provider, {
+        apiKey: encryptedApiKey ? decrypt(encryptedApiKey) : undefined,
+        baseUrl: endpoint || undefined,
+      });
+
+      if (!valid) {
+        throw new ValidationError(`The ${model.provider} credentials could not be verified`);
+      }
+    }
+
     if (existing) {
-        await db.update(schema.tenantModelConfigs).set({
-            encryptedApiKey: apiKey, // In real app, encrypt this!
-            isEnabled,
-            customEndpoint,
-            updatedAt: new Date()
-        }).where(eq(schema.tenantModelConfigs.id, existing.id));
+      await db
+        .update(schema.tenantModelConfigs)
+        .set({
+          encryptedApiKey,
+          isEnabled: isEnabled ?? existing.isEnabled,
+          customEndpoint: endpoint,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.tenantModelConfigs.id, existing.id));
     } else {
-        await db.insert(schema.tenantModelConfigs).values({
-            tenantId,
-            modelId,
-            encryptedApiKey: apiKey,
-            isEnabled,
-            customEndpoint
-        });
+      await db.insert(schema.tenantModelConfigs).values({
+        tenantId,
+        modelId,
+        encryptedApiKey,
+        isEnabled: isEnabled ?? true,
+        customEndpoint: endpoint,
+      });
     }
 
-    return NextResponse.json({ success: true });
+    aiService.invalidateTenant(tenantId);
+
+    return NextResponse.json({
+      success: true,
+      maskedApiKey: maskApiKey(encryptedApiKey),
+    });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
 }
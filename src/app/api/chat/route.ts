@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { conversationManager, DEFAULT_MODEL_ID } from "@/lib/ai/conversation";
+import { aiService } from "@/lib/ai/service";
+import { SUPPORTED_IMAGE_TYPES } from "@/lib/ai/content";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import { toChatEvents } from "@/lib/ai/chat-events";
+import { createSSEResponse } from "@/lib/api/sse";
+import {
+  formatErrorResponse,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/utils/errors";
+
+// Base64 length of a 5 MB image
+const MAX_IMAGE_BASE64_LENGTH = Math.ceil((5 * 1024 * 1024 * 4) / 3);
+
+const chatRequestSchema = z
+  .object({
+    message: z.string().trim(),
+    conversationId: z.string().optional(),
+    threadId: z.string().optional(),
+    model: z.string().optional(),
+    images: z
+      .array(
+        z
+          .object({
+            mimeType: z.enum(SUPPORTED_IMAGE_TYPES),
+            data: z.string().min(1).max(MAX_IMAGE_BASE64_LENGTH),
+          })
+          .transform((image) => ({ type: "image" as const, ...image }))
+      )
+      .max(4)
+      .optional(),
+  })
+  .refine((body) => body.message.length > 0 || (body.images?.length ?? 0) > 0);
+
+/**
+ * POST /api/chat
+ * Sends a message (optionally with up to 4 base64 images for vision models)
+ * and streams the assistant reply as Server-Sent Events. Pass `threadId` to
+ * continue a branch of the conversation instead of its original path.
+ * See `toChatEvents` for the events sent.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = chatRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new ValidationError("A non-empty message or a supported image (PNG, JPEG, GIF, WebP up to 5 MB) is required");
+    }
+
+    const userId = session.user.id;
+    const activeTenantId = await getActiveTenantId(request, userId);
+    if (!activeTenantId) {
+      throw new ValidationError("No active tenant");
+    }
+
+    const tenantId: string = activeTenantId;
+    const { message, conversationId, threadId, model, images } = parsed.data;
+
+    if (threadId && !conversationId) {
+      throw new ValidationError("A threadId can only be used with a conversationId");
+    }
+
+    let existingModelId: string | null = null;
+    if (conversationId) {
+      // Also rejects a thread that belongs to another conversation
+      const existing = await conversationManager.getConversation(tenantId, userId, conversationId, threadId);
+      if (!existing) {
+        throw new NotFoundError("Conversation");
+      }
+      existingModelId = existing.modelId;
+    }
+    const modelId = model || existingModelId || DEFAULT_MODEL_ID;
+
+    // Reject unknown or disabled models before a conversation is created or the stream opens
+    const resolved = await aiService.resolveModel(modelId, tenantId);
+    if (images?.length && !resolved.model.supportsImage) {
+      throw new ValidationError(`${resolved.model.name} cannot read images. Choose a vision-capable model.`);
+    }
+
+    const conversation = await conversationManager.getOrCreateConversation(
+      tenantId,
+      userId,
+      conversationId,
+      model
+    );
+
+    return createSSEResponse(
+      toChatEvents(
+        conversation.id,
+        conversationManager.streamChat(tenantId, userId, conversation.id, message, modelId, {
+          images,
+          threadId,
+        }),
+        threadId
+      )
+    );
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
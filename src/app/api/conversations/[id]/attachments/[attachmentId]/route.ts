@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { conversationManager } from "@/lib/ai/conversation";
+import { getAttachments } from "@/lib/ai/attachments";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import {
+  formatErrorResponse,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/utils/errors";
+
+/**
+ * GET /api/conversations/:id/attachments/:attachmentId
+ * Serves an image attached to one of the conversation's messages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const tenantId = await getActiveTenantId(request, session.user.id);
+    if (!tenantId) {
+      throw new ValidationError("No active tenant");
+    }
+
+    const { id, attachmentId } = await params;
+    const conversation = await conversationManager.findOwnedConversation(tenantId, session.user.id, id);
+    if (!conversation) {
+      throw new NotFoundError("Conversation");
+    }
+
+    const image = (await getAttachments(id, [attachmentId])).get(attachmentId);
+    if (!image) {
+      throw new NotFoundError("Attachment");
+    }
+
+    // Attachments never change once stored
+    return new NextResponse(Buffer.from(image.data, "base64"), {
+      status: 200,
+      headers: {
+        "Content-Type": image.mimeType,
+        "Cache-Control": "private, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  exportFormats,
+  ExportFormat,
+  formatConversationExport,
+  getConversationExport,
+} from "@/lib/ai/conversation-export";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import { formatErrorResponse, AuthenticationError, ValidationError } from "@/lib/utils/errors";
+
+/**
+ * GET /api/conversations/:id/export?format=md|json|html
+ * Downloads a conversation with every branch (Markdown by default)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const tenantId = await getActiveTenantId(request, session.user.id);
+    if (!tenantId) {
+      throw new ValidationError("No active tenant");
+    }
+
+    const format = request.nextUrl.searchParams.get("format") || "md";
+    if (!exportFormats.includes(format as ExportFormat)) {
+      throw new ValidationError(`Unsupported export format. Use one of: ${exportFormats.join(", ")}`);
+    }
+
+    const { id } = await params;
+    const exported = await getConversationExport(session.user.id, id, tenantId);
+    const file = formatConversationExport(exported, format as ExportFormat);
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
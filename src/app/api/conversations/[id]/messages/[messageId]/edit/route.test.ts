@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import { auth } from "@/lib/auth";
+import { aiService } from "@/lib/ai/service";
+import type { StreamChunk } from "@/lib/ai/types";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import { createAccount, createConversation, modelInfo } from "@/test/fixtures";
+import { readEvents } from "@/test/server";
+import { POST } from "./route";
+
+vi.mock("@/lib/auth", () => ({
+  auth: { api: { getSession: vi.fn() } },
+}));
+vi.mock("@/lib/tenants/isolation", () => ({
+  getActiveTenantId: vi.fn(),
+}));
+
+async function setup() {
+  const { user, tenant, conversation } = await createConversation();
+  // Timestamps are stored in seconds, so space the turns out
+  const [question, answer] = await db.insert(schema.messages).values([
+    { conversationId: conversation.id, role: "user", content: "Hi", createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, 1)) },
+    { conversationId: conversation.id, role: "assistant", content: "Hello", createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, 2)) },
+  ]).returning();
+  vi.mocked(auth.api.getSession).mockResolvedValue({ user: { id: user.id } } as never);
+  vi.mocked(getActiveTenantId).mockResolvedValue(tenant.id);
+  return { conversation, question, answer };
+}
+
+function post(conversationId: string, messageId: string, body: string) {
+  return POST(
+    new NextRequest(`http://localhost/api/conversations/${conversationId}/messages/${messageId}/edit`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }),
+    { params: Promise.resolve({ id: conversationId, messageId }) }
+  );
+}
+
+async function threadsOf(conversationId: string) {
+  return db.query.threads.findMany({ where: eq(schema.threads.conversationId, conversationId) });
+}
+
+describe("POST /api/conversations/:id/messages/:messageId/edit", () => {
+  beforeEach(() => {
+    vi.spyOn(aiService, "resolveModel").mockResolvedValue({ model: modelInfo() } as never);
+    vi.spyOn(aiService, "getModelInfo").mockResolvedValue(modelInfo());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("resends the edited turn on a new branch forked before it", async () => {
+    const { conversation, question } = await setup();
+    vi.spyOn(aiService, "streamResponse").mockImplementation(async function* (): AsyncGenerator<StreamChunk> {
+      yield { id: "1", content: "Hello there", done: false };
+      yield { id: "1", content: "", done: true };
+    });
+
+    const response = await post(conversation.id, question.id, JSON.stringify({ content: "Hi there" }));
+    const events = await readEvents(response);
+
+    const [thread] = await threadsOf(conversation.id);
+    expect(thread.parentMessageId).toBeNull();
+    expect(events).toEqual([
+      { type: "conversation", conversationId: conversation.id, threadId: thread.id },
+      { type: "delta", content: "Hello there" },
+      expect.objectContaining({ type: "done", messageId: expect.any(String) }),
+    ]);
+    const saved = await db.query.messages.findMany({ where: eq(schema.messages.threadId, thread.id) });
+    expect(saved.map((m) => [m.role, m.content]).sort()).toEqual([["assistant", "Hello there"], ["user", "Hi there"]]);
+  });
+
+  it("removes the branch and the edited turn again when the provider fails", async () => {
+    const { conversation, question } = await setup();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(aiService, "streamResponse").mockImplementation(async function* (): AsyncGenerator<StreamChunk> {
+      throw new Error("Provider unavailable");
+    });
+
+    const events = await readEvents(await post(conversation.id, question.id, JSON.stringify({ content: "Hi there" })));
+
+    expect(events.at(-1)).toMatchObject({ type: "error", message: "Provider unavailable" });
+    expect(await threadsOf(conversation.id)).toEqual([]);
+    const messages = await db.query.messages.findMany({ where: eq(schema.messages.conversationId, conversation.id) });
+    expect(messages.map((m) => m.content)).not.toContain("Hi there");
+  });
+
+  it("rejects a malformed body or empty text", async () => {
+    const { conversation, question } = await setup();
+
+    expect((await post(conversation.id, question.id, "{not json")).status).toBe(400);
+    expect((await post(conversation.id, question.id, JSON.stringify({ content: "  " }))).status).toBe(400);
+    expect(await threadsOf(conversation.id)).toEqual([]);
+  });
+
+  it("rejects unknown messages, assistant replies and other users' conversations", async () => {
+    const { conversation, question, answer } = await setup();
+    const edit = JSON.stringify({ content: "Hi there" });
+
+    expect((await post(conversation.id, crypto.randomUUID(), edit)).status).toBe(404);
+    expect((await post(conversation.id, answer.id, edit)).status).toBe(400);
+
+    const other = await createAccount();
+    vi.mocked(auth.api.getSession).mockResolvedValue({ user: { id: other.user.id } } as never);
+    vi.mocked(getActiveTenantId).mockResolvedValue(other.tenant.id);
+    expect((await post(conversation.id, question.id, edit)).status).toBe(404);
+    expect(await threadsOf(conversation.id)).toEqual([]);
+  });
+});
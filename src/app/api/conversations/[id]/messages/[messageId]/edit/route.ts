@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { conversationManager, DEFAULT_MODEL_ID } from "@/lib/ai/conversation";
+import { aiService } from "@/lib/ai/service";
+import { toChatEvents } from "@/lib/ai/chat-events";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import { createSSEResponse } from "@/lib/api/sse";
+import {
+  formatErrorResponse,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/utils/errors";
+
+const editSchema = z.object({
+  content: z.string().trim().min(1),
+  model: z.string().optional(),
+});
+
+/**
+ * POST /api/conversations/:id/messages/:messageId/edit
+ * Resends a user turn with new text (keeping its images) and streams the reply.
+ * The edited turn starts a new branch, so the original turn and everything after
+ * it is kept as an alternate; the `conversation` event carries the `threadId`.
+ * If the reply fails, the branch is removed again.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = editSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      throw new ValidationError("The edited message cannot be empty");
+    }
+
+    const userId = session.user.id;
+    const activeTenantId = await getActiveTenantId(request, userId);
+    if (!activeTenantId) {
+      throw new ValidationError("No active tenant");
+    }
+
+    const tenantId: string = activeTenantId;
+    const { id, messageId } = await params;
+
+    const conversation = await conversationManager.getConversation(tenantId, userId, id);
+    if (!conversation) {
+      throw new NotFoundError("Conversation");
+    }
+
+    const target = await conversationManager.getEditTarget(tenantId, userId, id, messageId);
+    const modelId = parsed.data.model || conversation.modelId || DEFAULT_MODEL_ID;
+
+    // Reject unknown or disabled models before a branch is created
+    const resolved = await aiService.resolveModel(modelId, tenantId);
+    if (target.attachments.length && !resolved.model.supportsImage) {
+      throw new ValidationError(`${resolved.model.name} cannot read images. Choose a vision-capable model.`);
+    }
+
+    const thread = await conversationManager.forkConversation(tenantId, userId, id, target.parentMessageId);
+
+    return createSSEResponse(
+      toChatEvents(
+        id,
+        conversationManager.streamOnNewBranch(
+          thread,
+          conversationManager.streamChat(tenantId, userId, id, parsed.data.content, modelId, {
+            attachments: target.attachments,
+            threadId: thread.id,
+          })
+        ),
+        thread.id
+      )
+    );
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
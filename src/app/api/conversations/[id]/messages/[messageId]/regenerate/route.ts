@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { conversationManager, DEFAULT_MODEL_ID } from "@/lib/ai/conversation";
+import { aiService } from "@/lib/ai/service";
+import { toChatEvents } from "@/lib/ai/chat-events";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import { createSSEResponse } from "@/lib/api/sse";
+import {
+  formatErrorResponse,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/utils/errors";
+
+const regenerateSchema = z.object({
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+});
+
+/**
+ * POST /api/conversations/:id/messages/:messageId/regenerate
+ * Streams a new answer to the user turn behind an assistant reply, optionally with
+ * another model or temperature. The answer goes on a new branch, so the original
+ * reply is kept as an alternate; the `conversation` event carries its `threadId`.
+ * If the answer fails, the branch is removed again.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = regenerateSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      throw new ValidationError("Invalid regenerate request", parsed.error.flatten().fieldErrors);
+    }
+
+    const userId = session.user.id;
+    const activeTenantId = await getActiveTenantId(request, userId);
+    if (!activeTenantId) {
+      throw new ValidationError("No active tenant");
+    }
+
+    const tenantId: string = activeTenantId;
+    const { id, messageId } = await params;
+
+    const conversation = await conversationManager.getConversation(tenantId, userId, id);
+    if (!conversation) {
+      throw new NotFoundError("Conversation");
+    }
+
+    const target = await conversationManager.getRegenerateTarget(tenantId, userId, id, messageId);
+    const modelId = parsed.data.model || target.modelId || conversation.modelId || DEFAULT_MODEL_ID;
+
+    // Reject unknown or disabled models before a branch is created
+    await aiService.resolveModel(modelId, tenantId);
+
+    const thread = await conversationManager.forkConversation(tenantId, userId, id, target.parentMessageId);
+
+    return createSSEResponse(
+      toChatEvents(
+        id,
+        conversationManager.streamOnNewBranch(
+          thread,
+          conversationManager.streamReply(tenantId, userId, id, modelId, {
+            threadId: thread.id,
+            temperature: parsed.data.temperature,
+          })
+        ),
+        thread.id
+      )
+    );
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { conversationManager } from "@/lib/ai/conversation";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import {
+  formatErrorResponse,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/utils/errors";
+
+// Get a conversation with the messages on one branch (used to resume a chat).
+// Pass ?threadId= to load a branch instead of the original path.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const tenantId = await getActiveTenantId(request, session.user.id);
+    if (!tenantId) {
+      throw new ValidationError("No active tenant");
+    }
+
+    const { id } = await params;
+    const threadId = request.nextUrl.searchParams.get("threadId") || undefined;
+    const conversation = await conversationManager.getConversation(tenantId, session.user.id, id, threadId);
+
+    if (!conversation) {
+      throw new NotFoundError("Conversation");
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
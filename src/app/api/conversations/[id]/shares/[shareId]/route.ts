@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { revokeShareLink } from "@/lib/ai/sharing";
+import { formatErrorResponse, AuthenticationError, NotFoundError } from "@/lib/utils/errors";
+
+/**
+ * DELETE /api/conversations/:id/shares/:shareId
+ * Revokes a share link; the public page stops working immediately
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; shareId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const { id, shareId } = await params;
+    const revoked = await revokeShareLink(id, session.user.id, shareId);
+
+    if (!revoked) {
+      throw new NotFoundError("Share link");
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
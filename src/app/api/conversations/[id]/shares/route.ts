@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { createShareLink, listShareLinks } from "@/lib/ai/sharing";
+import { conversationManager } from "@/lib/ai/conversation";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import { shareModes } from "@/db/schema";
+import {
+  formatErrorResponse,
+  AuthenticationError,
+  ValidationError,
+} from "@/lib/utils/errors";
+
+const shareSchema = z.object({
+  threadId: z.string().optional(),
+  mode: z.enum(shareModes).default("snapshot"),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+async function requireConversation(request: NextRequest, conversationId: string) {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session) {
+    throw new AuthenticationError();
+  }
+
+  const tenantId = await getActiveTenantId(request, session.user.id);
+  if (!tenantId) {
+    throw new ValidationError("No active tenant");
+  }
+
+  // Throws NotFoundError unless the conversation is the user's
+  await conversationManager.listThreads(tenantId, session.user.id, conversationId);
+
+  return { userId: session.user.id, tenantId };
+}
+
+/**
+ * GET /api/conversations/:id/shares
+ * Lists the user's share links for a conversation, including revoked and expired ones
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { userId } = await requireConversation(request, id);
+
+    const shares = await listShareLinks(id, userId);
+    return NextResponse.json({ shares });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * POST /api/conversations/:id/shares
+ * Creates a public read-only link to a branch (the original path by default).
+ * `snapshot` links show the messages as they are now, `live` links follow new
+ * messages. The system prompt is never shown. The returned URL is only shown once.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { userId, tenantId } = await requireConversation(request, id);
+
+    const parsed = shareSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      throw new ValidationError("Invalid share link request", parsed.error.flatten().fieldErrors);
+    }
+
+    const { token, share } = await createShareLink({
+      tenantId,
+      userId,
+      conversationId: id,
+      ...parsed.data,
+    });
+
+    return NextResponse.json(
+      { share, url: new URL(`/share/${token}`, request.nextUrl.origin).toString() },
+      { status: 201 }
+    );
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { conversationManager } from "@/lib/ai/conversation";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import {
+  formatErrorResponse,
+  AuthenticationError,
+  ValidationError,
+} from "@/lib/utils/errors";
+
+const forkSchema = z.object({
+  // null forks from the start of the conversation
+  messageId: z.string().min(1).nullable(),
+  title: z.string().trim().max(255).optional(),
+});
+
+async function requireTenant(request: NextRequest) {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session) {
+    throw new AuthenticationError();
+  }
+
+  const tenantId = await getActiveTenantId(request, session.user.id);
+  if (!tenantId) {
+    throw new ValidationError("No active tenant");
+  }
+
+  return { userId: session.user.id, tenantId };
+}
+
+/**
+ * GET /api/conversations/:id/threads
+ * Lists the conversation's branches. With ?messageId= it lists the sibling
+ * branches after that message instead, starting with its own continuation.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, tenantId } = await requireTenant(request);
+    const { id } = await params;
+
+    const messageId = request.nextUrl.searchParams.get("messageId");
+    if (messageId) {
+      const branches = await conversationManager.listBranches(tenantId, userId, id, messageId);
+      return NextResponse.json({ branches });
+    }
+
+    const threads = await conversationManager.listThreads(tenantId, userId, id);
+    return NextResponse.json({ threads });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * POST /api/conversations/:id/threads
+ * Forks the conversation after a message. Send the returned thread id as
+ * `threadId` to /api/chat to continue the new branch.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, tenantId } = await requireTenant(request);
+    const { id } = await params;
+
+    const parsed = forkSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new ValidationError("Invalid branch request", parsed.error.flatten().fieldErrors);
+    }
+
+    const thread = await conversationManager.forkConversation(
+      tenantId,
+      userId,
+      id,
+      parsed.data.messageId,
+      parsed.data.title
+    );
+
+    return NextResponse.json({ thread }, { status: 201 });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
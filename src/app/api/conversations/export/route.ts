@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  createConversationArchive,
+  exportFormats,
+  ExportFormat,
+  getAllConversationExports,
+} from "@/lib/ai/conversation-export";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import { formatErrorResponse, AuthenticationError, ValidationError } from "@/lib/utils/errors";
+
+/**
+ * GET /api/conversations/export?format=md|json|html
+ * Downloads all of the user's conversations in the active tenant as a zip,
+ * one file per conversation (Markdown by default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const tenantId = await getActiveTenantId(request, session.user.id);
+    if (!tenantId) {
+      throw new ValidationError("No active tenant");
+    }
+
+    const format = request.nextUrl.searchParams.get("format") || "md";
+    if (!exportFormats.includes(format as ExportFormat)) {
+      throw new ValidationError(`Unsupported export format. Use one of: ${exportFormats.join(", ")}`);
+    }
+
+    const exports = await getAllConversationExports(session.user.id, tenantId);
+    const archive = createConversationArchive(exports, format as ExportFormat);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(Buffer.from(archive), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="conversations-${date}.zip"`,
+      },
+    });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { conversationManager } from "@/lib/ai/conversation";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import { formatErrorResponse, AuthenticationError, ValidationError } from "@/lib/utils/errors";
+
+// List the signed-in user's conversations
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const tenantId = await getActiveTenantId(request, session.user.id);
+    if (!tenantId) {
+      throw new ValidationError("No active tenant");
+    }
+
+    const { searchParams } = request.nextUrl;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const conversations = await conversationManager.listConversations(tenantId, session.user.id, {
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { conversationSearch } from "@/lib/ai/conversation-search";
+import { conversationStatuses } from "@/db/schema";
+import { getActiveTenantId } from "@/lib/tenants/isolation";
+import { formatErrorResponse, AuthenticationError, ValidationError } from "@/lib/utils/errors";
+
+const searchSchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  model: z.string().min(1).optional(),
+  status: z.enum(conversationStatuses).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * GET /api/conversations/search?q=
+ * Full-text search over the user's conversation titles and messages in the
+ * active tenant. Optional filters: model, status, from/to (ISO dates), limit, offset.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session) {
+      throw new AuthenticationError();
+    }
+
+    const tenantId = await getActiveTenantId(request, session.user.id);
+    if (!tenantId) {
+      throw new ValidationError("No active tenant");
+    }
+
+    const parsed = searchSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      throw new ValidationError("Invalid search request", parsed.error.flatten().fieldErrors);
+    }
+
+    const results = await conversationSearch.search({
+      tenantId,
+      userId: session.user.id,
+      query: parsed.data.q,
+      model: parsed.data.model,
+      status: parsed.data.status,
+      from: parsed.data.from,
+      to: parsed.data.to,
+      limit: parsed.data.limit,
+      offset: parsed.data.offset,
+    });
+
+    return NextResponse.json(results);
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { aiService } from "@/lib/ai/service";
+import type { StreamChunk } from "@/lib/ai/types";
+import { readEvents } from "@/test/server";
+import { POST } from "./route";
+
+vi.mock("@/lib/api/middleware", () => ({
+  withTenantAPIMiddleware: vi.fn(),
+}));
+
+function post(body: Record<string, unknown>) {
+  return POST(
+    new NextRequest("http://localhost/api/v1/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "test-model", messages: [{ role: "user", content: "Hi" }], ...body }),
+    })
+  );
+}
+
+describe("POST /api/v1/chat/completions", () => {
+  beforeEach(() => {
+    vi.mocked(withTenantAPIMiddleware).mockResolvedValue({ userId: "user-1", tenantId: "tenant-1" } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("rejects response_format on streamed requests", async () => {
+    const response = await post({
+      stream: true,
+      response_format: { type: "json_schema", json_schema: { name: "answer", schema: { type: "object" } } },
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: { type: "invalid_request_error", message: expect.stringContaining("response_format") },
+    });
+  });
+
+  it("numbers streamed tool calls from 0 whatever index the provider used", async () => {
+    vi.spyOn(aiService, "resolveModel").mockResolvedValue({} as never);
+    vi.spyOn(aiService, "streamResponse").mockImplementation(async function* (): AsyncGenerator<StreamChunk> {
+      // Anthropic indexes by content block, after a leading text block
+      yield { id: "1", content: "Checking.", done: false };
+      yield { id: "1", content: "", done: false, toolCalls: [{ index: 1, id: "call_a", name: "lookup", arguments: "" }] };
+      yield { id: "1", content: "", done: false, toolCalls: [{ index: 1, arguments: '{"q":"a"}' }] };
+      yield { id: "1", content: "", done: false, toolCalls: [{ index: 2, id: "call_b", name: "lookup", arguments: "" }] };
+      yield { id: "1", content: "", done: false, toolCalls: [{ index: 2, arguments: '{"q":"b"}' }] };
+      yield { id: "1", content: "", done: true };
+    });
+
+    const response = await post({ stream: true });
+    const events = await readEvents(response);
+
+    const deltas = events.flatMap((event) =>
+      typeof event === "object" && event && "choices" in event
+        ? (event as { choices: { delta: { tool_calls?: { index: number; id?: string }[] } }[] }).choices
+            .flatMap((c) => c.delta.tool_calls ?? [])
+        : []
+    );
+    expect(deltas.map((d) => d.index)).toEqual([0, 0, 1, 1]);
+    expect(deltas.filter((d) => d.id).map((d) => [d.index, d.id])).toEqual([[0, "call_a"], [1, "call_b"]]);
+  });
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { createSSEResponse } from "@/lib/api/sse";
+import {
+  chatCompletionRequestSchema,
+  createChatCompletion,
+  streamChatCompletion,
+  toChatRequest,
+  toOpenAIError,
+} from "@/lib/ai/openai-compat";
+import { aiService } from "@/lib/ai/service";
+import { ValidationError } from "@/lib/utils/errors";
+
+/**
+ * POST /api/v1/chat/completions
+ * OpenAI-compatible chat completions for the API key's tenant. Point an OpenAI SDK's
+ * base URL at /api/v1 and use any model the tenant has enabled; requests go through
+ * the tenant's credentials, quotas and fallback chain. Errors use OpenAI's error format.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, tenantId } = await withTenantAPIMiddleware(request, "write");
+
+    const parsed = chatCompletionRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new ValidationError(
+        issue ? `Invalid request: ${issue.path.join(".") || "body"}: ${issue.message}` : "Invalid request"
+      );
+    }
+
+    const chatRequest = toChatRequest(parsed.data, userId);
+
+    if (parsed.data.stream) {
+      // Structured replies are validated once complete, which a stream cannot wait for
+      if (chatRequest.responseFormat) {
+        throw new ValidationError("response_format is not supported with stream: true");
+      }
+
+      // Reject unknown or disabled models before the stream opens
+      await aiService.resolveModel(chatRequest.model, tenantId);
+
+      return createSSEResponse(
+        streamChatCompletion(chatRequest, tenantId, {
+          includeUsage: parsed.data.stream_options?.include_usage,
+        })
+      );
+    }
+
+    return NextResponse.json(await createChatCompletion(chatRequest, tenantId));
+  } catch (error) {
+    const { status, error: body } = toOpenAIError(error);
+    return NextResponse.json({ error: body }, { status });
+  }
+}
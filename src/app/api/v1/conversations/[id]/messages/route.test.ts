@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { conversationManager } from "@/lib/ai/conversation";
+import { aiService } from "@/lib/ai/service";
+import {
+  chatResponse,
+  createAccount,
+  createConversation,
+  createModel,
+  createTenantModelConfig,
+  modelInfo,
+} from "@/test/fixtures";
+import { GET, POST } from "./route";
+
+vi.mock("@/lib/api/middleware", () => ({
+  withTenantAPIMiddleware: vi.fn(),
+}));
+
+function list(id: string, query = "") {
+  return GET(new NextRequest(`http://localhost/api/v1/conversations/${id}/messages${query}`), {
+    params: Promise.resolve({ id }),
+  });
+}
+
+function send(id: string, body: unknown) {
+  return POST(
+    new NextRequest(`http://localhost/api/v1/conversations/${id}/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+}
+
+describe("/api/v1/conversations/:id/messages", () => {
+  let owned: Awaited<ReturnType<typeof createConversation>>;
+  let model: Awaited<ReturnType<typeof createModel>>;
+
+  beforeEach(async () => {
+    owned = await createConversation();
+    model = await createModel();
+    await createTenantModelConfig({ tenantId: owned.tenant.id, modelId: model.id });
+    vi.mocked(withTenantAPIMiddleware).mockResolvedValue({ userId: owned.user.id, tenantId: owned.tenant.id } as never);
+    vi.spyOn(aiService, "getModelInfo").mockResolvedValue(modelInfo({ id: model.modelId }));
+    vi.spyOn(aiService, "generateResponse").mockResolvedValue(chatResponse({ content: "Hello!" }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends a message and returns the saved reply, then lists both", async () => {
+    const id = owned.conversation.id;
+
+    const response = await send(id, { message: "Hi", model: model.modelId });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).message).toMatchObject({ role: "assistant", content: "Hello!", threadId: null });
+
+    const listed = await (await list(id)).json();
+    expect(listed).toMatchObject({ total: 2, limit: 50, offset: 0 });
+    expect(listed.messages.map((m: { content: string }) => m.content)).toEqual(["Hi", "Hello!"]);
+  });
+
+  it("rejects invalid messages and query parameters", async () => {
+    const id = owned.conversation.id;
+
+    expect((await send(id, "{not json")).status).toBe(400);
+    expect((await send(id, { message: "  " })).status).toBe(400);
+    expect((await send(id, { message: "Hi", temperature: 3 })).status).toBe(400);
+    expect((await list(id, "?limit=1000")).status).toBe(400);
+    expect(aiService.generateResponse).not.toHaveBeenCalled();
+  });
+
+  it("keeps other users and tenants out", async () => {
+    const other = await createAccount();
+    const id = owned.conversation.id;
+
+    vi.mocked(withTenantAPIMiddleware).mockResolvedValue({ userId: other.user.id, tenantId: other.tenant.id } as never);
+    expect((await list(id)).status).toBe(404);
+    expect((await send(id, { message: "Hi", model: model.modelId })).status).toBe(404);
+
+    vi.mocked(withTenantAPIMiddleware).mockResolvedValue({ userId: owned.user.id, tenantId: other.tenant.id } as never);
+    expect((await send(id, { message: "Hi", model: model.modelId })).status).toBe(404);
+    expect(aiService.generateResponse).not.toHaveBeenCalled();
+  });
+
+  it("rejects branches of other conversations and archived conversations", async () => {
+    const id = owned.conversation.id;
+    const sibling = await conversationManager.createConversation(owned.tenant.id, owned.user.id);
+    const foreignThread = await conversationManager.forkConversation(owned.tenant.id, owned.user.id, sibling.id, null);
+
+    const response = await send(id, { message: "Hi", model: model.modelId, threadId: foreignThread.id });
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.message).toBe("Thread not found");
+
+    await db.update(schema.conversations).set({ status: "archived" }).where(eq(schema.conversations.id, id));
+    expect((await send(id, { message: "Hi", model: model.modelId })).status).toBe(400);
+    expect(aiService.generateResponse).not.toHaveBeenCalled();
+  });
+});
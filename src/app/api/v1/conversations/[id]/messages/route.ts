@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { getAPIConversation, toAPIMessage } from "@/lib/api/conversations";
+import { createSSEResponse } from "@/lib/api/sse";
+import { conversationManager, DEFAULT_MODEL_ID } from "@/lib/ai/conversation";
+import { aiService } from "@/lib/ai/service";
+import { toChatEvents } from "@/lib/ai/chat-events";
+import { formatErrorResponse, NotFoundError, ValidationError } from "@/lib/utils/errors";
+
+const listSchema = z.object({
+  threadId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const sendSchema = z.object({
+  message: z.string().trim().min(1),
+  model: z.string().min(1).optional(),
+  threadId: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  stream: z.boolean().default(false),
+});
+
+/**
+ * GET /api/v1/conversations/:id/messages
+ * Pages through the messages on the original path, or on a branch with ?threadId=, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, tenantId } = await withTenantAPIMiddleware(request, "read");
+    const { id } = await params;
+
+    const parsed = listSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      throw new ValidationError("Invalid query parameters", parsed.error.flatten().fieldErrors);
+    }
+
+    const { threadId, limit, offset } = parsed.data;
+    await getAPIConversation(tenantId, userId, id);
+    const { messages, total } = await conversationManager.listMessages(tenantId, userId, id, {
+      threadId,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({ messages: messages.map(toAPIMessage), total, limit, offset });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * POST /api/v1/conversations/:id/messages
+ * Sends a user message and returns the assistant reply. With `stream: true` the
+ * reply is streamed as Server-Sent Events instead (see `toChatEvents`).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, tenantId } = await withTenantAPIMiddleware(request, "write");
+    const { id } = await params;
+
+    const parsed = sendSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      throw new ValidationError("Invalid message", parsed.error.flatten().fieldErrors);
+    }
+
+    const { message, model, threadId, temperature, stream } = parsed.data;
+    const conversation = await getAPIConversation(tenantId, userId, id);
+
+    if (conversation.status !== "active") {
+      throw new ValidationError("Restore the conversation before sending messages to it");
+    }
+
+    // Also rejects a thread that belongs to another conversation
+    if (threadId && !(await conversationManager.findOwnedThread(tenantId, userId, id, threadId))) {
+      throw new NotFoundError("Thread");
+    }
+
+    const modelId = model || conversation.modelId || DEFAULT_MODEL_ID;
+    await aiService.resolveModel(modelId, tenantId);
+
+    if (stream) {
+      return createSSEResponse(
+        toChatEvents(
+          id,
+          conversationManager.streamChat(tenantId, userId, id, message, modelId, { threadId, temperature }),
+          threadId
+        )
+      );
+    }
+
+    const reply = await conversationManager.chat(tenantId, userId, id, message, modelId, { threadId, temperature });
+
+    return NextResponse.json({ message: toAPIMessage(reply) });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { createAccount, createConversation } from "@/test/fixtures";
+import { DELETE, GET, PATCH } from "./route";
+
+vi.mock("@/lib/api/middleware", () => ({
+  withTenantAPIMiddleware: vi.fn(),
+}));
+
+type Handler = (request: NextRequest, context: { params: Promise<{ id: string }> }) => Promise<Response>;
+
+function call(handler: Handler, id: string, init?: { method: string; body?: string }) {
+  return handler(
+    new NextRequest(`http://localhost/api/v1/conversations/${id}`, {
+      headers: { "Content-Type": "application/json" },
+      ...init,
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+}
+
+describe("/api/v1/conversations/:id", () => {
+  let owned: Awaited<ReturnType<typeof createConversation>>;
+
+  beforeEach(async () => {
+    owned = await createConversation();
+    vi.mocked(withTenantAPIMiddleware).mockResolvedValue({ userId: owned.user.id, tenantId: owned.tenant.id } as never);
+  });
+
+  it("returns the conversation with its enrichment", async () => {
+    const response = await call(GET, owned.conversation.id);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).conversation).toMatchObject({
+      id: owned.conversation.id,
+      title: "Test",
+      language: "en",
+    });
+  });
+
+  it("hides conversations of other users and tenants", async () => {
+    const other = await createAccount();
+    const id = owned.conversation.id;
+
+    vi.mocked(withTenantAPIMiddleware).mockResolvedValue({ userId: other.user.id, tenantId: owned.tenant.id } as never);
+    expect((await call(GET, id)).status).toBe(404);
+
+    // The owner's key for another tenant
+    vi.mocked(withTenantAPIMiddleware).mockResolvedValue({ userId: owned.user.id, tenantId: other.tenant.id } as never);
+    expect((await call(GET, id)).status).toBe(404);
+    expect((await call(PATCH, id, { method: "PATCH", body: JSON.stringify({ title: "Mine now" }) })).status).toBe(404);
+    expect((await call(DELETE, id, { method: "DELETE" })).status).toBe(404);
+  });
+
+  it("renames and archives, and rejects empty updates", async () => {
+    const id = owned.conversation.id;
+
+    const renamed = await call(PATCH, id, { method: "PATCH", body: JSON.stringify({ title: "Renamed", status: "archived" }) });
+    expect((await renamed.json()).conversation).toMatchObject({ title: "Renamed", status: "archived" });
+
+    const empty = await call(PATCH, id, { method: "PATCH", body: "{}" });
+    expect(empty.status).toBe(400);
+    expect((await empty.json()).error.message).toBe("Provide a title or status to update");
+    expect((await call(PATCH, id, { method: "PATCH", body: JSON.stringify({ status: "deleted" }) })).status).toBe(400);
+  });
+
+  it("treats a deleted conversation as missing", async () => {
+    const id = owned.conversation.id;
+
+    expect((await call(DELETE, id, { method: "DELETE" })).status).toBe(200);
+
+    expect((await call(GET, id)).status).toBe(404);
+    expect((await call(DELETE, id, { method: "DELETE" })).status).toBe(404);
+  });
+});
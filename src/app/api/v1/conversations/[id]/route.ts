@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { getAPIConversation, toAPIConversation } from "@/lib/api/conversations";
+import { conversationManager } from "@/lib/ai/conversation";
+import { formatErrorResponse, ValidationError } from "@/lib/utils/errors";
+
+const updateSchema = z
+  .object({
+    title: z.string().trim().min(1).max(500).optional(),
+    status: z.enum(["active", "archived"]).optional(),
+  })
+  .refine((body) => body.title !== undefined || body.status !== undefined, {
+    message: "Provide a title or status to update",
+  });
+
+/**
+ * GET /api/v1/conversations/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, tenantId } = await withTenantAPIMiddleware(request, "read");
+    const { id } = await params;
+
+    const conversation = await getAPIConversation(tenantId, userId, id);
+
+    return NextResponse.json({ conversation: toAPIConversation(conversation) });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * PATCH /api/v1/conversations/:id
+ * Renames a conversation, or archives or restores it with `status`
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, tenantId } = await withTenantAPIMiddleware(request, "write");
+    const { id } = await params;
+
+    const parsed = updateSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.issues[0]?.message || "Invalid update", parsed.error.flatten().fieldErrors);
+    }
+
+    await getAPIConversation(tenantId, userId, id);
+    const conversation = await conversationManager.updateConversation(tenantId, userId, id, parsed.data);
+
+    return NextResponse.json({ conversation: toAPIConversation(conversation) });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * DELETE /api/v1/conversations/:id
+ * Soft-deletes the conversation; it no longer appears in the API
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, tenantId } = await withTenantAPIMiddleware(request, "write");
+    const { id } = await params;
+
+    await getAPIConversation(tenantId, userId, id);
+    await conversationManager.updateConversation(tenantId, userId, id, { status: "deleted" });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
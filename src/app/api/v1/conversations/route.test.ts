@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { conversationManager } from "@/lib/ai/conversation";
+import { createAccount, createModel, createTenantModelConfig } from "@/test/fixtures";
+import { GET, POST } from "./route";
+
+vi.mock("@/lib/api/middleware", () => ({
+  withTenantAPIMiddleware: vi.fn(),
+}));
+
+function list(query = "") {
+  return GET(new NextRequest(`http://localhost/api/v1/conversations${query}`));
+}
+
+function create(body: string) {
+  return POST(
+    new NextRequest("http://localhost/api/v1/conversations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    })
+  );
+}
+
+describe("/api/v1/conversations", () => {
+  let account: Awaited<ReturnType<typeof createAccount>>;
+
+  beforeEach(async () => {
+    account = await createAccount();
+    vi.mocked(withTenantAPIMiddleware).mockResolvedValue({ userId: account.user.id, tenantId: account.tenant.id } as never);
+  });
+
+  it("lists only the key owner's conversations in the key's tenant", async () => {
+    const { user, tenant } = account;
+    const own = await conversationManager.createConversation(tenant.id, user.id, { title: "Mine" });
+    const other = await createAccount();
+    await conversationManager.createConversation(other.tenant.id, other.user.id, { title: "Theirs" });
+    // The same user in another tenant
+    await conversationManager.createConversation(other.tenant.id, user.id, { title: "Elsewhere" });
+
+    const response = await list();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      conversations: [{ id: own.id, title: "Mine", status: "active", tags: [] }],
+      limit: 20,
+      offset: 0,
+    });
+  });
+
+  it("rejects invalid paging and statuses", async () => {
+    expect((await list("?limit=0")).status).toBe(400);
+    expect((await list("?limit=500")).status).toBe(400);
+    expect((await list("?status=deleted")).status).toBe(400);
+  });
+
+  it("creates a conversation with a model the tenant has enabled", async () => {
+    const model = await createModel();
+    await createTenantModelConfig({ tenantId: account.tenant.id, modelId: model.id });
+
+    const response = await create(JSON.stringify({ title: "Plans", model: model.modelId, systemPrompt: "Be brief." }));
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).conversation).toMatchObject({
+      title: "Plans",
+      model: model.modelId,
+      systemPrompt: "Be brief.",
+    });
+  });
+
+  it("rejects invalid bodies and models the tenant cannot use", async () => {
+    const disabled = await createModel();
+
+    const invalid = await create(JSON.stringify({ title: "" }));
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toMatchObject({ code: "VALIDATION_ERROR", errors: { title: expect.any(Array) } });
+
+    expect((await create(JSON.stringify({ model: "no-such-model" }))).status).toBe(404);
+    expect((await create(JSON.stringify({ model: disabled.modelId }))).status).toBe(400);
+    expect(await conversationManager.listConversations(account.tenant.id, account.user.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { toAPIConversation } from "@/lib/api/conversations";
+import { conversationManager } from "@/lib/ai/conversation";
+import { aiService } from "@/lib/ai/service";
+import { formatErrorResponse, ValidationError } from "@/lib/utils/errors";
+
+const listSchema = z.object({
+  status: z.enum(["active", "archived"]).default("active"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const createSchema = z.object({
+  title: z.string().trim().min(1).max(500).optional(),
+  model: z.string().min(1).optional(),
+  systemPrompt: z.string().max(20000).optional(),
+});
+
+/**
+ * GET /api/v1/conversations
+ * Lists the key owner's conversations in the key's tenant, most recently updated first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId, tenantId } = await withTenantAPIMiddleware(request, "read");
+
+    const parsed = listSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      throw new ValidationError("Invalid query parameters", parsed.error.flatten().fieldErrors);
+    }
+
+    const { status, limit, offset } = parsed.data;
+    const conversations = await conversationManager.listConversations(tenantId, userId, { status, limit, offset });
+
+    return NextResponse.json({ conversations: conversations.map(toAPIConversation), limit, offset });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
+
+/**
+ * POST /api/v1/conversations
+ * Creates an empty conversation; send messages to /conversations/:id/messages
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, tenantId } = await withTenantAPIMiddleware(request, "write");
+
+    const parsed = createSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      throw new ValidationError("Invalid conversation", parsed.error.flatten().fieldErrors);
+    }
+
+    const { title, model, systemPrompt } = parsed.data;
+    if (model) {
+      // Reject unknown or disabled models up front
+      await aiService.resolveModel(model, tenantId);
+    }
+
+    const conversation = await conversationManager.createConversation(tenantId, userId, {
+      title,
+      modelId: model,
+      systemPrompt,
+    });
+
+    return NextResponse.json({ conversation: toAPIConversation(conversation) }, { status: 201 });
+  } catch (error) {
+    const response = formatErrorResponse(error);
+    const statusCode = response.error.statusCode || 500;
+    return NextResponse.json(response, { status: statusCode });
+  }
+}
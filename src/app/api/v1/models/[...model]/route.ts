@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { listTenantModels, toOpenAIError } from "@/lib/ai/openai-compat";
+import { NotFoundError } from "@/lib/utils/errors";
+
+/**
+ * GET /api/v1/models/:model
+ * OpenAI-compatible model lookup. Model ids may contain slashes.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ model: string[] }> }
+) {
+  try {
+    const { tenantId } = await withTenantAPIMiddleware(request, "read");
+    const modelId = (await params).model.join("/");
+
+    const model = (await listTenantModels(tenantId)).find((m) => m.id === modelId);
+    if (!model) {
+      throw new NotFoundError(`Model "${modelId}"`);
+    }
+
+    return NextResponse.json(model);
+  } catch (error) {
+    const { status, error: body } = toOpenAIError(error);
+    return NextResponse.json({ error: body }, { status });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantAPIMiddleware } from "@/lib/api/middleware";
+import { listTenantModels, toOpenAIError } from "@/lib/ai/openai-compat";
+
+/**
+ * GET /api/v1/models
+ * OpenAI-compatible list of the models enabled for the API key's tenant
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { tenantId } = await withTenantAPIMiddleware(request, "read");
+
+    return NextResponse.json({ object: "list", data: await listTenantModels(tenantId) });
+  } catch (error) {
+    const { status, error: body } = toOpenAIError(error);
+    return NextResponse.json({ error: body }, { status });
+  }
+}
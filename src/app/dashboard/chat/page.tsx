@@ -5,7 +5,13 @@ export const metadata = {
   description: "Chat with your AI assistant",
 }
 
-export default function ChatPage() {
+export default async function ChatPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ id?: string; thread?: string }>
+}) {
+  const { id, thread } = await searchParams
+
   return (
     <div className="hidden h-full flex-col md:flex p-6">
       <div className="flex items-center justify-between space-y-2 mb-4">
@@ -17,7 +23,7 @@ export default function ChatPage() {
         </div>
       </div>
       <div className="flex-1 h-[calc(100vh-200px)]">
-         <ChatInterface />
+         <ChatInterface key={id ?? "new"} conversationId={id} threadId={thread} />
       </div>
     </div>
   )
@@ -2,6 +2,7 @@ import type { Metadata } from "next"
 import Link from "next/link"
 import { LayoutDashboard, MessageSquare, Settings, Plug } from "lucide-react"
 
+import { ConversationSearchBox } from "@/components/chat/conversation-search"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
@@ -71,7 +72,7 @@ export default function DashboardLayout({
           </div>
           <div className="flex flex-1 items-center justify-between space-x-2 md:justify-end">
             <div className="w-full flex-1 md:w-auto md:flex-none">
-              
+              <ConversationSearchBox />
             </div>
             <nav className="flex items-center">
                <ThemeToggle />
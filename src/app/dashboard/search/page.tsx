@@ -0,0 +1,26 @@
+import { ConversationSearch, type SearchFilters } from "@/components/chat/conversation-search"
+
+export const metadata = {
+  title: "Search - Project Aware",
+  description: "Search your conversations",
+}
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchFilters>
+}) {
+  const filters = await searchParams
+
+  return (
+    <div className="flex h-full flex-col p-6">
+      <div className="mb-4 space-y-2">
+        <h2 className="text-2xl font-bold tracking-tight">Search</h2>
+        <p className="text-muted-foreground">
+          Find messages and conversations by keyword.
+        </p>
+      </div>
+      <ConversationSearch key={JSON.stringify(filters)} filters={filters} />
+    </div>
+  )
+}
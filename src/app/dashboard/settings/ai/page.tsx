@@ -3,12 +3,22 @@
 import { useState, useEffect } from "react";
 import { Save, Key, Globe, Loader2, CheckCircle2 } from "lucide-react";
 
+interface QuotaBudget {
+    limit: number;
+    used: number;
+    remaining: number;
+}
+
 interface ModelConfig {
     id: string;
     modelId: string;
     isEnabled: boolean;
-    encryptedApiKey?: string;
+    maskedApiKey?: string | null;
     customEndpoint?: string;
+    budget?: {
+        daily: QuotaBudget | null;
+        monthly: QuotaBudget | null;
+    };
     model: {
         name: string;
         provider: string;
@@ -19,6 +29,8 @@ export default function AISettingsPage() {
     const [configs, setConfigs] = useState<ModelConfig[]>([]);
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState<string | null>(null);
+    const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
+    const [errors, setErrors] = useState<Record<string, string>>({});
 
     useEffect(() => {
         fetchConfigs();
@@ -38,19 +50,28 @@ export default function AISettingsPage() {
         }
     };
 
-    const handleSave = async (config: ModelConfig, apiKey: string) => {
+    const handleSave = async (config: ModelConfig) => {
         setSaving(config.modelId);
+        setErrors(({ [config.id]: _, ...rest }) => rest);
         try {
-            await fetch("/api/ai/config", {
+            const apiKey = apiKeys[config.id];
+            const res = await fetch("/api/ai/config", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
                     modelId: config.modelId,
-                    apiKey,
+                    // Leave the stored key untouched unless a new one was typed
+                    apiKey: apiKey ? apiKey : undefined,
                     isEnabled: config.isEnabled,
                     customEndpoint: config.customEndpoint
                 })
             });
+            if (!res.ok) {
+                const data = await res.json().catch(() => null);
+                setErrors(prev => ({ ...prev, [config.id]: data?.error?.message || "Failed to save configuration" }));
+                return;
+            }
+            setApiKeys(({ [config.id]: _, ...rest }) => rest);
             // Refresh to show saved state
             await fetchConfigs();
         } catch (e) {
@@ -111,12 +132,12 @@ export default function AISettingsPage() {
                                     </label>
                                     <input 
                                         type="password" 
-                                        placeholder={config.encryptedApiKey ? "•••••••••••••" : "Enter API Key"}
+                                        value={apiKeys[config.id] || ""}
+                                        placeholder={config.maskedApiKey || "Enter API Key"}
                                         className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-emerald-500 outline-none transition-colors"
                                         onChange={(e) => {
-                                             // State mgmt for local edit
+                                            setApiKeys(prev => ({ ...prev, [config.id]: e.target.value }));
                                         }}
-                                        // Need separate state for input value vs config value
                                     />
                                 </div>
                                 
@@ -139,9 +160,24 @@ export default function AISettingsPage() {
                                 )}
                             </div>
 
+                            {(config.budget?.daily || config.budget?.monthly) && (
+                                <div className="flex gap-4 text-xs text-gray-400">
+                                    {config.budget.daily && (
+                                        <span>Today: {config.budget.daily.remaining} of {config.budget.daily.limit} requests left</span>
+                                    )}
+                                    {config.budget.monthly && (
+                                        <span>This month: {config.budget.monthly.remaining} of {config.budget.monthly.limit} requests left</span>
+                                    )}
+                                </div>
+                            )}
+
+                            {errors[config.id] && (
+                                <p role="alert" className="text-sm text-red-400">{errors[config.id]}</p>
+                            )}
+
                             <div className="flex justify-end pt-2">
                                 <button 
-                                    onClick={() => handleSave(config, "demo-key")} // Need real key state interaction
+                                    onClick={() => handleSave(config)}
                                     disabled={saving === config.modelId}
                                     className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
                                 >
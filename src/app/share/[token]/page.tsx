@@ -0,0 +1,84 @@
+import type { Metadata } from "next"
+import Image from "next/image"
+import { notFound } from "next/navigation"
+import { Bot, User } from "lucide-react"
+
+import { getSharedConversation } from "@/lib/ai/sharing"
+import { cn } from "@/lib/utils"
+
+export const dynamic = "force-dynamic"
+
+export const metadata: Metadata = {
+  title: "Shared conversation - Project Aware",
+  robots: { index: false, follow: false },
+}
+
+export default async function SharedConversationPage({
+  params,
+}: {
+  params: Promise<{ token: string }>
+}) {
+  const { token } = await params
+  const conversation = await getSharedConversation(token)
+
+  if (!conversation) {
+    notFound()
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl p-6">
+      <div className="mb-6 space-y-1">
+        <h1 className="text-2xl font-bold tracking-tight">
+          {conversation.title || "Shared conversation"}
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          {conversation.mode === "live" ? "Live view" : "Snapshot"} shared on{" "}
+          {new Date(conversation.sharedAt).toLocaleDateString()} · read-only
+        </p>
+      </div>
+      <div className="space-y-4 rounded-md border bg-muted/50 p-4">
+        {conversation.messages.length === 0 && (
+          <p className="text-sm text-muted-foreground">This conversation has no messages yet.</p>
+        )}
+        {conversation.messages.map((message, index) => (
+          <div
+            key={index}
+            className={cn(
+              "flex w-full gap-2",
+              message.role === "user" ? "justify-end" : "justify-start"
+            )}
+          >
+            <div
+              className={cn(
+                "flex max-w-[80%] gap-2 rounded-lg p-3",
+                message.role === "user" ? "bg-primary text-primary-foreground" : "bg-muted"
+              )}
+            >
+              <div className="mt-1 shrink-0">
+                {message.role === "assistant" ? <Bot className="h-4 w-4" /> : <User className="h-4 w-4" />}
+              </div>
+              <div className="space-y-2 text-sm">
+                {message.images && (
+                  <div className="flex flex-wrap gap-2">
+                    {message.images.map((image, i) => (
+                      <Image
+                        key={i}
+                        src={`data:${image.mimeType};base64,${image.data}`}
+                        alt={`Attachment ${i + 1}`}
+                        width={160}
+                        height={160}
+                        unoptimized
+                        className="max-h-40 w-auto rounded object-contain"
+                      />
+                    ))}
+                  </div>
+                )}
+                {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
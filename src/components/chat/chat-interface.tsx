@@ -1,58 +1,489 @@
 "use client"
 
 import * as React from "react"
-import { Send, Paperclip, Bot, User } from "lucide-react"
+import Image from "next/image"
+import {
+  Send,
+  Paperclip,
+  Bot,
+  User,
+  X,
+  GitBranch,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  RefreshCw,
+  Share2,
+} from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { cn } from "@/lib/utils"
+import { readEventStream } from "@/lib/api/sse"
 
 interface Message {
   id: string
   role: "user" | "assistant"
   content: string
+  images?: string[] // data URLs while sending, attachment URLs once saved
   timestamp: Date
+  threadId?: string | null
+  branches?: BranchOption[] // only set on messages loaded from the server
 }
 
-export function ChatInterface() {
-  const [messages, setMessages] = React.useState<Message[]>([
-    {
-      id: "1",
-      role: "assistant",
-      content: "Hello! I am Project Aware. How can I assist you today?",
-      timestamp: new Date(),
-    },
-  ])
+interface BranchOption {
+  threadId: string | null
+  title: string | null
+}
+
+interface ImageAttachment {
+  mimeType: string
+  data: string // base64, without the data URL prefix
+}
+
+interface StoredAttachment {
+  id: string
+  mimeType: string
+}
+
+interface StoredMessage {
+  id: string
+  role: string
+  content: string
+  metadata?: { attachments?: StoredAttachment[] } | null
+  threadId: string | null
+  branches: BranchOption[]
+  createdAt: string
+}
+
+type ChatStreamEvent =
+  | { type: "conversation"; conversationId: string; threadId?: string }
+  | { type: "delta"; content: string }
+  | { type: "done"; messageId: string }
+  | { type: "error"; message: string }
+
+interface ModelOption {
+  modelId: string
+  displayName: string
+}
+
+interface ShareLink {
+  id: string
+  mode: "snapshot" | "live"
+  expiresAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+interface RegenerateOptions {
+  model?: string
+  temperature?: number
+}
+
+interface ChatInterfaceProps {
+  conversationId?: string
+  threadId?: string
+  model?: string
+}
+
+// Mirrors the limits enforced by /api/chat
+const ACCEPTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"]
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+const MAX_IMAGES = 4
+
+const toDataUrl = (image: ImageAttachment) => `data:${image.mimeType};base64,${image.data}`
+
+const chatUrl = (conversationId: string, threadId?: string | null) =>
+  `/dashboard/chat?id=${conversationId}${threadId ? `&thread=${threadId}` : ""}`
+
+function readImage(file: File): Promise<ImageAttachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const result = String(reader.result)
+      resolve({ mimeType: file.type, data: result.slice(result.indexOf(",") + 1) })
+    }
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+// Offered when regenerating a reply
+const TEMPERATURE_PRESETS = [
+  { label: "More precise", temperature: 0.2 },
+  { label: "More creative", temperature: 1 },
+]
+
+const greeting: Message = {
+  id: "greeting",
+  role: "assistant",
+  content: "Hello! I am Project Aware. How can I assist you today?",
+  timestamp: new Date(),
+}
+
+function BranchSwitcher({
+  branches,
+  active,
+  disabled,
+  onSwitch,
+}: {
+  branches: BranchOption[]
+  active: string | null
+  disabled: boolean
+  onSwitch: (threadId: string | null) => void
+}) {
+  const current = branches.findIndex((b) => b.threadId === active)
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || current <= 0}
+        onClick={() => onSwitch(branches[current - 1].threadId)}
+      >
+        <ChevronLeft className="h-3 w-3" />
+        <span className="sr-only">Previous version</span>
+      </Button>
+      <span>
+        {current + 1} / {branches.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || current < 0 || current >= branches.length - 1}
+        onClick={() => onSwitch(branches[current + 1].threadId)}
+      >
+        <ChevronRight className="h-3 w-3" />
+        <span className="sr-only">Next version</span>
+      </Button>
+    </div>
+  )
+}
+
+export function ChatInterface({
+  conversationId: initialConversationId,
+  threadId: initialThreadId,
+  model,
+}: ChatInterfaceProps) {
+  const [conversationId, setConversationId] = React.useState(initialConversationId)
+  const [threadId, setThreadId] = React.useState(initialThreadId)
+  const [messages, setMessages] = React.useState<Message[]>([greeting])
   const [input, setInput] = React.useState("")
   const [isLoading, setIsLoading] = React.useState(false)
+  const [streamingId, setStreamingId] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [attachments, setAttachments] = React.useState<ImageAttachment[]>([])
+  const [rootBranches, setRootBranches] = React.useState<BranchOption[]>([])
+  const [editing, setEditing] = React.useState<{ id: string; content: string } | null>(null)
+  const [models, setModels] = React.useState<ModelOption[]>([])
+  const [shareLinks, setShareLinks] = React.useState<ShareLink[]>([])
+  const [shareUrl, setShareUrl] = React.useState<string | null>(null)
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+
+  // Load the messages on one branch of a conversation
+  const loadConversation = React.useCallback(async (id: string, branch?: string | null) => {
+    try {
+      const query = branch ? `?threadId=${encodeURIComponent(branch)}` : ""
+      const res = await fetch(`/api/conversations/${id}${query}`)
+      if (!res.ok) {
+        setError("This conversation could not be loaded.")
+        return
+      }
+
+      const { conversation } = await res.json()
+      const history: Message[] = conversation.messages
+        .filter(
+          (m: StoredMessage) =>
+            (m.role === "user" || m.role === "assistant") && (m.content || m.metadata?.attachments?.length)
+        )
+        .map((m: StoredMessage) => ({
+          id: m.id,
+          role: m.role,
+          content: m.content,
+          images: m.metadata?.attachments?.map((a) => `/api/conversations/${id}/attachments/${a.id}`),
+          timestamp: new Date(m.createdAt),
+          threadId: m.threadId,
+          branches: m.branches,
+        }))
+
+      setMessages(history.length > 0 ? history : [greeting])
+      setRootBranches(conversation.rootBranches || [])
+    } catch (e) {
+      console.error(e)
+      setError("This conversation could not be loaded.")
+    }
+  }, [])
+
+  // Resume an existing conversation
+  React.useEffect(() => {
+    if (!initialConversationId) return
+    loadConversation(initialConversationId, initialThreadId)
+  }, [initialConversationId, initialThreadId, loadConversation])
+
+  // Models the tenant has enabled, offered when regenerating a reply
+  React.useEffect(() => {
+    fetch("/api/ai/config")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((configs: { isEnabled: boolean; model: ModelOption }[]) =>
+        setModels(configs.filter((c) => c.isEnabled).map((c) => c.model))
+      )
+      .catch(() => setModels([]))
+  }, [])
+
+  const switchBranch = async (branch: string | null) => {
+    if (!conversationId || isLoading) return
+    setThreadId(branch ?? undefined)
+    setError(null)
+    window.history.replaceState(null, "", chatUrl(conversationId, branch))
+    await loadConversation(conversationId, branch)
+  }
+
+  // Start a new branch after a message, leaving the current path untouched
+  const handleFork = async (messageId: string) => {
+    if (!conversationId || isLoading) return
+
+    try {
+      const res = await fetch(`/api/conversations/${conversationId}/threads`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageId }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error?.message || "The conversation could not be branched.")
+      }
+      await switchBranch(data.thread.id)
+    } catch (e) {
+      console.error(e)
+      setError(e instanceof Error ? e.message : "The conversation could not be branched.")
+    }
+  }
+
+  const loadShareLinks = async () => {
+    if (!conversationId) return
+    const res = await fetch(`/api/conversations/${conversationId}/shares`)
+    if (res.ok) {
+      const { shares } = await res.json()
+      setShareLinks(
+        shares.filter(
+          (link: ShareLink) => !link.revokedAt && (!link.expiresAt || new Date(link.expiresAt) > new Date())
+        )
+      )
+    }
+  }
+
+  // Share the branch being viewed; the link is copied since it cannot be shown again
+  const handleShare = async (mode: ShareLink["mode"]) => {
+    if (!conversationId) return
+
+    try {
+      const res = await fetch(`/api/conversations/${conversationId}/shares`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode, threadId }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data?.error?.message || "The share link could not be created.")
+      }
+      setShareUrl(data.url)
+      await navigator.clipboard?.writeText(data.url).catch(() => undefined)
+    } catch (e) {
+      console.error(e)
+      setError(e instanceof Error ? e.message : "The share link could not be created.")
+    }
+  }
+
+  const handleRevokeShare = async (shareId: string) => {
+    if (!conversationId) return
+
+    const res = await fetch(`/api/conversations/${conversationId}/shares/${shareId}`, { method: "DELETE" })
+    if (!res.ok) {
+      setError("The share link could not be revoked.")
+      return
+    }
+    setShareLinks((prev) => prev.filter((link) => link.id !== shareId))
+    setShareUrl(null)
+  }
+
+  const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ""
+
+    const accepted = files.filter(
+      (file) => ACCEPTED_IMAGE_TYPES.includes(file.type) && file.size <= MAX_IMAGE_BYTES
+    )
+    if (accepted.length < files.length) {
+      setError("Only PNG, JPEG, GIF or WebP images up to 5 MB can be attached.")
+    }
+
+    try {
+      const images = await Promise.all(accepted.map(readImage))
+      setAttachments((prev) => [...prev, ...images].slice(0, MAX_IMAGES))
+    } catch (err) {
+      console.error(err)
+      setError("The image could not be read.")
+    }
+  }
+
+  // Stream a reply from one of the chat endpoints into the message list
+  const streamReply = async (url: string, body: unknown, replyId: string) => {
+    setError(null)
+    setIsLoading(true)
+    let activeConversationId = conversationId
+    let activeThreadId = threadId
+
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null)
+        throw new Error(data?.error?.message || "Something went wrong. Please try again shortly.")
+      }
+
+      for await (const event of readEventStream<ChatStreamEvent>(res.body)) {
+        if (event.type === "conversation") {
+          activeConversationId = event.conversationId
+          activeThreadId = event.threadId ?? activeThreadId
+          if (event.conversationId !== conversationId || activeThreadId !== threadId) {
+            setConversationId(event.conversationId)
+            setThreadId(activeThreadId)
+            // Update the URL without remounting the page mid-stream
+            window.history.replaceState(null, "", chatUrl(event.conversationId, activeThreadId))
+          }
+        } else if (event.type === "delta") {
+          setStreamingId(replyId)
+          setMessages((prev) => {
+            const existing = prev.find((m) => m.id === replyId)
+            if (!existing) {
+              return [
+                ...prev,
+                {
+                  id: replyId,
+                  role: "assistant",
+                  content: event.content,
+                  timestamp: new Date(),
+                  threadId: activeThreadId ?? null,
+                },
+              ]
+            }
+            return prev.map((m) =>
+              m.id === replyId ? { ...m, content: m.content + event.content } : m
+            )
+          })
+        } else if (event.type === "done") {
+          setMessages((prev) =>
+            prev.map((m) => (m.id === replyId ? { ...m, id: event.messageId } : m))
+          )
+          // Pick up the saved ids and versions so the new turns can be branched from
+          if (activeConversationId) {
+            await loadConversation(activeConversationId, activeThreadId)
+          }
+        } else if (event.type === "error") {
+          throw new Error(event.message)
+        }
+      }
+    } catch (e) {
+      console.error(e)
+      setError(e instanceof Error ? e.message : "Something went wrong. Please try again shortly.")
+      // A branch started for this reply is removed when it fails, so go back to where we were
+      if (conversationId && activeThreadId !== threadId) {
+        setThreadId(threadId)
+        window.history.replaceState(null, "", chatUrl(conversationId, threadId))
+        await loadConversation(conversationId, threadId)
+      }
+    } finally {
+      setStreamingId(null)
+      setIsLoading(false)
+    }
+  }
 
   const handleSend = async () => {
-    if (!input.trim()) return
+    const content = input.trim()
+    if ((!content && attachments.length === 0) || isLoading) return
 
+    const images = attachments
     const newMessage: Message = {
       id: Date.now().toString(),
       role: "user",
-      content: input,
+      content,
+      images: images.length ? images.map(toDataUrl) : undefined,
       timestamp: new Date(),
+      threadId: threadId ?? null,
     }
 
     setMessages((prev) => [...prev, newMessage])
     setInput("")
-    setIsLoading(true)
+    setAttachments([])
 
-    // Simulate AI response
-    setTimeout(() => {
-      const response: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: "I am a demo AI response. I'm not connected to the real backend yet.",
-        timestamp: new Date(),
-      }
-      setMessages((prev) => [...prev, response])
-      setIsLoading(false)
-    }, 1000)
+    await streamReply(
+      "/api/chat",
+      {
+        message: content,
+        conversationId,
+        threadId,
+        model,
+        images: images.length ? images : undefined,
+      },
+      `${newMessage.id}-reply`
+    )
   }
 
+  // Answer the turn behind a reply again; the old reply stays as another version
+  const handleRegenerate = async (index: number, options: RegenerateOptions = {}) => {
+    const message = messages[index]
+    if (!conversationId || isLoading) return
+
+    setMessages((prev) => prev.slice(0, index))
+    await streamReply(
+      `/api/conversations/${conversationId}/messages/${message.id}/regenerate`,
+      options,
+      `${message.id}-regenerated`
+    )
+  }
+
+  // Resend an edited user turn; the original turn and its replies stay as another version
+  const handleEdit = async (index: number) => {
+    const message = messages[index]
+    const content = editing?.content.trim()
+    if (!conversationId || !content || isLoading) return
+
+    setEditing(null)
+    setMessages((prev) => [
+      ...prev.slice(0, index),
+      { ...message, id: `${message.id}-edited`, content, timestamp: new Date(), branches: undefined },
+    ])
+    await streamReply(
+      `/api/conversations/${conversationId}/messages/${message.id}/edit`,
+      { content, model },
+      `${message.id}-edited-reply`
+    )
+  }
+
+  // Versions of a message are the branches forking right before it
+  const versionsAt = (index: number) =>
+    (index === 0 ? rootBranches : messages[index - 1].branches) || []
+  const lastMessage = messages[messages.length - 1]
+  const lastAssistantIndex = lastMessage?.role === "assistant" && lastMessage.branches ? messages.length - 1 : -1
+  // A branch just forked from the last message has no messages of its own yet
+  const pendingVersions =
+    threadId && lastMessage?.branches && threadId !== lastMessage.threadId ? lastMessage.branches : []
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault()
@@ -62,38 +493,201 @@ export function ChatInterface() {
 
   return (
     <div className="flex h-full flex-col space-y-4">
-      <div className="flex-1 overflow-y-auto rounded-md border p-4 bg-muted/50">
-        <div className="space-y-4">
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              className={cn(
-                "flex w-full gap-2",
-                message.role === "user" ? "justify-end" : "justify-start"
+      {conversationId && (
+        <div className="flex items-center justify-end gap-2">
+          {shareUrl && (
+            <p className="truncate text-xs text-muted-foreground">
+              Link copied: <span className="select-all">{shareUrl}</span>
+            </p>
+          )}
+          <DropdownMenu onOpenChange={(open) => open && loadShareLinks()}>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Share2 className="mr-2 h-4 w-4" />
+                Share
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleShare("snapshot")}>
+                Share a snapshot
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleShare("live")}>
+                Share a live view
+              </DropdownMenuItem>
+              {shareLinks.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Active links</DropdownMenuLabel>
+                  {shareLinks.map((link) => (
+                    <DropdownMenuItem key={link.id} onClick={() => handleRevokeShare(link.id)}>
+                      Revoke {link.mode} from {new Date(link.createdAt).toLocaleDateString()}
+                    </DropdownMenuItem>
+                  ))}
+                </>
               )}
-            >
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+      <div className="flex-1 overflow-y-auto rounded-md border p-4 bg-muted/50">
+        <div className="space-y-4" aria-live="polite">
+          {messages.map((message, index) => {
+            const versions = versionsAt(index)
+            const isEditing = editing?.id === message.id
+
+            return (
               <div
+                key={message.id}
                 className={cn(
-                  "flex max-w-[80%] gap-2 rounded-lg p-3",
-                  message.role === "user"
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-muted"
+                  "group flex w-full flex-col gap-1",
+                  message.role === "user" ? "items-end" : "items-start"
                 )}
               >
-                <div className="mt-1 shrink-0">
-                  {message.role === "assistant" ? (
-                    <Bot className="h-4 w-4" />
-                  ) : (
-                    <User className="h-4 w-4" />
+                <div
+                  className={cn(
+                    "flex max-w-[80%] gap-2 rounded-lg p-3",
+                    message.role === "user"
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted"
                   )}
+                >
+                  <div className="mt-1 shrink-0">
+                    {message.role === "assistant" ? (
+                      <Bot className="h-4 w-4" />
+                    ) : (
+                      <User className="h-4 w-4" />
+                    )}
+                  </div>
+                  <div className="space-y-2 text-sm">
+                    {message.images && (
+                      <div className="flex flex-wrap gap-2">
+                        {message.images.map((src, i) => (
+                          <Image
+                            key={i}
+                            src={src}
+                            alt={`Attachment ${i + 1}`}
+                            width={160}
+                            height={160}
+                            unoptimized
+                            className="max-h-40 w-auto rounded object-contain"
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={editing.content}
+                          onChange={(e) => setEditing({ id: message.id, content: e.target.value })}
+                          className="min-w-[16rem] bg-background text-foreground"
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="secondary" size="sm" onClick={() => setEditing(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            disabled={!editing.content.trim()}
+                            onClick={() => handleEdit(index)}
+                          >
+                            Send
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      message.content && <p className="whitespace-pre-wrap">{message.content}</p>
+                    )}
+                  </div>
                 </div>
-                <div className="text-sm">
-                  <p>{message.content}</p>
-                </div>
+                {(message.branches || versions.length > 1) && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    {versions.length > 1 && (
+                      <BranchSwitcher
+                        branches={versions}
+                        active={message.threadId ?? null}
+                        disabled={isLoading}
+                        onSwitch={switchBranch}
+                      />
+                    )}
+                    {message.branches && (
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                        {message.role === "user" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            disabled={isLoading}
+                            onClick={() => setEditing({ id: message.id, content: message.content })}
+                          >
+                            <Pencil className="h-3 w-3" />
+                            <span className="sr-only">Edit message</span>
+                          </Button>
+                        )}
+                        {index === lastAssistantIndex && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-6 w-6" disabled={isLoading}>
+                                <RefreshCw className="h-3 w-3" />
+                                <span className="sr-only">Regenerate reply</span>
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="start">
+                              <DropdownMenuItem onClick={() => handleRegenerate(index)}>
+                                Regenerate
+                              </DropdownMenuItem>
+                              {TEMPERATURE_PRESETS.map((preset) => (
+                                <DropdownMenuItem
+                                  key={preset.label}
+                                  onClick={() => handleRegenerate(index, { temperature: preset.temperature })}
+                                >
+                                  {preset.label}
+                                </DropdownMenuItem>
+                              ))}
+                              {models.length > 0 && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuLabel>Try another model</DropdownMenuLabel>
+                                  {models.map((option) => (
+                                    <DropdownMenuItem
+                                      key={option.modelId}
+                                      onClick={() => handleRegenerate(index, { model: option.modelId })}
+                                    >
+                                      {option.displayName}
+                                    </DropdownMenuItem>
+                                  ))}
+                                </>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          disabled={isLoading}
+                          onClick={() => handleFork(message.id)}
+                        >
+                          <GitBranch className="h-3 w-3" />
+                          <span className="sr-only">Branch from here</span>
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
-            </div>
-          ))}
-          {isLoading && (
+            )
+          })}
+          {pendingVersions.length > 1 && (
+            <BranchSwitcher
+              branches={pendingVersions}
+              active={threadId ?? null}
+              disabled={isLoading}
+              onSwitch={switchBranch}
+            />
+          )}
+          {isLoading && !streamingId && (
             <div className="flex w-full justify-start">
                <div className="flex max-w-[80%] gap-2 rounded-lg bg-muted p-3">
                  <Bot className="h-4 w-4 animate-pulse" />
@@ -101,12 +695,54 @@ export function ChatInterface() {
                </div>
             </div>
           )}
+          {error && (
+            <p role="alert" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
         </div>
       </div>
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((image, i) => (
+            <div key={i} className="relative">
+              <Image
+                src={toDataUrl(image)}
+                alt={`Attachment ${i + 1}`}
+                width={64}
+                height={64}
+                unoptimized
+                className="h-16 w-16 rounded border object-cover"
+              />
+              <button
+                type="button"
+                onClick={() => setAttachments((prev) => prev.filter((_, j) => j !== i))}
+                className="absolute -right-2 -top-2 rounded-full bg-background p-0.5 shadow"
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove attachment</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
       <div className="flex gap-2">
-        <Button variant="outline" size="icon">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(",")}
+          multiple
+          hidden
+          onChange={handleAttach}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading || attachments.length >= MAX_IMAGES}
+        >
           <Paperclip className="h-4 w-4" />
-          <span className="sr-only">Attach file</span>
+          <span className="sr-only">Attach image</span>
         </Button>
         <Textarea
           placeholder="Type your message..."
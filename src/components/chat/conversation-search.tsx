@@ -0,0 +1,250 @@
+"use client"
+
+import * as React from "react"
+import Form from "next/form"
+import Link from "next/link"
+import { Bot, MessageSquare, Search, User } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+
+const PAGE_SIZE = 20
+
+const STATUS_OPTIONS = [
+  { value: "", label: "Active & archived" },
+  { value: "active", label: "Active" },
+  { value: "archived", label: "Archived" },
+  { value: "deleted", label: "Deleted" },
+]
+
+export interface SearchFilters {
+  q?: string
+  model?: string
+  status?: string
+  from?: string // yyyy-mm-dd
+  to?: string // yyyy-mm-dd
+  offset?: string
+}
+
+interface SnippetPart {
+  text: string
+  highlighted: boolean
+}
+
+interface SearchHit {
+  conversationId: string
+  conversationTitle: string | null
+  modelId: string | null
+  status: string
+  messageId: string | null
+  threadId: string | null
+  role: "user" | "assistant" | null
+  snippet: SnippetPart[]
+  createdAt: string
+}
+
+interface SearchResponse {
+  hits: SearchHit[]
+  total: number
+  limit: number
+  offset: number
+}
+
+interface ModelOption {
+  modelId: string
+  displayName: string
+}
+
+const selectClassName =
+  "flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+/**
+ * Search field for the dashboard header; submits to the search page
+ */
+export function ConversationSearchBox() {
+  return (
+    <Form action="/dashboard/search" className="relative w-full md:w-64">
+      <Search className="absolute left-2.5 top-3 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="search"
+        name="q"
+        placeholder="Search conversations..."
+        aria-label="Search conversations"
+        className="pl-8"
+      />
+    </Form>
+  )
+}
+
+function searchUrl(filters: SearchFilters, offset: number) {
+  const params = new URLSearchParams()
+  for (const key of ["q", "model", "status", "from", "to"] as const) {
+    if (filters[key]) params.set(key, filters[key])
+  }
+  if (offset > 0) params.set("offset", String(offset))
+  return `/dashboard/search?${params}`
+}
+
+function hitUrl(hit: SearchHit) {
+  const params = new URLSearchParams({ id: hit.conversationId })
+  if (hit.threadId) params.set("thread", hit.threadId)
+  return `/dashboard/chat?${params}`
+}
+
+function Snippet({ parts }: { parts: SnippetPart[] }) {
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.highlighted ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  )
+}
+
+/**
+ * Filters, results and pagination for the search page. Filters live in the URL,
+ * so the page remounts this component whenever they change.
+ */
+export function ConversationSearch({ filters }: { filters: SearchFilters }) {
+  const [results, setResults] = React.useState<SearchResponse | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [models, setModels] = React.useState<ModelOption[]>([])
+  const offset = Math.max(parseInt(filters.offset || "0") || 0, 0)
+
+  React.useEffect(() => {
+    fetch("/api/ai/config")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((configs: { model: ModelOption }[]) => setModels(configs.map((c) => c.model)))
+      .catch(() => setModels([]))
+  }, [])
+
+  React.useEffect(() => {
+    if (!filters.q?.trim()) return
+
+    const params = new URLSearchParams({ q: filters.q, limit: String(PAGE_SIZE), offset: String(offset) })
+    if (filters.model) params.set("model", filters.model)
+    if (filters.status) params.set("status", filters.status)
+    if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString())
+    if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString())
+
+    fetch(`/api/conversations/search?${params}`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error?.message || "Search failed")
+        setResults(data)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Search failed"))
+  }, [filters, offset])
+
+  return (
+    <div className="space-y-4">
+      <Form action="/dashboard/search" className="flex flex-wrap items-end gap-2">
+        <Input
+          type="search"
+          name="q"
+          defaultValue={filters.q}
+          placeholder="Search conversations..."
+          aria-label="Search query"
+          className="min-w-[16rem] flex-1"
+        />
+        <select name="model" defaultValue={filters.model || ""} aria-label="Model" className={selectClassName}>
+          <option value="">All models</option>
+          {models.map((model) => (
+            <option key={model.modelId} value={model.modelId}>
+              {model.displayName}
+            </option>
+          ))}
+        </select>
+        <select name="status" defaultValue={filters.status || ""} aria-label="Status" className={selectClassName}>
+          {STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Input type="date" name="from" defaultValue={filters.from} aria-label="From" className="w-auto" />
+        <Input type="date" name="to" defaultValue={filters.to} aria-label="To" className="w-auto" />
+        <Button type="submit">
+          <Search className="mr-2 h-4 w-4" />
+          Search
+        </Button>
+      </Form>
+
+      {!filters.q?.trim() && (
+        <p className="text-sm text-muted-foreground">Search your conversation titles and messages.</p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {filters.q?.trim() && !results && !error && (
+        <p className="text-sm text-muted-foreground">Searching...</p>
+      )}
+
+      {results && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {results.total === 0
+              ? "No matches."
+              : `${results.total} ${results.total === 1 ? "match" : "matches"}`}
+          </p>
+          <ul className="space-y-2">
+            {results.hits.map((hit) => (
+              <li key={`${hit.conversationId}-${hit.messageId ?? "title"}`}>
+                <Link
+                  href={hitUrl(hit)}
+                  className="block rounded-md border p-3 transition-colors hover:bg-muted/50"
+                >
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {hit.role === "assistant" ? (
+                      <Bot className="h-4 w-4 shrink-0" />
+                    ) : hit.role === "user" ? (
+                      <User className="h-4 w-4 shrink-0" />
+                    ) : (
+                      <MessageSquare className="h-4 w-4 shrink-0" />
+                    )}
+                    <span className="truncate">
+                      {hit.messageId ? hit.conversationTitle || "Untitled conversation" : <Snippet parts={hit.snippet} />}
+                    </span>
+                    <span className="ml-auto shrink-0 text-xs font-normal text-muted-foreground">
+                      {[hit.modelId, hit.status !== "active" ? hit.status : null, new Date(hit.createdAt).toLocaleDateString()]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  </div>
+                  {hit.messageId && (
+                    <p className="mt-1 line-clamp-3 text-sm text-muted-foreground">
+                      <Snippet parts={hit.snippet} />
+                    </p>
+                  )}
+                </Link>
+              </li>
+            ))}
+          </ul>
+          {results.total > PAGE_SIZE && (
+            <div className="flex items-center justify-between">
+              <Button asChild variant="outline" size="sm" className={cn(offset === 0 && "pointer-events-none opacity-50")}>
+                <Link href={searchUrl(filters, Math.max(offset - PAGE_SIZE, 0))}>Previous</Link>
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, results.total)} of {results.total}
+              </span>
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
+                className={cn(offset + PAGE_SIZE >= results.total && "pointer-events-none opacity-50")}
+              >
+                <Link href={searchUrl(filters, offset + PAGE_SIZE)}>Next</Link>
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+-- Merge rows written for the same tenant, model and day by concurrent requests
+-- before enforcing one row per day
+WITH "totals" AS (
+	SELECT (array_agg("id" ORDER BY "created_at", "id"::text))[1] AS "keep_id",
+		sum("request_count") AS "request_count",
+		sum("input_tokens") AS "input_tokens",
+		sum("output_tokens") AS "output_tokens",
+		sum(coalesce("total_cost", 0)) AS "total_cost"
+	FROM "model_usage"
+	WHERE "tenant_id" IS NOT NULL
+	GROUP BY "tenant_id", "model_id", "date"
+	HAVING count(*) > 1
+)
+UPDATE "model_usage" SET
+	"request_count" = "totals"."request_count",
+	"input_tokens" = "totals"."input_tokens",
+	"output_tokens" = "totals"."output_tokens",
+	"total_cost" = "totals"."total_cost"
+FROM "totals"
+WHERE "model_usage"."id" = "totals"."keep_id";
+--> statement-breakpoint
+DELETE FROM "model_usage" "u" USING "model_usage" "k"
+WHERE "u"."tenant_id" IS NOT NULL
+	AND "k"."tenant_id" = "u"."tenant_id" AND "k"."model_id" = "u"."model_id" AND "k"."date" = "u"."date"
+	AND ("k"."created_at", "k"."id"::text) < ("u"."created_at", "u"."id"::text);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "model_usage_tenant_model_date_idx" ON "model_usage" USING btree ("tenant_id","model_id","date");
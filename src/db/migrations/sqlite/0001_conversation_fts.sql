@@ -0,0 +1,37 @@
+-- Full-text search over conversation titles and messages. The FTS5 tables are
+-- external-content tables keyed by rowid, so the text is not stored twice, and
+-- triggers keep them in sync with `conversations` and `messages`.
+CREATE VIRTUAL TABLE IF NOT EXISTS `conversations_fts` USING fts5(title, content = 'conversations', content_rowid = 'rowid', tokenize = 'porter unicode61');
+--> statement-breakpoint
+CREATE VIRTUAL TABLE IF NOT EXISTS `messages_fts` USING fts5(content, content = 'messages', content_rowid = 'rowid', tokenize = 'porter unicode61');
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `conversations_fts_insert` AFTER INSERT ON `conversations` BEGIN
+	INSERT INTO conversations_fts (rowid, title) VALUES (new.rowid, new.title);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `conversations_fts_update` AFTER UPDATE OF title ON `conversations` BEGIN
+	INSERT INTO conversations_fts (conversations_fts, rowid, title) VALUES ('delete', old.rowid, old.title);
+	INSERT INTO conversations_fts (rowid, title) VALUES (new.rowid, new.title);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `conversations_fts_delete` AFTER DELETE ON `conversations` BEGIN
+	INSERT INTO conversations_fts (conversations_fts, rowid, title) VALUES ('delete', old.rowid, old.title);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `messages_fts_insert` AFTER INSERT ON `messages` BEGIN
+	INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `messages_fts_update` AFTER UPDATE OF content ON `messages` BEGIN
+	INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+	INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER IF NOT EXISTS `messages_fts_delete` AFTER DELETE ON `messages` BEGIN
+	INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+END;
+--> statement-breakpoint
+-- Index rows that existed before this migration
+INSERT INTO `conversations_fts` (conversations_fts) VALUES ('rebuild');
+--> statement-breakpoint
+INSERT INTO `messages_fts` (messages_fts) VALUES ('rebuild');
@@ -0,0 +1,11 @@
+CREATE TABLE `message_attachments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversation_id` text NOT NULL,
+	`mime_type` text NOT NULL,
+	`data` text NOT NULL,
+	`size` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `message_attachments_conversation_idx` ON `message_attachments` (`conversation_id`);
@@ -0,0 +1,12 @@
+-- Merge rows written for the same tenant, model and day by concurrent requests
+-- before enforcing one row per day
+UPDATE `model_usage` SET
+	`request_count` = (SELECT sum(`d`.`request_count`) FROM `model_usage` `d` WHERE `d`.`tenant_id` = `model_usage`.`tenant_id` AND `d`.`model_id` = `model_usage`.`model_id` AND `d`.`date` = `model_usage`.`date`),
+	`input_tokens` = (SELECT sum(`d`.`input_tokens`) FROM `model_usage` `d` WHERE `d`.`tenant_id` = `model_usage`.`tenant_id` AND `d`.`model_id` = `model_usage`.`model_id` AND `d`.`date` = `model_usage`.`date`),
+	`output_tokens` = (SELECT sum(`d`.`output_tokens`) FROM `model_usage` `d` WHERE `d`.`tenant_id` = `model_usage`.`tenant_id` AND `d`.`model_id` = `model_usage`.`model_id` AND `d`.`date` = `model_usage`.`date`),
+	`total_cost` = (SELECT sum(coalesce(`d`.`total_cost`, 0)) FROM `model_usage` `d` WHERE `d`.`tenant_id` = `model_usage`.`tenant_id` AND `d`.`model_id` = `model_usage`.`model_id` AND `d`.`date` = `model_usage`.`date`)
+WHERE `tenant_id` IS NOT NULL AND `id` IN (SELECT min(`id`) FROM `model_usage` WHERE `tenant_id` IS NOT NULL GROUP BY `tenant_id`, `model_id`, `date` HAVING count(*) > 1);
+--> statement-breakpoint
+DELETE FROM `model_usage` WHERE `tenant_id` IS NOT NULL AND `id` NOT IN (SELECT min(`id`) FROM `model_usage` WHERE `tenant_id` IS NOT NULL GROUP BY `tenant_id`, `model_id`, `date`);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `model_usage_tenant_model_date_idx` ON `model_usage` (`tenant_id`,`model_id`,`date`);
@@ -0,0 +1,14 @@
+import type { LibSQLDatabase } from "drizzle-orm/libsql";
+
+import { db as database, schema as dialectSchema } from "./index";
+import * as schemaSqlite from "./schema/sqlite";
+
+/**
+ * `db` and `schema` typed against a single dialect.
+ * Query builder methods are not callable on the union of the SQLite and Postgres
+ * types, and both schemas declare the same tables and columns, so queries typed
+ * for SQLite run unchanged on Postgres. Dialect-specific SQL still has to check
+ * `"all" in db` at runtime.
+ */
+export const db = database as unknown as LibSQLDatabase<typeof schemaSqlite>;
+export const schema = dialectSchema as unknown as typeof schemaSqlite;
@@ -12,3 +12,4 @@ export * from "./sqlite/plugins.schema";
 export * from "./sqlite/conversations.schema";
 export * from "./sqlite/ai-models.schema";
 export * from "./sqlite/api-keys.schema";
+export * from "./sqlite/provider-health.schema";
@@ -1,4 +1,4 @@
-import { pgTable, timestamp, uuid, varchar, text, jsonb, integer, doublePrecision, boolean, index } from "drizzle-orm/pg-core";
+import { pgTable, timestamp, uuid, varchar, text, jsonb, integer, doublePrecision, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { tenants } from "./tenants.schema";
 
@@ -79,6 +79,8 @@ export const modelUsage = pgTable("model_usage", {
 }, (table) => ({
   tenantDateIdx: index("model_usage_tenant_date_idx").on(table.tenantId, table.date),
   modelDateIdx: index("model_usage_model_date_idx").on(table.modelId, table.date),
+  // One row per tenant, model and day, so request caps can be checked and counted in one update
+  tenantModelDateIdx: uniqueIndex("model_usage_tenant_model_date_idx").on(table.tenantId, table.modelId, table.date),
 }));
 
 export type ModelUsage = typeof modelUsage.$inferSelect;
@@ -1,5 +1,5 @@
-import { pgTable, timestamp, uuid, varchar, text, jsonb, integer, index } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, timestamp, uuid, varchar, text, jsonb, integer, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { users } from "./users.schema";
 import { tenants } from "./tenants.schema";
 
@@ -30,6 +30,10 @@ export const conversations = pgTable("conversations", {
   tenantIdx: index("conversations_tenant_idx").on(table.tenantId),
   statusIdx: index("conversations_status_idx").on(table.status),
   updatedIdx: index("conversations_updated_idx").on(table.updatedAt),
+  titleSearchIdx: index("conversations_title_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', coalesce(${table.title}, ''))`
+  ),
 }));
 
 export type Conversation = typeof conversations.$inferSelect;
@@ -41,6 +45,8 @@ export const messages = pgTable("messages", {
   conversationId: uuid("conversation_id")
     .notNull()
     .references(() => conversations.id, { onDelete: "cascade" }),
+  // Branch the message belongs to; null for the conversation's original path
+  threadId: uuid("thread_id").references((): AnyPgColumn => threads.id, { onDelete: "cascade" }),
   role: varchar("role", { length: 50 }).notNull(),
   content: text("content").notNull(),
   metadata: jsonb("metadata").$type<Record<string, unknown>>(),
@@ -49,12 +55,17 @@ export const messages = pgTable("messages", {
 }, (table) => ({
   conversationIdx: index("messages_conversation_idx").on(table.conversationId),
   createdIdx: index("messages_created_idx").on(table.createdAt),
+  threadIdx: index("messages_thread_idx").on(table.threadId),
+  contentSearchIdx: index("messages_content_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', ${table.content})`
+  ),
 }));
 
 export type Message = typeof messages.$inferSelect;
 export type NewMessage = typeof messages.$inferInsert;
 
-// Conversation threads
+// Conversation threads: a branch forked after `parentMessageId`
 export const threads = pgTable("threads", {
   id: uuid("id").primaryKey().defaultRandom(),
   conversationId: uuid("conversation_id")
@@ -70,6 +81,53 @@ export const threads = pgTable("threads", {
 export type Thread = typeof threads.$inferSelect;
 export type NewThread = typeof threads.$inferInsert;
 
+// Share link modes: a frozen copy of the messages, or the branch as it is now
+export const shareModes = ["snapshot", "live"] as const;
+export type ShareMode = (typeof shareModes)[number];
+
+// Public read-only links to a conversation branch
+export const conversationShares = pgTable("conversation_shares", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  conversationId: uuid("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  userId: text("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // Branch being shared; null for the original path
+  threadId: uuid("thread_id").references(() => threads.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  mode: varchar("mode", { length: 20 }).notNull().default("snapshot"),
+  snapshot: jsonb("snapshot").$type<Record<string, unknown>>(),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  conversationIdx: index("conversation_shares_conversation_idx").on(table.conversationId),
+  tokenIdx: index("conversation_shares_token_idx").on(table.tokenHash),
+}));
+
+export type ConversationShare = typeof conversationShares.$inferSelect;
+export type NewConversationShare = typeof conversationShares.$inferInsert;
+
+// Images attached to user messages, referenced by id from `messages.metadata.attachments`
+export const messageAttachments = pgTable("message_attachments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  conversationId: uuid("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  mimeType: varchar("mime_type", { length: 50 }).notNull(),
+  // Base64-encoded, without the data URL prefix
+  data: text("data").notNull(),
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  conversationIdx: index("message_attachments_conversation_idx").on(table.conversationId),
+}));
+
+export type MessageAttachment = typeof messageAttachments.$inferSelect;
+export type NewMessageAttachment = typeof messageAttachments.$inferInsert;
+
 // Relations
 export const conversationsRelations = relations(conversations, ({ one, many }) => ({
   user: one(users, {
@@ -82,6 +140,8 @@ export const conversationsRelations = relations(conversations, ({ one, many }) =
   }),
   messages: many(messages),
   threads: many(threads),
+  shares: many(conversationShares),
+  attachments: many(messageAttachments),
 }));
 
 export const messagesRelations = relations(messages, ({ one }) => ({
@@ -101,3 +161,21 @@ export const threadsRelations = relations(threads, ({ one }) => ({
     references: [messages.id],
   }),
 }));
+
+export const conversationSharesRelations = relations(conversationShares, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [conversationShares.conversationId],
+    references: [conversations.id],
+  }),
+  user: one(users, {
+    fields: [conversationShares.userId],
+    references: [users.id],
+  }),
+}));
+
+export const messageAttachmentsRelations = relations(messageAttachments, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [messageAttachments.conversationId],
+    references: [conversations.id],
+  }),
+}));
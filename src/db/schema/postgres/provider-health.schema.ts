@@ -0,0 +1,58 @@
+import { pgTable, timestamp, uuid, varchar, text, integer, doublePrecision, boolean, index } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { tenants } from "./tenants.schema";
+
+// Provider health statuses; the router skips "down" targets
+export const providerHealthStatuses = ["up", "degraded", "down"] as const;
+export type ProviderHealthStatus = (typeof providerHealthStatuses)[number];
+
+// PostgreSQL Provider Health schema: current state of each probed target, either a
+// platform provider or a tenant's custom endpoint (see lib/ai/health.ts)
+export const providerHealth = pgTable("provider_health", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  targetKey: text("target_key").notNull().unique(),
+  provider: varchar("provider", { length: 50 }).notNull(),
+  tenantId: uuid("tenant_id").references(() => tenants.id, { onDelete: "cascade" }),
+  endpoint: text("endpoint"),
+  status: varchar("status", { length: 20 }).notNull().default("up"),
+  // Latency of successful probes and share of failed ones over the health window
+  latencyP50Ms: integer("latency_p50_ms"),
+  latencyP95Ms: integer("latency_p95_ms"),
+  latencyP99Ms: integer("latency_p99_ms"),
+  errorRate: doublePrecision("error_rate").notNull().default(0),
+  checkCount: integer("check_count").notNull().default(0),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  lastError: text("last_error"),
+  lastErrorAt: timestamp("last_error_at"),
+  lastCheckedAt: timestamp("last_checked_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantIdx: index("provider_health_tenant_idx").on(table.tenantId),
+}));
+
+export type ProviderHealth = typeof providerHealth.$inferSelect;
+export type NewProviderHealth = typeof providerHealth.$inferInsert;
+
+// Individual probe results, pruned once they fall out of the health window
+export const providerHealthChecks = pgTable("provider_health_checks", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  targetKey: text("target_key").notNull(),
+  ok: boolean("ok").notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+  error: text("error"),
+  checkedAt: timestamp("checked_at").notNull().defaultNow(),
+}, (table) => ({
+  targetCheckedIdx: index("provider_health_checks_target_checked_idx").on(table.targetKey, table.checkedAt),
+}));
+
+export type ProviderHealthCheck = typeof providerHealthChecks.$inferSelect;
+export type NewProviderHealthCheck = typeof providerHealthChecks.$inferInsert;
+
+// Relations
+export const providerHealthRelations = relations(providerHealth, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [providerHealth.tenantId],
+    references: [tenants.id],
+  }),
+}));
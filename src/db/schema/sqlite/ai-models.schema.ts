@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, index, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
 import { tenants } from "./tenants.schema";
 
@@ -89,6 +89,8 @@ export const modelUsage = sqliteTable("model_usage", {
 }, (table) => ({
   tenantDateIdx: index("model_usage_tenant_date_idx").on(table.tenantId, table.date),
   modelDateIdx: index("model_usage_model_date_idx").on(table.modelId, table.date),
+  // One row per tenant, model and day, so request caps can be checked and counted in one update
+  tenantModelDateIdx: uniqueIndex("model_usage_tenant_model_date_idx").on(table.tenantId, table.modelId, table.date),
 }));
 
 export type ModelUsage = typeof modelUsage.$inferSelect;
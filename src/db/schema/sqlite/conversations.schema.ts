@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, index, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
 import { users } from "./users.schema";
 import { tenants } from "./tenants.schema";
@@ -45,6 +45,8 @@ export const messages = sqliteTable("messages", {
   conversationId: text("conversation_id")
     .notNull()
     .references(() => conversations.id, { onDelete: "cascade" }),
+  // Branch the message belongs to; null for the conversation's original path
+  threadId: text("thread_id").references((): AnySQLiteColumn => threads.id, { onDelete: "cascade" }),
   role: text("role", { enum: messageRoles }).notNull(),
   content: text("content").notNull(),
   metadata: text("metadata", { mode: "json" }).$type<Record<string, unknown>>(),
@@ -55,12 +57,13 @@ export const messages = sqliteTable("messages", {
 }, (table) => ({
   conversationIdx: index("messages_conversation_idx").on(table.conversationId),
   createdIdx: index("messages_created_idx").on(table.createdAt),
+  threadIdx: index("messages_thread_idx").on(table.threadId),
 }));
 
 export type Message = typeof messages.$inferSelect;
 export type NewMessage = typeof messages.$inferInsert;
 
-// Conversation threads
+// Conversation threads: a branch forked after `parentMessageId`
 export const threads = sqliteTable("threads", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   conversationId: text("conversation_id")
@@ -78,6 +81,57 @@ export const threads = sqliteTable("threads", {
 export type Thread = typeof threads.$inferSelect;
 export type NewThread = typeof threads.$inferInsert;
 
+// Share link modes: a frozen copy of the messages, or the branch as it is now
+export const shareModes = ["snapshot", "live"] as const;
+export type ShareMode = (typeof shareModes)[number];
+
+// Public read-only links to a conversation branch
+export const conversationShares = sqliteTable("conversation_shares", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  conversationId: text("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  userId: text("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // Branch being shared; null for the original path
+  threadId: text("thread_id").references(() => threads.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  mode: text("mode", { enum: shareModes }).notNull().default("snapshot"),
+  snapshot: text("snapshot", { mode: "json" }).$type<Record<string, unknown>>(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+}, (table) => ({
+  conversationIdx: index("conversation_shares_conversation_idx").on(table.conversationId),
+  tokenIdx: index("conversation_shares_token_idx").on(table.tokenHash),
+}));
+
+export type ConversationShare = typeof conversationShares.$inferSelect;
+export type NewConversationShare = typeof conversationShares.$inferInsert;
+
+// Images attached to user messages, referenced by id from `messages.metadata.attachments`
+export const messageAttachments = sqliteTable("message_attachments", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  conversationId: text("conversation_id")
+    .notNull()
+    .references(() => conversations.id, { onDelete: "cascade" }),
+  mimeType: text("mime_type").notNull(),
+  // Base64-encoded, without the data URL prefix
+  data: text("data").notNull(),
+  size: integer("size").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+}, (table) => ({
+  conversationIdx: index("message_attachments_conversation_idx").on(table.conversationId),
+}));
+
+export type MessageAttachment = typeof messageAttachments.$inferSelect;
+export type NewMessageAttachment = typeof messageAttachments.$inferInsert;
+
 // Relations
 export const conversationsRelations = relations(conversations, ({ one, many }) => ({
   user: one(users, {
@@ -90,6 +144,8 @@ export const conversationsRelations = relations(conversations, ({ one, many }) =
   }),
   messages: many(messages),
   threads: many(threads),
+  shares: many(conversationShares),
+  attachments: many(messageAttachments),
 }));
 
 export const messagesRelations = relations(messages, ({ one }) => ({
@@ -109,3 +165,21 @@ export const threadsRelations = relations(threads, ({ one }) => ({
     references: [messages.id],
   }),
 }));
+
+export const conversationSharesRelations = relations(conversationShares, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [conversationShares.conversationId],
+    references: [conversations.id],
+  }),
+  user: one(users, {
+    fields: [conversationShares.userId],
+    references: [users.id],
+  }),
+}));
+
+export const messageAttachmentsRelations = relations(messageAttachments, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [messageAttachments.conversationId],
+    references: [conversations.id],
+  }),
+}));
@@ -12,3 +12,4 @@ export * from "./plugins.schema";
 export * from "./conversations.schema";
 export * from "./ai-models.schema";
 export * from "./api-keys.schema";
+export * from "./provider-health.schema";
@@ -0,0 +1,65 @@
+import { sqliteTable, text, integer, real, index } from "drizzle-orm/sqlite-core";
+import { relations } from "drizzle-orm";
+import { tenants } from "./tenants.schema";
+import { aiProviders } from "./ai-models.schema";
+
+// Provider health statuses; the router skips "down" targets
+export const providerHealthStatuses = ["up", "degraded", "down"] as const;
+export type ProviderHealthStatus = (typeof providerHealthStatuses)[number];
+
+// SQLite Provider Health schema: current state of each probed target, either a
+// platform provider or a tenant's custom endpoint (see lib/ai/health.ts)
+export const providerHealth = sqliteTable("provider_health", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  targetKey: text("target_key").notNull().unique(),
+  provider: text("provider", { enum: aiProviders }).notNull(),
+  tenantId: text("tenant_id").references(() => tenants.id, { onDelete: "cascade" }),
+  endpoint: text("endpoint"),
+  status: text("status", { enum: providerHealthStatuses }).notNull().default("up"),
+  // Latency of successful probes and share of failed ones over the health window
+  latencyP50Ms: integer("latency_p50_ms"),
+  latencyP95Ms: integer("latency_p95_ms"),
+  latencyP99Ms: integer("latency_p99_ms"),
+  errorRate: real("error_rate").notNull().default(0),
+  checkCount: integer("check_count").notNull().default(0),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  lastError: text("last_error"),
+  lastErrorAt: integer("last_error_at", { mode: "timestamp" }),
+  lastCheckedAt: integer("last_checked_at", { mode: "timestamp" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+}, (table) => ({
+  tenantIdx: index("provider_health_tenant_idx").on(table.tenantId),
+}));
+
+export type ProviderHealth = typeof providerHealth.$inferSelect;
+export type NewProviderHealth = typeof providerHealth.$inferInsert;
+
+// Individual probe results, pruned once they fall out of the health window
+export const providerHealthChecks = sqliteTable("provider_health_checks", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  targetKey: text("target_key").notNull(),
+  ok: integer("ok", { mode: "boolean" }).notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+  error: text("error"),
+  checkedAt: integer("checked_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+}, (table) => ({
+  targetCheckedIdx: index("provider_health_checks_target_checked_idx").on(table.targetKey, table.checkedAt),
+}));
+
+export type ProviderHealthCheck = typeof providerHealthChecks.$inferSelect;
+export type NewProviderHealthCheck = typeof providerHealthChecks.$inferInsert;
+
+// Relations
+export const providerHealthRelations = relations(providerHealth, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [providerHealth.tenantId],
+    references: [tenants.id],
+  }),
+}));
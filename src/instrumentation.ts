@@ -0,0 +1,10 @@
+/**
+ * Runs once when the Next.js server starts
+ */
+export async function register() {
+  // Background jobs need Node APIs and the database, so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startHealthMonitor } = await import("@/lib/ai/health");
+    await startHealthMonitor();
+  }
+}
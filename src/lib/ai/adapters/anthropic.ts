@@ -1,6 +1,104 @@
-import { BaseAIAdapter, AdapterConfig } from "./base";
-import { AIModel, ChatRequest, ChatResponse, StreamChunk } from "../types";
+import { BaseAIAdapter, AdapterConfig, parseToolArguments } from "./base";
+import { getTextContent } from "../content";
+import {
+  AIModel,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  StreamChunk,
+  TokenUsage,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+} from "../types";
 import Anthropic from "@anthropic-ai/sdk";
+import type {
+  Base64ImageSource,
+  ContentBlockParam,
+  MessageParam,
+  Tool,
+  ToolChoice as AnthropicToolChoice,
+} from "@anthropic-ai/sdk/resources/messages";
+
+function toAnthropicUserBlocks(content: ChatMessage["content"]): ContentBlockParam[] {
+  if (typeof content === "string") return [{ type: "text", text: content }];
+  return content.map((part): ContentBlockParam =>
+    part.type === "text"
+      ? { type: "text", text: part.text }
+      : {
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: part.mimeType as Base64ImageSource["media_type"],
+            data: part.data,
+          },
+        }
+  );
+}
+
+function toAnthropicMessages(messages: ChatMessage[]): MessageParam[] {
+  const result: MessageParam[] = [];
+
+  for (const m of messages) {
+    if (m.role === "system") continue;
+
+    let role: MessageParam["role"];
+    let blocks: ContentBlockParam[];
+
+    if (m.role === "function") {
+      // Tool results are sent back as user turns
+      role = "user";
+      blocks = [{ type: "tool_result", tool_use_id: m.toolCallId || "", content: getTextContent(m.content) }];
+    } else if (m.role === "assistant") {
+      role = "assistant";
+      const text = getTextContent(m.content);
+      blocks = [
+        ...(text ? [{ type: "text" as const, text }] : []),
+        ...(m.tool_calls || []).map((call) => ({
+          type: "tool_use" as const,
+          id: call.id,
+          name: call.name,
+          input: parseToolArguments(call.arguments),
+        })),
+      ];
+    } else {
+      role = "user";
+      blocks = toAnthropicUserBlocks(m.content);
+    }
+
+    // Anthropic requires alternating roles, so merge consecutive turns (e.g. several tool results)
+    const previous = result[result.length - 1];
+    if (previous && previous.role === role && Array.isArray(previous.content)) {
+      previous.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  }
+
+  return result;
+}
+
+function toAnthropicTools(tools?: ToolDefinition[]): Tool[] | undefined {
+  if (!tools?.length) return undefined;
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: { type: "object", ...tool.parameters },
+  }));
+}
+
+function toAnthropicToolChoice(choice?: ToolChoice): AnthropicToolChoice | undefined {
+  if (!choice) return undefined;
+  if (choice === "required") return { type: "any" };
+  if (choice === "auto" || choice === "none") return { type: choice };
+  return { type: "tool", name: choice.name };
+}
+
+function toFinishReason(reason?: string | null): ChatResponse["finishReason"] {
+  if (reason === "tool_use") return "tool_calls";
+  if (reason === "max_tokens") return "length";
+  return "stop";
+}
 
 export class AnthropicAdapter extends BaseAIAdapter {
   private client: Anthropic;
@@ -16,28 +114,45 @@ export class AnthropicAdapter extends BaseAIAdapter {
     // Anthropic doesn't have a public list models API that returns metadata in the same way,
     // so we return a static list of known supported models for now.
     return [
-      { id: "claude-3-5-sonnet-20241022", name: "Claude 3.5 Sonnet", provider: "anthropic", contextWindow: 200000, supportsStreaming: true },
-      { id: "claude-3-opus-20240229", name: "Claude 3 Opus", provider: "anthropic", contextWindow: 200000, supportsStreaming: true },
-      { id: "claude-3-sonnet-20240229", name: "Claude 3 Sonnet", provider: "anthropic", contextWindow: 200000, supportsStreaming: true },
-      { id: "claude-3-haiku-20240307", name: "Claude 3 Haiku", provider: "anthropic", contextWindow: 200000, supportsStreaming: true },
+      { id: "claude-3-5-sonnet-20241022", name: "Claude 3.5 Sonnet", provider: "anthropic", contextWindow: 200000, maxOutputTokens: 8192, supportsStreaming: true },
+      { id: "claude-3-opus-20240229", name: "Claude 3 Opus", provider: "anthropic", contextWindow: 200000, maxOutputTokens: 4096, supportsStreaming: true },
+      { id: "claude-3-sonnet-20240229", name: "Claude 3 Sonnet", provider: "anthropic", contextWindow: 200000, maxOutputTokens: 4096, supportsStreaming: true },
+      { id: "claude-3-haiku-20240307", name: "Claude 3 Haiku", provider: "anthropic", contextWindow: 200000, maxOutputTokens: 4096, supportsStreaming: true },
     ];
   }
 
+  /**
+   * The model list above is static, so check the credentials against the API directly
+   */
+  async probe(): Promise<void> {
+    await this.client.models.list({ limit: 1 });
+  }
+
   async chat(request: ChatRequest): Promise<ChatResponse> {
-    const messages = request.messages.filter(m => m.role !== "system");
-    const systemMessage = request.messages.find(m => m.role === "system")?.content;
+    const system = request.messages.find(m => m.role === "system");
+    const systemMessage = system ? getTextContent(system.content) : undefined;
+    const tools = toAnthropicTools(request.tools);
 
     const response = await this.client.messages.create({
       model: request.model,
-      messages: messages.map(m => ({ role: m.role as "user" | "assistant", content: m.content })),
+      messages: toAnthropicMessages(request.messages),
       system: systemMessage,
       max_tokens: request.maxTokens || 4096,
       temperature: request.temperature,
+      tools,
+      tool_choice: tools ? toAnthropicToolChoice(request.toolChoice) : undefined,
       stream: false
-    });
+    }, { signal: request.signal });
 
-    const contentBlock = response.content[0];
-    const text = contentBlock.type === 'text' ? contentBlock.text : "";
+    let text = "";
+    const toolCalls: ToolCall[] = [];
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        text += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input) });
+      }
+    }
 
     return {
       id: response.id,
@@ -49,25 +164,54 @@ export class AnthropicAdapter extends BaseAIAdapter {
         totalTokens: response.usage.input_tokens + response.usage.output_tokens
       },
       model: response.model,
-      created: Date.now()
+      created: Date.now(),
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+      finishReason: toFinishReason(response.stop_reason)
     };
   }
 
   async *stream(request: ChatRequest): AsyncGenerator<StreamChunk> {
-    const messages = request.messages.filter(m => m.role !== "system");
-    const systemMessage = request.messages.find(m => m.role === "system")?.content;
+    const system = request.messages.find(m => m.role === "system");
+    const systemMessage = system ? getTextContent(system.content) : undefined;
+    const tools = toAnthropicTools(request.tools);
 
     const stream = await this.client.messages.create({
       model: request.model,
-      messages: messages.map(m => ({ role: m.role as "user" | "assistant", content: m.content })),
+      messages: toAnthropicMessages(request.messages),
       system: systemMessage,
       max_tokens: request.maxTokens || 4096,
       temperature: request.temperature,
+      tools,
+      tool_choice: tools ? toAnthropicToolChoice(request.toolChoice) : undefined,
       stream: true
-    });
+    }, { signal: request.signal });
+
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let model: string | undefined;
 
     for await (const chunk of stream) {
-        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+        if (chunk.type === 'message_start') {
+            // Input usage is reported up front, output usage on message_delta
+            promptTokens = chunk.message.usage.input_tokens;
+            model = chunk.message.model;
+        } else if (chunk.type === 'message_delta') {
+            completionTokens = chunk.usage.output_tokens;
+        } else if (chunk.type === 'content_block_start' && chunk.content_block.type === 'tool_use') {
+            yield {
+                id: "anthropic-stream",
+                content: "",
+                done: false,
+                toolCalls: [{ index: chunk.index, id: chunk.content_block.id, name: chunk.content_block.name, arguments: "" }]
+            };
+        } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'input_json_delta') {
+            yield {
+                id: "anthropic-stream",
+                content: "",
+                done: false,
+                toolCalls: [{ index: chunk.index, arguments: chunk.delta.partial_json }]
+            };
+        } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
             yield {
                 id: "anthropic-stream",
                 content: chunk.delta.text,
@@ -75,7 +219,13 @@ export class AnthropicAdapter extends BaseAIAdapter {
             };
         }
     }
-    
-    yield { id: "done", content: "", done: true };
+
+    const usage: TokenUsage = {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+    };
+
+    yield { id: "done", content: "", done: true, usage, model };
   }
 }
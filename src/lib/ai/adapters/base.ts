@@ -1,4 +1,11 @@
-import { AIModel, ChatRequest, ChatResponse, StreamChunk } from "../types";
+import {
+  AIModel,
+  ChatRequest,
+  ChatResponse,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  StreamChunk,
+} from "../types";
 
 export interface AdapterConfig {
   apiKey?: string;
@@ -7,15 +14,35 @@ export interface AdapterConfig {
   additionalParams?: Record<string, any>;
 }
 
+/**
+ * Parse JSON-encoded tool call arguments for providers that expect an object
+ */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
 export abstract class BaseAIAdapter {
   protected config: AdapterConfig;
 
+  /**
+   * Whether `chat` enforces `request.responseFormat` natively; otherwise the
+   * schema is put in the prompt and the reply validated (see structured.ts)
+   */
+  readonly supportsStructuredOutput: boolean = false;
+
   constructor(config: AdapterConfig = {}) {
     this.config = config;
   }
 
   /**
-   * List available models from this provider (if supported dynamically)
+   * List available models from this provider (if supported dynamically).
+   * Throws when the provider can't be reached, so callers can tell an outage
+   * from a provider with no models.
    */
   abstract listModels(): Promise<AIModel[]>;
 
@@ -28,16 +55,31 @@ export abstract class BaseAIAdapter {
    * Generate a stream of completions
    */
   abstract stream(request: ChatRequest): AsyncGenerator<StreamChunk>;
+
+  /**
+   * Embed texts into vectors. Providers without an embeddings API keep this default.
+   */
+  async embed(_request: EmbeddingRequest): Promise<EmbeddingResponse> {
+      throw new Error(`${this.constructor.name} does not support embeddings`);
+  }
   
+  /**
+   * Make one cheap call that needs working credentials, throwing the provider's
+   * error if it fails. Used by validate() and by health checks.
+   */
+  async probe(): Promise<void> {
+      await this.listModels();
+  }
+
   /**
    * Validate parameters or credentials
    */
   async validate(): Promise<boolean> {
       try {
-          await this.listModels();
+          await this.probe();
           return true;
       } catch (e) {
-          console.error("Validation failed:", e);
+          console.error(`${this.constructor.name}: Validation failed`, e);
           return false;
       }
   }
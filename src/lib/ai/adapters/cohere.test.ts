@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { sendJson, sendNDJSON, startStandIn } from "@/test/server";
+import type { StreamChunk } from "../types";
+import { CohereAdapter } from "./cohere";
+
+describe("CohereAdapter", () => {
+  let server: Awaited<ReturnType<typeof startStandIn>>;
+  let adapter: CohereAdapter;
+  // Reply to the next /v1/chat call: a JSON body, or stream events
+  let reply: unknown = {};
+
+  beforeAll(async () => {
+    server = await startStandIn((request, res) => {
+      if (request.path.startsWith("/v1/models")) {
+        return sendJson(res, {
+          models: [
+            { name: "command-r", context_length: 128000, features: ["tools"] },
+            { name: "command-light" },
+          ],
+        });
+      }
+      const body = request.body as { stream: boolean };
+      return body.stream ? sendNDJSON(res, reply as unknown[]) : sendJson(res, reply);
+    });
+    adapter = new CohereAdapter({ apiKey: "co-key", baseUrl: server.url });
+  });
+
+  afterAll(() => server.close());
+
+  async function collect(stream: AsyncGenerator<StreamChunk>) {
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+  }
+
+  it("lists chat models with their context length and tool support", async () => {
+    const models = await adapter.listModels();
+
+    expect(server.requests.at(-1)).toMatchObject({
+      path: "/v1/models?endpoint=chat",
+      headers: { authorization: "Bearer co-key" },
+    });
+    expect(models).toEqual([
+      expect.objectContaining({ id: "command-r", contextWindow: 128000, supportsFunctionCalling: true }),
+      expect.objectContaining({ id: "command-light", contextWindow: 4096, supportsFunctionCalling: false }),
+    ]);
+  });
+
+  it("sends system prompts as the preamble and earlier turns as chat history", async () => {
+    reply = {
+      response_id: "resp-1",
+      text: "Lisbon is lovely in May.",
+      finish_reason: "MAX_TOKENS",
+      meta: { billed_units: { input_tokens: 12, output_tokens: 6 } },
+    };
+
+    const response = await adapter.chat({
+      model: "command-r",
+      messages: [
+        { role: "system", content: "You are a travel agent." },
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Where should I go?" },
+        { role: "assistant", content: "Portugal." },
+        { role: "function", name: "lookup", toolCallId: "call_1", content: "{}" },
+        { role: "user", content: "When?" },
+      ],
+      temperature: 0.3,
+      topP: 0.9,
+    });
+
+    expect(server.requests.at(-1)?.body).toEqual({
+      model: "command-r",
+      message: "When?",
+      chat_history: [
+        { role: "USER", message: "Where should I go?" },
+        { role: "CHATBOT", message: "Portugal." },
+      ],
+      preamble: "You are a travel agent.\n\nBe brief.",
+      temperature: 0.3,
+      p: 0.9,
+      stream: false,
+    });
+    expect(response).toMatchObject({
+      id: "resp-1",
+      content: "Lisbon is lovely in May.",
+      finishReason: "length",
+      usage: { promptTokens: 12, completionTokens: 6, totalTokens: 18 },
+    });
+  });
+
+  it("streams text and reports usage at the end", async () => {
+    reply = [
+      { event_type: "stream-start", generation_id: "gen-1" },
+      { event_type: "text-generation", text: "Hello" },
+      { event_type: "text-generation", text: " there" },
+      {
+        event_type: "stream-end",
+        finish_reason: "COMPLETE",
+        response: { meta: { billed_units: { input_tokens: 3, output_tokens: 2 } } },
+      },
+    ];
+
+    const chunks = await collect(adapter.stream({ model: "command-r", messages: [{ role: "user", content: "Hi" }] }));
+
+    expect(chunks.map((c) => c.content).join("")).toBe("Hello there");
+    expect(chunks[0].id).toBe("gen-1");
+    expect(chunks.at(-1)).toMatchObject({
+      done: true,
+      usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+    });
+  });
+
+  it.each(["ERROR", "ERROR_TOXIC"])("fails a stream that ends with %s as a provider error", async (reason) => {
+    reply = [
+      { event_type: "text-generation", text: "Partial" },
+      { event_type: "stream-end", finish_reason: reason },
+    ];
+
+    await expect(
+      collect(adapter.stream({ model: "command-r", messages: [{ role: "user", content: "Hi" }] }))
+    ).rejects.toMatchObject({ status: 502, message: expect.stringContaining(reason) });
+  });
+
+  it("fails a completion that finished with an error", async () => {
+    reply = { text: "", finish_reason: "ERROR" };
+
+    await expect(
+      adapter.chat({ model: "command-r", messages: [{ role: "user", content: "Hi" }] })
+    ).rejects.toMatchObject({ status: 502 });
+  });
+});
@@ -0,0 +1,206 @@
+import { BaseAIAdapter } from "./base";
+import { getTextContent } from "../content";
+import {
+  AIModel,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  StreamChunk,
+  TokenUsage,
+} from "../types";
+
+interface CohereChatTurn {
+  role: "USER" | "CHATBOT";
+  message: string;
+}
+
+interface CohereMeta {
+  billed_units?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Split messages into Cohere's shape: system prompts become the `preamble`, the
+ * latest user turn is the `message` and everything before it is `chat_history`.
+ * Tool turns have no equivalent in the v1 chat API and are left out.
+ */
+function toCohereChat(messages: ChatMessage[]) {
+  const preamble = messages
+    .filter((m) => m.role === "system")
+    .map((m) => getTextContent(m.content))
+    .join("\n\n");
+
+  const turns = messages
+    .filter((m) => m.role === "user" || m.role === "assistant")
+    .map((m) => ({ role: m.role, content: getTextContent(m.content) }))
+    .filter((m) => m.content);
+  let lastUserIndex = -1;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].role === "user") {
+      lastUserIndex = i;
+      break;
+    }
+  }
+
+  const chatHistory: CohereChatTurn[] = turns
+    .slice(0, Math.max(lastUserIndex, 0))
+    .map((m) => ({ role: m.role === "user" ? "USER" : "CHATBOT", message: m.content }));
+
+  return {
+    message: lastUserIndex >= 0 ? turns[lastUserIndex].content : "",
+    chat_history: chatHistory.length ? chatHistory : undefined,
+    preamble: preamble || undefined,
+  };
+}
+
+function toUsage(meta?: CohereMeta): TokenUsage {
+  const promptTokens = meta?.billed_units?.input_tokens || 0;
+  const completionTokens = meta?.billed_units?.output_tokens || 0;
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+function toFinishReason(reason?: string): ChatResponse["finishReason"] {
+  return reason === "MAX_TOKENS" ? "length" : "stop";
+}
+
+/**
+ * Cohere reports failed generations (`ERROR`, `ERROR_TOXIC`, ...) as a finish reason
+ * rather than an HTTP error; surface them as a provider failure.
+ */
+function checkFinishReason(reason?: string) {
+  if (reason?.startsWith("ERROR")) {
+    throw Object.assign(new Error(`Cohere Error: generation failed (${reason})`), { status: 502 });
+  }
+}
+
+export class CohereAdapter extends BaseAIAdapter {
+  private getBaseUrl(): string {
+    return this.config.baseUrl || "https://api.cohere.com";
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${this.config.apiKey || ""}`,
+    };
+  }
+
+  private buildBody(request: ChatRequest, stream: boolean) {
+    return JSON.stringify({
+      model: request.model,
+      ...toCohereChat(request.messages),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      p: request.topP,
+      frequency_penalty: request.frequencyPenalty,
+      presence_penalty: request.presencePenalty,
+      stream,
+    });
+  }
+
+  async listModels(): Promise<AIModel[]> {
+    const res = await fetch(`${this.getBaseUrl()}/v1/models?endpoint=chat`, {
+      headers: this.getHeaders(),
+    });
+    if (!res.ok) throw Object.assign(new Error(`Cohere Error: ${res.statusText}`), { status: res.status });
+
+    const data = await res.json();
+    return (data.models || []).map((m: { name: string; context_length?: number; features?: string[] }) => ({
+      id: m.name,
+      name: m.name,
+      provider: "cohere",
+      contextWindow: m.context_length || 4096,
+      supportsStreaming: true,
+      supportsFunctionCalling: m.features?.includes("tools") ?? false,
+    }));
+  }
+
+  /**
+   * A single model is enough to check the credentials
+   */
+  async probe(): Promise<void> {
+    const res = await fetch(`${this.getBaseUrl()}/v1/models?page_size=1`, {
+      headers: this.getHeaders(),
+    });
+    if (!res.ok) throw Object.assign(new Error(`Cohere Error: ${res.statusText}`), { status: res.status });
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const res = await fetch(`${this.getBaseUrl()}/v1/chat`, {
+      method: "POST",
+      headers: this.getHeaders(),
+      body: this.buildBody(request, false),
+      signal: request.signal,
+    });
+
+    if (!res.ok) throw Object.assign(new Error(`Cohere Error: ${res.statusText}`), { status: res.status });
+
+    const data = await res.json();
+    checkFinishReason(data.finish_reason);
+
+    return {
+      id: data.response_id || data.generation_id || "cohere-" + Date.now(),
+      content: data.text || "",
+      role: "assistant",
+      usage: toUsage(data.meta),
+      model: request.model,
+      created: Date.now(),
+      finishReason: toFinishReason(data.finish_reason),
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<StreamChunk> {
+    const res = await fetch(`${this.getBaseUrl()}/v1/chat`, {
+      method: "POST",
+      headers: this.getHeaders(),
+      body: this.buildBody(request, true),
+      signal: request.signal,
+    });
+
+    if (!res.ok || !res.body) {
+      throw Object.assign(new Error(`Cohere Error: ${res.statusText}`), { status: res.status });
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let id = "cohere-stream";
+    let usage: TokenUsage | undefined;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events arrive as newline-delimited JSON
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          let event;
+          try {
+            event = JSON.parse(line);
+          } catch {
+            continue;
+          }
+
+          if (event.event_type === "stream-start") {
+            id = event.generation_id || id;
+          } else if (event.event_type === "text-generation" && event.text) {
+            yield { id, content: event.text, done: false };
+          } else if (event.event_type === "stream-end") {
+            checkFinishReason(event.finish_reason);
+            usage = toUsage(event.response?.meta);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    yield { id: "done", content: "", done: true, usage, model: request.model };
+  }
+}
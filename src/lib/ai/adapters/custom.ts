@@ -3,6 +3,9 @@ import { AdapterConfig } from "./base";
 import { AIModel } from "../types";
 
 export class CustomAdapter extends OpenAIAdapter {
+  // Many OpenAI-compatible servers ignore json_schema, so validate replies instead
+  readonly supportsStructuredOutput: boolean = false;
+
   constructor(config: AdapterConfig) {
     if (!config.baseUrl) {
       throw new Error("Custom adapter requires a baseUrl");
@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { ServerResponse } from "node:http";
+import { NotFoundError } from "@/lib/utils/errors";
+import { RecordedRequest, sendJson, sendNDJSON, startStandIn } from "@/test/server";
+import type { StreamChunk } from "../types";
+import { OllamaAdapter } from "./ollama";
+
+describe("OllamaAdapter", () => {
+  let server: Awaited<ReturnType<typeof startStandIn>>;
+  let adapter: OllamaAdapter;
+  // Answers by path; each test sets what it needs
+  let routes: Record<string, (request: RecordedRequest, res: ServerResponse) => void>;
+
+  beforeAll(async () => {
+    server = await startStandIn((request, res) => {
+      const route = routes[request.path];
+      return route ? route(request, res) : sendJson(res, { error: "not found" }, 404);
+    });
+    adapter = new OllamaAdapter({ baseUrl: server.url });
+  });
+
+  beforeEach(() => {
+    routes = {};
+  });
+
+  afterAll(() => server.close());
+
+  async function collect(stream: AsyncGenerator<StreamChunk>) {
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+  }
+
+  it("sends the fitted context window, output limit and temperature as options", async () => {
+    routes["/api/chat"] = (_, res) =>
+      sendJson(res, {
+        model: "llama3.2",
+        message: { role: "assistant", content: "Hi there" },
+        done_reason: "stop",
+        prompt_eval_count: 8,
+        eval_count: 3,
+      });
+
+    const response = await adapter.chat({
+      model: "llama3.2",
+      messages: [{ role: "user", content: "Hi" }],
+      contextWindow: 16384,
+      maxTokens: 512,
+      temperature: 0.2,
+    });
+
+    expect(server.requests.at(-1)?.body).toMatchObject({
+      model: "llama3.2",
+      stream: false,
+      options: { num_ctx: 16384, num_predict: 512, temperature: 0.2 },
+    });
+    expect(server.requests.at(-1)?.body).not.toHaveProperty("temperature");
+    expect(response).toMatchObject({
+      content: "Hi there",
+      usage: { promptTokens: 8, completionTokens: 3, totalTokens: 11 },
+    });
+  });
+
+  it("streams content and tool calls, with usage from the final line", async () => {
+    routes["/api/chat"] = (_, res) =>
+      sendNDJSON(res, [
+        { model: "llama3.2", message: { content: "Let me " }, done: false },
+        { model: "llama3.2", message: { content: "check." }, done: false },
+        {
+          model: "llama3.2",
+          message: { content: "", tool_calls: [{ function: { name: "lookup", arguments: { q: "x" } } }] },
+          done: false,
+        },
+        { model: "llama3.2", message: { content: "" }, done: true, prompt_eval_count: 5, eval_count: 4 },
+      ]);
+
+    const chunks = await collect(
+      adapter.stream({ model: "llama3.2", messages: [{ role: "user", content: "Hi" }], contextWindow: 8192 })
+    );
+
+    expect(server.requests.at(-1)?.body).toMatchObject({ stream: true, options: { num_ctx: 8192 } });
+    expect(chunks.map((c) => c.content).join("")).toBe("Let me check.");
+    expect(chunks.flatMap((c) => c.toolCalls ?? [])).toEqual([
+      expect.objectContaining({ index: 0, name: "lookup", arguments: '{"q":"x"}' }),
+    ]);
+    expect(chunks.at(-1)).toMatchObject({
+      done: true,
+      model: "llama3.2",
+      usage: { promptTokens: 5, completionTokens: 4, totalTokens: 9 },
+    });
+  });
+
+  it("reads lines split across writes and throws on an error line", async () => {
+    routes["/api/chat"] = (_, res) => {
+      res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+      res.write('{"message":{"content":"Hel');
+      res.write('lo"},"done":false}\n{"error":"model ran out of memory"}\n');
+      res.end();
+    };
+
+    const chunks: StreamChunk[] = [];
+    const stream = adapter.stream({ model: "llama3.2", messages: [{ role: "user", content: "Hi" }] });
+
+    await expect(async () => {
+      for await (const chunk of stream) chunks.push(chunk);
+    }).rejects.toThrow("model ran out of memory");
+    expect(chunks.map((c) => c.content)).toEqual(["Hello"]);
+  });
+
+  it("lists installed models with details from /api/show", async () => {
+    routes["/api/tags"] = (_, res) =>
+      sendJson(res, { models: [{ name: "llava:7b", size: 4_000_000_000, details: { family: "llama" } }] });
+    routes["/api/show"] = (_, res) =>
+      sendJson(res, {
+        model_info: { "general.architecture": "llama", "llama.context_length": 32768 },
+        capabilities: ["completion", "vision"],
+        details: { family: "llama", parameter_size: "7B" },
+      });
+
+    const models = await adapter.listModels();
+
+    expect(server.requests.find((r) => r.path === "/api/show")?.body).toEqual({ model: "llava:7b" });
+    expect(models).toEqual([
+      expect.objectContaining({ id: "llava:7b", contextWindow: 32768, supportsImage: true, supportsFunctionCalling: false }),
+    ]);
+  });
+
+  it("pulls a model with progress, then shows and deletes it", async () => {
+    routes["/api/pull"] = (_, res) =>
+      sendNDJSON(res, [
+        { status: "pulling manifest" },
+        { status: "downloading", digest: "sha256:abc", total: 100, completed: 50 },
+        { status: "success" },
+      ]);
+    routes["/api/show"] = (_, res) =>
+      sendJson(res, { parameters: 'num_ctx 8192\nstop "<|eot|>"', details: { family: "qwen2" } });
+    routes["/api/delete"] = (_, res) => res.writeHead(200).end();
+
+    const progress = [];
+    for await (const update of adapter.pullModel("qwen2:1.5b")) progress.push(update);
+    const info = await adapter.showModel("qwen2:1.5b");
+    await adapter.deleteModel("qwen2:1.5b");
+
+    expect(progress.map((p) => p.status)).toEqual(["pulling manifest", "downloading", "success"]);
+    expect(progress[1]).toMatchObject({ total: 100, completed: 50 });
+    expect(info).toMatchObject({
+      contextWindow: 8192,
+      capabilities: ["completion"],
+      parameters: { num_ctx: 8192, stop: "<|eot|>" },
+    });
+    expect(server.requests.at(-1)).toMatchObject({ method: "DELETE", body: { model: "qwen2:1.5b" } });
+  });
+
+  it("reports pull errors and unknown models", async () => {
+    routes["/api/pull"] = (_, res) => sendNDJSON(res, [{ status: "pulling manifest" }, { error: "manifest unknown" }]);
+
+    await expect(async () => {
+      for await (const update of adapter.pullModel("nope")) void update;
+    }).rejects.toThrow("manifest unknown");
+    await expect(adapter.deleteModel("nope")).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -1,46 +1,387 @@
-import { BaseAIAdapter, AdapterConfig } from "./base";
-import { AIModel, ChatRequest, ChatResponse, StreamChunk } from "../types";
+import { BaseAIAdapter, parseToolArguments } from "./base";
+import { getImageParts, getTextContent } from "../content";
+import { toStructuredSchema } from "../structured";
+import { NotFoundError, ValidationError } from "@/lib/utils/errors";
+import {
+  AIModel,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  StreamChunk,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+} from "../types";
+
+// Used when `/api/show` is unavailable or reports no context length
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> };
+}
+
+/**
+ * One line of a streamed `/api/chat` reply; the last one has `done` and the eval counts
+ */
+interface OllamaChatChunk {
+  model?: string;
+  message?: { content?: string; tool_calls?: OllamaToolCall[] };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+interface OllamaTagDetails {
+  format?: string;
+  family?: string;
+  parameter_size?: string;
+  quantization_level?: string;
+}
+
+/**
+ * A model installed on the Ollama server, as listed by `/api/tags`
+ */
+export interface OllamaLocalModel {
+  name: string;
+  size: number;
+  digest: string;
+  modifiedAt: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+}
+
+export type OllamaParameterValue = string | number | (string | number)[];
+
+/**
+ * Model details from `/api/show`
+ */
+export interface OllamaModelInfo {
+  name: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  contextWindow: number;
+  /** e.g. "completion", "embedding", "vision", "tools" */
+  capabilities: string[];
+  /** Modelfile PARAMETER lines; repeated keys such as `stop` become lists */
+  parameters: Record<string, OllamaParameterValue>;
+}
+
+/**
+ * One line of `/api/pull` progress; layer downloads report `total` and `completed` bytes
+ */
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+// Ollama reports failures as `{ "error": "..." }`
+async function toOllamaError(res: Response, model?: string): Promise<Error> {
+  const data = await res.json().catch(() => null);
+  const message = data?.error || res.statusText;
+
+  if (res.status === 404 && model) return new NotFoundError(`Ollama model "${model}"`);
+  if (res.status === 400) return new ValidationError(`Ollama: ${message}`);
+  return new Error(`Ollama Error: ${message}`);
+}
+
+function parseParameterValue(raw: string): string | number {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    return value.slice(1, -1);
+  }
+  const number = Number(value);
+  return value !== "" && !Number.isNaN(number) ? number : value;
+}
+
+/**
+ * Parse the `parameters` text of `/api/show`, one "key value" per line
+ */
+export function parseOllamaParameters(text?: string): Record<string, OllamaParameterValue> {
+  const parameters: Record<string, OllamaParameterValue> = {};
+
+  for (const line of (text || "").split("\n")) {
+    const match = line.trim().match(/^(\S+)\s+(.+)$/);
+    if (!match) continue;
+
+    const [, key, raw] = match;
+    const value = parseParameterValue(raw);
+    const existing = parameters[key];
+    if (existing === undefined) {
+      parameters[key] = value;
+    } else {
+      parameters[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  }
+
+  return parameters;
+}
+
+function toLocalModel(m: { name: string; size: number; digest: string; modified_at: string; details?: OllamaTagDetails }): OllamaLocalModel {
+  return {
+    name: m.name,
+    size: m.size,
+    digest: m.digest,
+    modifiedAt: m.modified_at,
+    family: m.details?.family,
+    parameterSize: m.details?.parameter_size,
+    quantization: m.details?.quantization_level,
+  };
+}
+
+/**
+ * Sampling and sizing go under `options`; Ollama ignores them at the top level.
+ * Without `num_ctx` the server falls back to its own default window and
+ * silently truncates a prompt fitted to the model's full context.
+ */
+function toOllamaOptions(request: ChatRequest) {
+  return {
+    num_ctx: request.contextWindow,
+    num_predict: request.maxTokens,
+    temperature: request.temperature,
+    top_p: request.topP,
+    frequency_penalty: request.frequencyPenalty,
+    presence_penalty: request.presencePenalty,
+  };
+}
+
+/**
+ * Read NDJSON objects from a streamed response body
+ */
+async function* readNDJSON<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T;
+      }
+    }
+    if (buffer.trim()) yield JSON.parse(buffer) as T;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function toOllamaMessages(messages: ChatMessage[]) {
+  return messages.map((m) => {
+    if (m.role === "function") {
+      return { role: "tool", content: getTextContent(m.content), tool_name: m.name };
+    }
+    // Ollama takes images as a list of base64 strings beside the text
+    const images = getImageParts(m.content).map((part) => part.data);
+    return {
+      role: m.role,
+      content: getTextContent(m.content),
+      ...(images.length ? { images } : {}),
+      ...(m.tool_calls?.length
+        ? {
+            tool_calls: m.tool_calls.map((call) => ({
+              function: { name: call.name, arguments: parseToolArguments(call.arguments) },
+            })),
+          }
+        : {}),
+    };
+  });
+}
+
+function toOllamaTools(tools?: ToolDefinition[]) {
+  if (!tools?.length) return undefined;
+  return tools.map((tool) => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+// Ollama does not assign ids to tool calls, so generate them
+function fromOllamaToolCalls(calls?: OllamaToolCall[]): ToolCall[] {
+  return (calls || []).map((call) => ({
+    id: `call_${crypto.randomUUID()}`,
+    name: call.function.name,
+    arguments: JSON.stringify(call.function.arguments || {}),
+  }));
+}
 
 export class OllamaAdapter extends BaseAIAdapter {
+  readonly supportsStructuredOutput: boolean = true;
+
   private getBaseUrl(): string {
     return this.config.baseUrl || "http://localhost:11434";
   }
 
+  /**
+   * Context window and capabilities come from `/api/show`; models it fails for
+   * are listed with the default context window.
+   */
   async listModels(): Promise<AIModel[]> {
-    try {
-      const res = await fetch(`${this.getBaseUrl()}/api/tags`);
-      if (!res.ok) throw new Error("Failed to fetch Ollama tags");
-      
-      const data = await res.json();
-      return data.models.map((m: any) => ({
+    const local = await this.listLocalModels();
+
+    return Promise.all(local.map(async (m): Promise<AIModel> => {
+      // A model whose details can't be read is still listed, with defaults
+      const info = await this.showModel(m.name).catch(() => undefined);
+      return {
         id: m.name,
         name: m.name,
         provider: "ollama",
-        contextWindow: 4096, // Default, can't easily detect yet without 'show' API
-        supportsStreaming: true
-      }));
-    } catch (error) {
-      console.warn("Ollama: Failed to list models (is it running?)");
-      return [];
+        contextWindow: info?.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+        supportsImage: info?.capabilities.includes("vision"),
+        supportsStreaming: true,
+        supportsFunctionCalling: info?.capabilities.includes("tools"),
+      };
+    }));
+  }
+
+  /**
+   * Models installed on the server, without their details
+   */
+  async listLocalModels(): Promise<OllamaLocalModel[]> {
+    const res = await fetch(`${this.getBaseUrl()}/api/tags`);
+    if (!res.ok) throw await toOllamaError(res);
+
+    const data = await res.json();
+    return (data.models || []).map(toLocalModel);
+  }
+
+  /**
+   * Details of an installed model. The context window is the model's trained
+   * context length, falling back to its `num_ctx` parameter.
+   */
+  async showModel(name: string): Promise<OllamaModelInfo> {
+    const res = await fetch(`${this.getBaseUrl()}/api/show`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: name })
+    });
+    if (!res.ok) throw await toOllamaError(res, name);
+
+    const data = await res.json();
+    const modelInfo: Record<string, unknown> = data.model_info || {};
+    const parameters = parseOllamaParameters(data.parameters);
+
+    const architecture = modelInfo["general.architecture"];
+    const contextLength = modelInfo[`${architecture}.context_length`];
+    const contextWindow = typeof contextLength === "number"
+      ? contextLength
+      : typeof parameters.num_ctx === "number" ? parameters.num_ctx : DEFAULT_CONTEXT_WINDOW;
+
+    return {
+      name,
+      family: data.details?.family,
+      parameterSize: data.details?.parameter_size,
+      quantization: data.details?.quantization_level,
+      contextWindow,
+      // Servers older than the `capabilities` field only run completion models
+      capabilities: Array.isArray(data.capabilities) ? data.capabilities : ["completion"],
+      parameters,
+    };
+  }
+
+  /**
+   * Download a model from the registry, yielding progress as it goes.
+   * Completes once the server reports success; errors mid-pull are thrown.
+   */
+  async *pullModel(name: string): AsyncGenerator<OllamaPullProgress> {
+    const res = await fetch(`${this.getBaseUrl()}/api/pull`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: name, stream: true })
+    });
+    if (!res.ok || !res.body) throw await toOllamaError(res);
+
+    for await (const data of readNDJSON<OllamaPullProgress & { error?: string }>(res.body)) {
+      if (data.error) throw new Error(`Ollama Error: ${data.error}`);
+      yield {
+        status: data.status,
+        digest: data.digest,
+        total: data.total,
+        completed: data.completed,
+      };
     }
   }
 
+  async deleteModel(name: string): Promise<void> {
+    const res = await fetch(`${this.getBaseUrl()}/api/delete`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: name })
+    });
+    if (!res.ok) throw await toOllamaError(res, name);
+  }
+
+  async copyModel(source: string, destination: string): Promise<void> {
+    const res = await fetch(`${this.getBaseUrl()}/api/copy`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ source, destination })
+    });
+    if (!res.ok) throw await toOllamaError(res, source);
+  }
+
+  /**
+   * listModels also reads every model's details; reaching the server is enough
+   */
+  async probe(): Promise<void> {
+    await this.listLocalModels();
+  }
+
+  /**
+   * `/api/embeddings` takes one prompt per call, so inputs are embedded one by one
+   */
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const embeddings: number[][] = [];
+
+    for (const prompt of request.input) {
+      const res = await fetch(`${this.getBaseUrl()}/api/embeddings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: request.model, prompt })
+      });
+
+      if (!res.ok) throw new Error(`Ollama Error: ${res.statusText}`);
+
+      const data = await res.json();
+      embeddings.push(data.embedding);
+    }
+
+    return { model: request.model, embeddings };
+  }
+
   async chat(request: ChatRequest): Promise<ChatResponse> {
     const res = await fetch(`${this.getBaseUrl()}/api/chat`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         model: request.model,
-        messages: request.messages,
-        temperature: request.temperature,
+        messages: toOllamaMessages(request.messages),
+        options: toOllamaOptions(request),
+        tools: toOllamaTools(request.tools),
+        // Ollama constrains generation to a JSON Schema passed as `format`
+        format: request.responseFormat ? toStructuredSchema(request.responseFormat).jsonSchema : undefined,
         stream: false
-      })
+      }),
+      signal: request.signal
     });
 
     if (!res.ok) throw new Error(`Ollama Error: ${res.statusText}`);
 
     const data = await res.json();
-    
+    const toolCalls = fromOllamaToolCalls(data.message.tool_calls);
+
     return {
       id: "ollama-" + Date.now(),
       content: data.message.content,
@@ -51,7 +392,9 @@ export class OllamaAdapter extends BaseAIAdapter {
         totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0)
       },
       model: data.model,
-      created: Date.now()
+      created: Date.now(),
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+      finishReason: toolCalls.length ? "tool_calls" : data.done_reason === "length" ? "length" : "stop"
     };
   }
 
@@ -61,48 +404,47 @@ export class OllamaAdapter extends BaseAIAdapter {
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         model: request.model,
-        messages: request.messages,
-        temperature: request.temperature,
+        messages: toOllamaMessages(request.messages),
+        options: toOllamaOptions(request),
+        tools: toOllamaTools(request.tools),
         stream: true
-      })
+      }),
+      signal: request.signal
     });
 
     if (!res.ok || !res.body) throw new Error(`Ollama Error: ${res.statusText}`);
 
-    const reader = res.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const text = decoder.decode(value, { stream: true });
-        buffer += text;
-        
-        // Process line by line
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || ""; // Keep incomplete line
-
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          try {
-            const data = JSON.parse(line);
-            yield {
-              id: "ollama-stream",
-              content: data.message?.content || "",
-              done: data.done
-            };
-          } catch (e) {
-            // ignore parse errors
-          }
-        }
+    let usage: TokenUsage | undefined;
+    let model: string | undefined;
+    let toolCallIndex = 0;
+
+    for await (const data of readNDJSON<OllamaChatChunk>(res.body)) {
+      if (data.error) throw new Error(`Ollama Error: ${data.error}`);
+      model = data.model || model;
+
+      // The final line carries the eval counts instead of content
+      if (data.done) {
+        const promptTokens = data.prompt_eval_count || 0;
+        const completionTokens = data.eval_count || 0;
+        usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
       }
-    } finally {
-      reader.releaseLock();
+
+      // Tool calls arrive whole rather than as argument fragments
+      const toolCalls = fromOllamaToolCalls(data.message?.tool_calls).map((call) => ({
+        index: toolCallIndex++,
+        ...call,
+      }));
+
+      if (!data.message?.content && !toolCalls.length) continue;
+
+      yield {
+        id: "ollama-stream",
+        content: data.message?.content || "",
+        done: false,
+        toolCalls: toolCalls.length ? toolCalls : undefined
+      };
     }
-    
-    yield { id: "done", content: "", done: true };
+
+    yield { id: "done", content: "", done: true, usage, model };
   }
 }
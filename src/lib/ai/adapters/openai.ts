@@ -1,8 +1,91 @@
 import { BaseAIAdapter, AdapterConfig } from "./base";
-import { AIModel, ChatRequest, ChatResponse, StreamChunk } from "../types";
+import { getTextContent } from "../content";
+import { toStructuredSchema } from "../structured";
+import {
+  AIModel,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ResponseFormat,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  StreamChunk,
+  TokenUsage,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+} from "../types";
 import OpenAI from "openai";
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+} from "openai/resources/chat/completions";
+
+function toOpenAIUserContent(content: ChatMessage["content"]): string | ChatCompletionContentPart[] {
+  if (typeof content === "string") return content;
+  return content.map((part): ChatCompletionContentPart =>
+    part.type === "text"
+      ? { type: "text", text: part.text }
+      : { type: "image_url", image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+  );
+}
+
+function toOpenAIMessages(messages: ChatMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((m): ChatCompletionMessageParam => {
+    if (m.role === "function") {
+      return { role: "tool", tool_call_id: m.toolCallId || "", content: getTextContent(m.content) };
+    }
+    if (m.role === "assistant") {
+      return {
+        role: "assistant",
+        content: getTextContent(m.content) || null,
+        ...(m.tool_calls?.length
+          ? {
+              tool_calls: m.tool_calls.map((call) => ({
+                id: call.id,
+                type: "function" as const,
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }
+          : {}),
+      };
+    }
+    if (m.role === "user") {
+      return { role: "user", content: toOpenAIUserContent(m.content) };
+    }
+    return { role: m.role, content: getTextContent(m.content) };
+  });
+}
+
+function toOpenAIResponseFormat(format?: ResponseFormat) {
+  if (!format) return undefined;
+  const { name, jsonSchema } = toStructuredSchema(format);
+  return { type: "json_schema" as const, json_schema: { name, schema: jsonSchema } };
+}
+
+function toOpenAITools(tools?: ToolDefinition[]): ChatCompletionTool[] | undefined {
+  if (!tools?.length) return undefined;
+  return tools.map((tool) => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+function toOpenAIToolChoice(choice?: ToolChoice): ChatCompletionToolChoiceOption | undefined {
+  if (!choice || typeof choice === "string") return choice;
+  return { type: "function", function: { name: choice.name } };
+}
+
+function toFinishReason(reason?: string | null): ChatResponse["finishReason"] {
+  if (reason === "tool_calls" || reason === "function_call") return "tool_calls";
+  if (reason === "length") return "length";
+  return "stop";
+}
 
 export class OpenAIAdapter extends BaseAIAdapter {
+  readonly supportsStructuredOutput: boolean = true;
   private client: OpenAI;
 
   constructor(config: AdapterConfig) {
@@ -15,32 +98,51 @@ export class OpenAIAdapter extends BaseAIAdapter {
   }
 
   async listModels(): Promise<AIModel[]> {
-    try {
-      const response = await this.client.models.list();
-      return response.data.map(m => ({
-        id: m.id,
-        name: m.id,
-        provider: "openai",
-        contextWindow: 128000, // Default assumption for modern models
-        supportsStreaming: true
-      }));
-    } catch (error) {
-      console.error("OpenAI: Failed to list models", error);
-      return [];
-    }
+    const response = await this.client.models.list();
+    return response.data.map(m => ({
+      id: m.id,
+      name: m.id,
+      provider: "openai",
+      contextWindow: 128000, // Default assumption for modern models
+      supportsStreaming: true
+    }));
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const response = await this.client.embeddings.create({
+      model: request.model,
+      input: request.input,
+    });
+
+    return {
+      model: response.model,
+      // Results carry their input index; don't rely on response order
+      embeddings: [...response.data].sort((a, b) => a.index - b.index).map((d) => d.embedding),
+      usage: {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: 0,
+        totalTokens: response.usage.total_tokens
+      }
+    };
   }
 
   async chat(request: ChatRequest): Promise<ChatResponse> {
     const completion = await this.client.chat.completions.create({
       model: request.model,
-      messages: request.messages as any[], // Casting validation needed
+      messages: toOpenAIMessages(request.messages),
       temperature: request.temperature,
       max_tokens: request.maxTokens,
+      tools: toOpenAITools(request.tools),
+      tool_choice: request.tools?.length ? toOpenAIToolChoice(request.toolChoice) : undefined,
+      response_format: this.supportsStructuredOutput ? toOpenAIResponseFormat(request.responseFormat) : undefined,
       stream: false
-    });
+    }, { signal: request.signal });
 
     const choice = completion.choices[0];
-    
+    const toolCalls: ToolCall[] = (choice.message.tool_calls || [])
+      .filter((call) => call.type === "function")
+      .map((call) => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }));
+
     return {
       id: completion.id,
       content: choice.message.content || "",
@@ -51,28 +153,57 @@ export class OpenAIAdapter extends BaseAIAdapter {
         totalTokens: completion.usage?.total_tokens || 0,
       },
       model: completion.model,
-      created: completion.created
+      created: completion.created,
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+      finishReason: toFinishReason(choice.finish_reason)
     };
   }
 
   async *stream(request: ChatRequest): AsyncGenerator<StreamChunk> {
     const stream = await this.client.chat.completions.create({
       model: request.model,
-      messages: request.messages as any[],
+      messages: toOpenAIMessages(request.messages),
       temperature: request.temperature,
       max_tokens: request.maxTokens,
-      stream: true
-    });
+      tools: toOpenAITools(request.tools),
+      tool_choice: request.tools?.length ? toOpenAIToolChoice(request.toolChoice) : undefined,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: request.signal });
+
+    let usage: TokenUsage | undefined;
+    let model: string | undefined;
 
     for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content || "";
+      model = chunk.model || model;
+
+      // With include_usage the last chunk carries usage and has no choices
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      const content = delta?.content || "";
+      const toolCalls = delta?.tool_calls?.map((call) => ({
+        index: call.index,
+        id: call.id,
+        name: call.function?.name,
+        arguments: call.function?.arguments,
+      }));
+      if (!content && !toolCalls?.length) continue;
+
       yield {
         id: chunk.id,
         content,
-        done: false
+        done: false,
+        toolCalls
       };
     }
-    
-    yield { id: "done", content: "", done: true };
+
+    yield { id: "done", content: "", done: true, usage, model };
   }
 }
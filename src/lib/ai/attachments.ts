@@ -0,0 +1,86 @@
+import { db, schema } from "@/db/query";
+import { and, eq, inArray } from "drizzle-orm";
+import { getImageParts, getTextContent, toContent } from "./content";
+import { ChatMessage, ImagePart } from "./types";
+
+/**
+ * A stored image as referenced from `messages.metadata.attachments`
+ */
+export interface AttachmentRef {
+  id: string;
+  mimeType: string;
+}
+
+export function getAttachmentRefs(metadata?: Record<string, unknown> | null): AttachmentRef[] {
+  const refs = metadata?.attachments;
+  return Array.isArray(refs) ? (refs as AttachmentRef[]) : [];
+}
+
+/**
+ * Store images sent with a message; the returned references go in its metadata
+ */
+export async function storeAttachments(conversationId: string, images: ImagePart[]): Promise<AttachmentRef[]> {
+  if (images.length === 0) return [];
+
+  const rows = images.map((image) => ({
+    id: crypto.randomUUID(),
+    conversationId,
+    mimeType: image.mimeType,
+    data: image.data,
+    size: Buffer.byteLength(image.data, "base64"),
+  }));
+  await db.insert(schema.messageAttachments).values(rows);
+
+  return rows.map(({ id, mimeType }) => ({ id, mimeType }));
+}
+
+/**
+ * Image parts standing in for stored attachments until `loadImages` reads their data
+ */
+export function toImageParts(refs: AttachmentRef[]): ImagePart[] {
+  return refs.map((ref) => ({ type: "image", mimeType: ref.mimeType, data: "", attachmentId: ref.id }));
+}
+
+/**
+ * The stored images of a conversation, by attachment id. Ids from other
+ * conversations are not matched.
+ */
+export async function getAttachments(conversationId: string, ids: string[]): Promise<Map<string, ImagePart>> {
+  if (ids.length === 0) return new Map();
+
+  const rows = await db.query.messageAttachments.findMany({
+    where: and(
+      eq(schema.messageAttachments.conversationId, conversationId),
+      inArray(schema.messageAttachments.id, ids)
+    ),
+  });
+
+  return new Map(
+    rows.map((row) => [row.id, { type: "image" as const, mimeType: row.mimeType, data: row.data, attachmentId: row.id }])
+  );
+}
+
+/**
+ * Read the data of referenced images in one query. Images whose attachment
+ * no longer exists are left out.
+ */
+export async function loadImages(conversationId: string, messages: ChatMessage[]): Promise<ChatMessage[]> {
+  const ids = messages.flatMap((m) =>
+    getImageParts(m.content)
+      .filter((part) => part.attachmentId && !part.data)
+      .map((part) => part.attachmentId!)
+  );
+  if (ids.length === 0) return messages;
+
+  const stored = await getAttachments(conversationId, ids);
+
+  return messages.map((message) => {
+    const images = getImageParts(message.content);
+    if (images.length === 0) return message;
+
+    const loaded = images
+      .map((part) => (part.attachmentId && !part.data ? stored.get(part.attachmentId) : part))
+      .filter((part): part is ImagePart => Boolean(part));
+    return { ...message, content: toContent(getTextContent(message.content), loaded) };
+  });
+}
@@ -0,0 +1,35 @@
+import { formatErrorResponse } from "@/lib/utils/errors";
+import { ConversationStreamChunk } from "./conversation";
+
+/**
+ * Map a conversation stream to the events sent by the chat endpoints:
+ * `conversation` (id of the conversation used, and the branch when one was started),
+ * `delta` (token text), `done` (saved message id, model, usage and context stats)
+ * and `error`. Failures after the stream opens are reported as an `error` event.
+ */
+export async function* toChatEvents(
+  conversationId: string,
+  chunks: AsyncIterable<ConversationStreamChunk>,
+  threadId?: string
+) {
+  yield { type: "conversation", conversationId, threadId };
+
+  try {
+    for await (const chunk of chunks) {
+      if (chunk.done) {
+        yield {
+          type: "done",
+          messageId: chunk.id,
+          model: chunk.model,
+          usage: chunk.usage,
+          context: chunk.context,
+        };
+      } else {
+        yield { type: "delta", content: chunk.content };
+      }
+    }
+  } catch (error) {
+    console.error("Chat stream failed:", error);
+    yield { type: "error", ...formatErrorResponse(error).error };
+  }
+}
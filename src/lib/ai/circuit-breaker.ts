@@ -0,0 +1,74 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a probe request is let through */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * Tracks failures for one provider target so a failing provider is skipped instead of
+ * being hit (and timing out) on every request.
+ *
+ * closed → open after `failureThreshold` consecutive failures.
+ * open → half-open once `resetTimeoutMs` has passed; a single probe is allowed.
+ * half-open → closed when the probe succeeds, back to open when it fails.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  getState(): CircuitState {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      return "half-open";
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be sent now. In half-open state only one probe is let through.
+   */
+  canRequest(): boolean {
+    const state = this.getState();
+    if (state === "closed") return true;
+    if (state === "open" || this.probeInFlight) return false;
+
+    this.state = "half-open";
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess() {
+    this.state = "closed";
+    this.failures = 0;
+    this.probeInFlight = false;
+  }
+
+  /**
+   * The request ended without showing whether the provider is healthy (e.g. it was
+   * rejected as invalid): free the probe slot but leave the circuit as it is.
+   */
+  release() {
+    this.probeInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    this.probeInFlight = false;
+
+    if (this.state === "half-open" || this.failures >= this.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
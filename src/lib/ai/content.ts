@@ -0,0 +1,64 @@
+import { ChatMessage, ContentPart, ImagePart, TextPart } from "./types";
+
+export const SUPPORTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"] as const;
+
+/**
+ * The text of a message, with image parts left out
+ */
+export function getTextContent(content: string | ContentPart[]): string {
+  if (typeof content === "string") return content;
+  return content
+    .filter((part): part is TextPart => part.type === "text")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+export function getImageParts(content: string | ContentPart[]): ImagePart[] {
+  if (typeof content === "string") return [];
+  return content.filter((part): part is ImagePart => part.type === "image");
+}
+
+export function hasImageContent(messages: ChatMessage[]): boolean {
+  return messages.some((m) => getImageParts(m.content).length > 0);
+}
+
+/**
+ * Message content for text plus optional images; plain text stays a string
+ */
+export function toContent(text: string, images?: ImagePart[]): string | ContentPart[] {
+  if (!images?.length) return text;
+  return [...(text ? [{ type: "text" as const, text }] : []), ...images];
+}
+
+/**
+ * Keep the images of the latest messages, up to `max` in all; earlier
+ * messages get a placeholder instead
+ */
+export function keepRecentImages(messages: ChatMessage[], max: number): ChatMessage[] {
+  let remaining = max;
+  return messages
+    .slice()
+    .reverse()
+    .map((message) => {
+      const count = getImageParts(message.content).length;
+      if (count === 0) return message;
+      if (count > remaining) {
+        remaining = 0;
+        return withoutImages(message);
+      }
+      remaining -= count;
+      return message;
+    })
+    .reverse();
+}
+
+/**
+ * Replace images with a placeholder, for models that cannot see them
+ */
+export function withoutImages(message: ChatMessage): ChatMessage {
+  const images = getImageParts(message.content);
+  if (images.length === 0) return message;
+
+  const note = images.length === 1 ? "[1 image omitted]" : `[${images.length} images omitted]`;
+  return { ...message, content: [getTextContent(message.content), note].filter(Boolean).join("\n") };
+}
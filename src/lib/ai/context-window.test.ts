@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { buildContextWindow } from "./context-window";
+import { getTextContent } from "./content";
+import type { ChatMessage } from "./types";
+
+// 100 characters is 25 estimated tokens, plus 4 for the message overhead
+function turn(role: "user" | "assistant", label: string, length = 400): ChatMessage {
+  return { role, content: label.padEnd(length, ".") };
+}
+
+function conversation(turns: number): ChatMessage[] {
+  return Array.from({ length: turns }, (_, i) => turn(i % 2 === 0 ? "user" : "assistant", `turn ${i}`));
+}
+
+describe("buildContextWindow", () => {
+  it("sends the whole history when it fits, after the system prompt", () => {
+    const history = conversation(4);
+
+    const window = buildContextWindow(history, { contextWindow: 8192, systemPrompt: "Be brief." });
+
+    expect(window.messages).toEqual([{ role: "system", content: "Be brief." }, ...history]);
+    expect(window).toMatchObject({ contextWindow: 8192, maxOutputTokens: 2048, droppedMessages: 0, truncated: false });
+  });
+
+  it("drops the oldest turns to fit the model's context window", () => {
+    const history = conversation(10);
+
+    // (1000 - 250 reserved for the reply) * 0.9 leaves 675 tokens: the system
+    // prompt and six 104-token turns
+    const window = buildContextWindow(history, { contextWindow: 1000, systemPrompt: "Be brief." });
+
+    expect(window.maxOutputTokens).toBe(250);
+    expect(window.messages[0]).toEqual({ role: "system", content: "Be brief." });
+    expect(window.messages.slice(1)).toEqual(history.slice(4));
+    expect(window.droppedMessages).toBe(4);
+    expect(window.truncated).toBe(false);
+    expect(window.promptTokens).toBeLessThanOrEqual(675);
+  });
+
+  it("keeps the system prompt and summary however little room is left", () => {
+    const summary = "The user is planning a trip to Lisbon.";
+
+    const window = buildContextWindow(conversation(10), {
+      contextWindow: 1000,
+      systemPrompt: "Be brief.",
+      summary,
+      maxContextTokens: 150,
+    });
+
+    expect(window.messages[0]).toEqual({
+      role: "system",
+      content: `Be brief.\n\nSummary of the earlier conversation:\n${summary}`,
+    });
+    expect(window.messages.length).toBeGreaterThan(1);
+    expect(window.promptTokens).toBeLessThanOrEqual(150);
+  });
+
+  it("cuts down a latest turn that is larger than the whole window, keeping its end", () => {
+    const question = `${"".padEnd(10000, ".")}the question at the end`;
+
+    const history: ChatMessage[] = [turn("user", "earlier"), turn("assistant", "reply"), { role: "user", content: question }];
+
+    const window = buildContextWindow(history, { contextWindow: 1000 });
+
+    expect(window.messages).toHaveLength(1);
+    const text = getTextContent(window.messages[0].content);
+    expect(text.startsWith("…")).toBe(true);
+    expect(text.endsWith("the question at the end")).toBe(true);
+    expect(text.length).toBeLessThan(question.length);
+    expect(window).toMatchObject({ droppedMessages: 2, truncated: true });
+    expect(window.promptTokens).toBeLessThanOrEqual(675);
+  });
+
+  it("truncates the oldest turn that partly fits rather than dropping it", () => {
+    const history = [turn("user", "long question", 2000), turn("assistant", "answer"), turn("user", "follow-up")];
+
+    const window = buildContextWindow(history, { contextWindow: 1000 });
+
+    expect(window.messages).toHaveLength(3);
+    expect(window.messages.slice(1)).toEqual(history.slice(1));
+    expect(getTextContent(window.messages[0].content).length).toBeLessThan(2000);
+    expect(window).toMatchObject({ droppedMessages: 0, truncated: true });
+  });
+
+  it("never starts the kept history with a reply or tool result", () => {
+    const history: ChatMessage[] = [
+      turn("user", "question", 2400),
+      { role: "assistant", content: "", tool_calls: [{ id: "call_1", name: "lookup", arguments: "{}" }] },
+      { role: "function", name: "lookup", toolCallId: "call_1", content: "{}".padEnd(2000, " ") },
+      turn("user", "follow-up"),
+    ];
+
+    const window = buildContextWindow(history, { contextWindow: 1000 });
+
+    expect(window.messages.map((m) => m.role)).toEqual(["user"]);
+    expect(window.droppedMessages).toBe(3);
+  });
+});
@@ -0,0 +1,114 @@
+import { ChatMessage } from "./types";
+import { estimateMessageTokens, estimateTokens, truncateToTokens } from "./tokens";
+import { getImageParts, getTextContent, toContent } from "./content";
+
+// Fallbacks when a model does not declare its limits
+const DEFAULT_CONTEXT_WINDOW = 4096;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+// Headroom for estimation error in the chars-per-token heuristic
+const SAFETY_MARGIN = 0.9;
+
+// A partially kept turn shorter than this is more noise than context
+const MIN_TRUNCATED_TOKENS = 64;
+
+export interface ContextWindowOptions {
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  systemPrompt?: string | null;
+  /** Running summary of turns no longer sent verbatim */
+  summary?: string;
+  /** Optional cost cap applied on top of the model's own window */
+  maxContextTokens?: number;
+}
+
+export interface ContextWindow {
+  messages: ChatMessage[];
+  /** Estimated prompt tokens sent to the provider */
+  promptTokens: number;
+  /** Window the history was fitted to; pass as `ChatRequest.contextWindow` */
+  contextWindow: number;
+  /** Output tokens reserved for the reply; pass as `ChatRequest.maxTokens` */
+  maxOutputTokens: number;
+  droppedMessages: number;
+  truncated: boolean;
+}
+
+/**
+ * Fit a chronological history into the model's context budget.
+ * The system prompt (with any running summary) and the latest turn are always kept;
+ * older turns are dropped first, and the oldest turn that only partly fits is
+ * truncated from its start.
+ */
+export function buildContextWindow(
+  history: ChatMessage[],
+  options: ContextWindowOptions = {}
+): ContextWindow {
+  const contextWindow = options.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  const maxOutputTokens = Math.min(
+    options.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+    Math.floor(contextWindow / 4)
+  );
+
+  let budget = Math.floor((contextWindow - maxOutputTokens) * SAFETY_MARGIN);
+  if (options.maxContextTokens) {
+    budget = Math.min(budget, options.maxContextTokens);
+  }
+
+  // A single system message, since some adapters only forward the first one
+  const systemContent = [
+    options.systemPrompt,
+    options.summary && `Summary of the earlier conversation:\n${options.summary}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  const system: ChatMessage[] = systemContent ? [{ role: "system", content: systemContent }] : [];
+  let used = system.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+  const kept: ChatMessage[] = [];
+  let truncated = false;
+
+  // Walk newest to oldest
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    const cost = estimateMessageTokens(message);
+    const remaining = budget - used;
+
+    if (cost <= remaining) {
+      kept.unshift(message);
+      used += cost;
+      continue;
+    }
+
+    // The latest turn is always sent, even if it has to be cut down
+    const isLatest = kept.length === 0;
+    const text = getTextContent(message.content);
+    const room = remaining - (cost - estimateTokens(text));
+    if (isLatest || room >= MIN_TRUNCATED_TOKENS) {
+      const truncatedText = truncateToTokens(text, Math.max(room, MIN_TRUNCATED_TOKENS));
+      const shortened = {
+        ...message,
+        content: toContent(truncatedText, getImageParts(message.content)),
+      };
+      kept.unshift(shortened);
+      used += estimateMessageTokens(shortened);
+      truncated = true;
+    }
+    break;
+  }
+
+  // Providers such as Anthropic require the history to open with a user turn,
+  // and a tool result whose call was trimmed away is rejected outright
+  while (kept.length > 1 && (kept[0].role === "assistant" || kept[0].role === "function")) {
+    used -= estimateMessageTokens(kept.shift()!);
+  }
+
+  return {
+    messages: [...system, ...kept],
+    promptTokens: used,
+    contextWindow,
+    maxOutputTokens,
+    droppedMessages: history.length - kept.length,
+    truncated,
+  };
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { strFromU8, unzipSync } from "fflate";
+import { db, schema } from "@/db/query";
+import { NotFoundError } from "@/lib/utils/errors";
+import { createAccount } from "@/test/fixtures";
+import { storeAttachments } from "./attachments";
+import { conversationManager } from "./conversation";
+import {
+  createConversationArchive,
+  formatConversationExport,
+  getAllConversationExports,
+  getConversationExport,
+} from "./conversation-export";
+
+const image = { type: "image" as const, mimeType: "image/png", data: Buffer.from("png").toString("base64") };
+
+async function createExportable(title = "Trip <plans>") {
+  const { user, tenant } = await createAccount();
+  const conversation = await conversationManager.createConversation(tenant.id, user.id, {
+    title,
+    modelId: "test-model",
+    systemPrompt: "Be brief.",
+  });
+  const refs = await storeAttachments(conversation.id, [image]);
+  let time = Date.UTC(2026, 0, 1);
+  const add = async (role: "user" | "assistant", content: string, values: Partial<typeof schema.messages.$inferInsert> = {}) => {
+    time += 1000;
+    const [message] = await db.insert(schema.messages).values({
+      conversationId: conversation.id,
+      role,
+      content,
+      createdAt: new Date(time),
+      ...values,
+    }).returning();
+    return message;
+  };
+
+  const question = await add("user", "Where should we go?", { metadata: { attachments: refs } });
+  await add("assistant", "Lisbon.", { metadata: { model: "test-model" }, tokenCount: 3 });
+  const branch = await conversationManager.forkConversation(tenant.id, user.id, conversation.id, question.id, "Porto");
+  await add("assistant", "Porto.", { threadId: branch.id });
+
+  return { user, tenant, conversation, branch };
+}
+
+describe("conversation exports", () => {
+  it("includes every branch with its messages and stored images", async () => {
+    const { user, conversation, branch } = await createExportable();
+
+    const exported = await getConversationExport(user.id, conversation.id);
+
+    expect(exported).toMatchObject({ id: conversation.id, title: "Trip <plans>", systemPrompt: "Be brief." });
+    expect(exported.messages.map((m) => [m.content, m.threadId])).toEqual([
+      ["Where should we go?", null],
+      ["Lisbon.", null],
+      ["Porto.", branch.id],
+    ]);
+    expect(exported.messages[0].images).toEqual([{ type: "image", mimeType: "image/png", data: image.data }]);
+    expect(exported.messages[1]).toMatchObject({ model: "test-model", tokenCount: 3 });
+    expect(exported.branches).toEqual([
+      expect.objectContaining({ id: branch.id, title: "Porto", parentMessageId: exported.messages[0].id }),
+    ]);
+  });
+
+  it("only exports conversations of the user, in the given tenant", async () => {
+    const { user, tenant, conversation } = await createExportable();
+    const other = await createAccount();
+
+    await expect(getConversationExport(other.user.id, conversation.id)).rejects.toBeInstanceOf(NotFoundError);
+    await expect(getConversationExport(user.id, conversation.id, other.tenant.id)).rejects.toBeInstanceOf(NotFoundError);
+    await expect(getConversationExport(user.id, conversation.id, tenant.id)).resolves.toMatchObject({ id: conversation.id });
+  });
+
+  it("exports all of a user's conversations except deleted ones", async () => {
+    const { user, tenant, conversation } = await createExportable();
+    const deleted = await conversationManager.createConversation(tenant.id, user.id, { title: "Gone" });
+    await db.update(schema.conversations).set({ status: "deleted" }).where(eq(schema.conversations.id, deleted.id));
+    // The same user in another tenant, and another user in this one
+    const elsewhere = await createAccount();
+    const other = await conversationManager.createConversation(elsewhere.tenant.id, user.id, { title: "Elsewhere" });
+    await conversationManager.createConversation(tenant.id, elsewhere.user.id, { title: "Not mine" });
+
+    expect((await getAllConversationExports(user.id, tenant.id)).map((e) => e.id)).toEqual([conversation.id]);
+    expect((await getAllConversationExports(user.id)).map((e) => e.id)).toEqual([conversation.id, other.id]);
+  });
+
+  it("formats Markdown with a section per branch", async () => {
+    const { user, conversation } = await createExportable();
+    const exported = await getConversationExport(user.id, conversation.id);
+
+    const file = formatConversationExport(exported, "md");
+
+    expect(file.contentType).toBe("text/markdown; charset=utf-8");
+    expect(file.filename).toBe(`trip-plans-${conversation.id.slice(0, 8)}.md`);
+    expect(file.body).toContain("# Trip <plans>");
+    expect(file.body).toContain("## System prompt\n\nBe brief.");
+    expect(file.body).toContain("## Original path");
+    expect(file.body).toContain("## Branch: Porto");
+    expect(file.body).toContain("_This branch continues after the user message of 2026-01-01T00:00:01.000Z._");
+    expect(file.body).toContain("_1 image(s) attached_");
+    expect(file.body).toContain("test-model · 3 tokens");
+  });
+
+  it("formats JSON with the export time", async () => {
+    const { user, conversation } = await createExportable();
+    const exported = await getConversationExport(user.id, conversation.id);
+
+    const file = formatConversationExport(exported, "json");
+
+    expect(file.contentType).toBe("application/json; charset=utf-8");
+    expect(JSON.parse(file.body)).toEqual({ ...exported, exportedAt: expect.any(String) });
+  });
+
+  it("formats HTML with escaped text and inline images", async () => {
+    const { user, conversation } = await createExportable();
+    const exported = await getConversationExport(user.id, conversation.id);
+
+    const file = formatConversationExport(exported, "html");
+
+    expect(file.contentType).toBe("text/html; charset=utf-8");
+    expect(file.body).toContain("<title>Trip &lt;plans&gt;</title>");
+    expect(file.body).not.toContain("<plans>");
+    expect(file.body).toContain(`<img src="data:image/png;base64,${image.data}"`);
+    expect(file.body).toContain('<section class="branch"><h2>Branch: Porto</h2>');
+  });
+
+  it("zips one file per conversation", async () => {
+    const first = await createExportable("First");
+    const second = await createExportable("Second");
+    const exports = [
+      await getConversationExport(first.user.id, first.conversation.id),
+      await getConversationExport(second.user.id, second.conversation.id),
+    ];
+
+    const files = unzipSync(createConversationArchive(exports, "md"));
+
+    expect(Object.keys(files).sort()).toEqual([
+      `first-${first.conversation.id.slice(0, 8)}.md`,
+      `second-${second.conversation.id.slice(0, 8)}.md`,
+    ]);
+    expect(strFromU8(files[`first-${first.conversation.id.slice(0, 8)}.md`])).toContain("# First");
+  });
+});
@@ -0,0 +1,325 @@
+import { db, schema } from "@/db/query";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { strToU8, zipSync } from "fflate";
+import { getAttachmentRefs } from "./attachments";
+import { chronologicalOrder } from "./conversation";
+import { ImagePart } from "./types";
+import { NotFoundError } from "@/lib/utils/errors";
+
+export const exportFormats = ["md", "json", "html"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+export interface ExportedMessage {
+  id: string;
+  role: string;
+  content: string;
+  // null for the conversation's original path
+  threadId: string | null;
+  model?: string;
+  tokenCount: number | null;
+  images?: ImagePart[];
+  createdAt: string;
+}
+
+export interface ExportedBranch {
+  id: string;
+  title: string | null;
+  // null when the branch replaces the conversation from its first turn
+  parentMessageId: string | null;
+  createdAt: string;
+}
+
+export interface ConversationExport {
+  id: string;
+  title: string | null;
+  systemPrompt: string | null;
+  modelId: string | null;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ExportedMessage[];
+  branches: ExportedBranch[];
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+type ConversationRecord = typeof schema.conversations.$inferSelect;
+type MessageRecord = typeof schema.messages.$inferSelect;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+/**
+ * Serialize a user's conversation with every message on every branch.
+ * Pass `tenantId` to only match conversations in that tenant.
+ */
+export async function getConversationExport(
+  userId: string,
+  conversationId: string,
+  tenantId?: string
+): Promise<ConversationExport> {
+  const conversation = await db.query.conversations.findFirst({
+    where: and(
+      eq(schema.conversations.id, conversationId),
+      eq(schema.conversations.userId, userId),
+      tenantId ? eq(schema.conversations.tenantId, tenantId) : undefined
+    ),
+  });
+
+  if (!conversation) {
+    throw new NotFoundError("Conversation");
+  }
+
+  const [exported] = await buildExports([conversation]);
+  return exported;
+}
+
+/**
+ * Serialize all of a user's conversations (except deleted ones), optionally
+ * limited to one tenant
+ */
+export async function getAllConversationExports(
+  userId: string,
+  tenantId?: string
+): Promise<ConversationExport[]> {
+  const conversations = await db.query.conversations.findMany({
+    where: and(
+      eq(schema.conversations.userId, userId),
+      tenantId ? eq(schema.conversations.tenantId, tenantId) : undefined
+    ),
+    orderBy: [asc(schema.conversations.createdAt)],
+  });
+
+  return buildExports(
+    conversations.filter((c: ConversationRecord) => c.status !== "deleted")
+  );
+}
+
+async function buildExports(conversations: ConversationRecord[]): Promise<ConversationExport[]> {
+  if (conversations.length === 0) return [];
+
+  const ids = conversations.map((c) => c.id);
+  const [messages, threads, attachments] = await Promise.all([
+    db.query.messages.findMany({
+      where: inArray(schema.messages.conversationId, ids),
+      orderBy: chronologicalOrder(),
+    }),
+    db.query.threads.findMany({
+      where: inArray(schema.threads.conversationId, ids),
+      orderBy: [asc(schema.threads.createdAt)],
+    }),
+    db.query.messageAttachments.findMany({
+      where: inArray(schema.messageAttachments.conversationId, ids),
+    }),
+  ]);
+  const images = new Map<string, ImagePart>(
+    attachments.map((a) => [a.id, { type: "image", mimeType: a.mimeType, data: a.data }])
+  );
+
+  return conversations.map((conversation) => ({
+    id: conversation.id,
+    title: conversation.title,
+    systemPrompt: conversation.systemPrompt,
+    modelId: conversation.modelId,
+    status: conversation.status,
+    createdAt: conversation.createdAt.toISOString(),
+    updatedAt: conversation.updatedAt.toISOString(),
+    messages: messages
+      .filter((m) => m.conversationId === conversation.id)
+      .map((m) => toExportedMessage(m, images)),
+    branches: threads
+      .filter((t) => t.conversationId === conversation.id)
+      .map((t) => ({
+        id: t.id,
+        title: t.title,
+        parentMessageId: t.parentMessageId,
+        createdAt: t.createdAt.toISOString(),
+      })),
+  }));
+}
+
+function toExportedMessage(message: MessageRecord, stored: Map<string, ImagePart>): ExportedMessage {
+  const metadata = message.metadata as { model?: string } | null;
+  const images = getAttachmentRefs(message.metadata)
+    .map((ref) => stored.get(ref.id))
+    .filter((image): image is ImagePart => Boolean(image));
+
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    threadId: message.threadId,
+    model: metadata?.model,
+    tokenCount: message.tokenCount,
+    images: images.length ? images : undefined,
+    createdAt: message.createdAt.toISOString(),
+  };
+}
+
+/**
+ * The original path followed by each branch's own messages, in the order they were created
+ */
+function groupByBranch(exported: ConversationExport) {
+  return [
+    { branch: null, messages: exported.messages.filter((m) => !m.threadId) },
+    ...exported.branches.map((branch) => ({
+      branch,
+      messages: exported.messages.filter((m) => m.threadId === branch.id),
+    })),
+  ];
+}
+
+function describeFork(exported: ConversationExport, branch: ExportedBranch): string {
+  if (!branch.parentMessageId) return "replaces the conversation from its first message";
+
+  const parent = exported.messages.find((m) => m.id === branch.parentMessageId);
+  return parent ? `continues after the ${parent.role} message of ${parent.createdAt}` : "continues after a removed message";
+}
+
+function describeMessage(message: ExportedMessage): string {
+  return [
+    message.createdAt,
+    message.model,
+    message.tokenCount != null ? `${message.tokenCount} tokens` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function toMarkdown(exported: ConversationExport): string {
+  const lines = [`# ${exported.title || "Untitled conversation"}`, ""];
+
+  lines.push(`- Created: ${exported.createdAt}`);
+  lines.push(`- Updated: ${exported.updatedAt}`);
+  if (exported.modelId) lines.push(`- Model: ${exported.modelId}`);
+  lines.push("");
+
+  if (exported.systemPrompt) {
+    lines.push("## System prompt", "", exported.systemPrompt, "");
+  }
+
+  for (const { branch, messages } of groupByBranch(exported)) {
+    if (branch) {
+      lines.push(`## Branch: ${branch.title || branch.id}`, "", `_This branch ${describeFork(exported, branch)}._`, "");
+    } else if (exported.branches.length > 0) {
+      lines.push("## Original path", "");
+    }
+
+    for (const message of messages) {
+      lines.push(`### ${message.role}`, "", `_${describeMessage(message)}_`, "");
+      if (message.content) lines.push(message.content, "");
+      if (message.images) lines.push(`_${message.images.length} image(s) attached_`, "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; }
+  header p, .meta { color: #666; font-size: 0.85rem; }
+  .message { border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 0.75rem 0; background: #f4f4f5; }
+  .message.user { background: #e0e7ff; }
+  .message.system, .message.function { background: #fafafa; border: 1px dashed #ccc; }
+  .role { font-weight: 600; text-transform: capitalize; }
+  .content { white-space: pre-wrap; margin: 0.5rem 0 0; }
+  .message img { max-width: 100%; max-height: 20rem; border-radius: 0.25rem; margin-top: 0.5rem; }
+  section.branch { border-left: 3px solid #a5b4fc; padding-left: 1rem; margin-top: 2rem; }
+`;
+
+/**
+ * A single HTML page with inline styles and images, readable offline
+ */
+function toHtml(exported: ConversationExport): string {
+  const title = escapeHtml(exported.title || "Untitled conversation");
+
+  const renderMessage = (message: ExportedMessage) => `
+    <article class="message ${escapeHtml(message.role)}">
+      <div class="role">${escapeHtml(message.role)}</div>
+      <div class="meta">${escapeHtml(describeMessage(message))}</div>
+      ${message.content ? `<p class="content">${escapeHtml(message.content)}</p>` : ""}
+      ${(message.images || [])
+        .map((image) => `<img src="data:${escapeHtml(image.mimeType)};base64,${escapeHtml(image.data)}" alt="Attached image">`)
+        .join("")}
+    </article>`;
+
+  const sections = groupByBranch(exported).map(({ branch, messages }) => {
+    const heading = branch
+      ? `<h2>Branch: ${escapeHtml(branch.title || branch.id)}</h2><p class="meta">This branch ${escapeHtml(describeFork(exported, branch))}.</p>`
+      : exported.branches.length > 0
+        ? "<h2>Original path</h2>"
+        : "";
+    return `<section${branch ? ' class="branch"' : ""}>${heading}${messages.map(renderMessage).join("")}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>
+  <style>${HTML_STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>${title}</h1>
+    <p>Created ${escapeHtml(exported.createdAt)} · Updated ${escapeHtml(exported.updatedAt)}${
+      exported.modelId ? ` · Model ${escapeHtml(exported.modelId)}` : ""
+    }</p>
+  </header>
+  ${exported.systemPrompt ? `<h2>System prompt</h2><p class="content">${escapeHtml(exported.systemPrompt)}</p>` : ""}
+  ${sections.join("\n")}
+</body>
+</html>
+`;
+}
+
+function toFilename(exported: ConversationExport, format: ExportFormat): string {
+  const slug = (exported.title || "conversation")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "conversation"}-${exported.id.slice(0, 8)}.${format}`;
+}
+
+export function formatConversationExport(exported: ConversationExport, format: ExportFormat): ExportFile {
+  const body =
+    format === "json"
+      ? JSON.stringify({ ...exported, exportedAt: new Date().toISOString() }, null, 2)
+      : format === "html"
+        ? toHtml(exported)
+        : toMarkdown(exported);
+
+  return { filename: toFilename(exported, format), contentType: CONTENT_TYPES[format], body };
+}
+
+/**
+ * Zip archive with one file per conversation
+ */
+export function createConversationArchive(exports: ConversationExport[], format: ExportFormat): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+
+  for (const exported of exports) {
+    const file = formatConversationExport(exported, format);
+    files[file.filename] = strToU8(file.body);
+  }
+
+  return zipSync(files);
+}
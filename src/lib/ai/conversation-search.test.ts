@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { db, schema } from "@/db/query";
+import { createAccount } from "@/test/fixtures";
+import { conversationManager } from "./conversation";
+import { conversationSearch, parseSnippet } from "./conversation-search";
+
+async function setup() {
+  const { user, tenant } = await createAccount();
+  const conversation = await conversationManager.createConversation(tenant.id, user.id, { title: "Baking notes" });
+  const add = (content: string, createdAt = new Date()) =>
+    db.insert(schema.messages).values({ conversationId: conversation.id, role: "user", content, createdAt });
+
+  const search = (query: string, filters: { from?: Date; to?: Date } = {}) =>
+    conversationSearch.search({ tenantId: tenant.id, userId: user.id, query, limit: 20, offset: 0, ...filters });
+
+  return { user, tenant, conversation, add, search };
+}
+
+describe("SQLite conversation search", () => {
+  it("matches every word of the query in titles and messages", async () => {
+    const { conversation, add, search } = await setup();
+    await add("How long should banana bread rest?");
+    await add("Bread and butter");
+
+    const results = await search("banana bread");
+
+    expect(results.total).toBe(1);
+    expect(results.hits[0]).toMatchObject({ conversationId: conversation.id, role: "user" });
+    expect((await search("baking")).hits[0]).toMatchObject({ messageId: null, conversationTitle: "Baking notes" });
+  });
+
+  it.each([
+    ['"banana', "an unbalanced quote"],
+    ["banana AND", "a trailing operator"],
+    ["NEAR(banana bread)", "a NEAR group"],
+    ["ban*", "a prefix wildcard"],
+    ["content:banana", "a column filter"],
+    ["-banana ^bread", "unary operators"],
+    ["(banana OR", "an unbalanced parenthesis"],
+  ])("treats FTS5 syntax in %j (%s) as plain text", async (query) => {
+    const { add, search } = await setup();
+    await add("banana bread");
+
+    await expect(search(query)).resolves.toMatchObject({ hits: expect.any(Array) });
+  });
+
+  it("returns nothing for a query without words", async () => {
+    const { add, search } = await setup();
+    await add("banana bread");
+
+    expect((await search('"  "')).total).toBe(0);
+  });
+
+  it("highlights matched terms in snippets", async () => {
+    const { add, search } = await setup();
+    await add("Sourdough needs a starter");
+
+    const [hit] = (await search("sourdough")).hits;
+
+    expect(hit.snippet).toContainEqual({ text: "Sourdough", highlighted: true });
+  });
+
+  it("includes the whole 'to' day", async () => {
+    const { add, search } = await setup();
+    await add("pretzel dough", new Date("2026-03-05T18:30:00Z"));
+
+    expect((await search("pretzel", { to: new Date("2026-03-05") })).total).toBe(1);
+    expect((await search("pretzel", { to: new Date("2026-03-04") })).total).toBe(0);
+    expect((await search("pretzel", { from: new Date("2026-03-06") })).total).toBe(0);
+  });
+
+  it("keeps other users' conversations out of the results", async () => {
+    const { add } = await setup();
+    await add("secret focaccia recipe");
+    const other = await setup();
+
+    expect((await other.search("focaccia")).total).toBe(0);
+  });
+});
+
+describe("parseSnippet", () => {
+  it("splits out highlighted runs", () => {
+    expect(parseSnippet("a b c")).toEqual([
+      { text: "a ", highlighted: false },
+      { text: "b", highlighted: true },
+      { text: " c", highlighted: false },
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+import { db } from "@/db";
+import { sql, type SQL } from "drizzle-orm";
+import type { ConversationStatus } from "@/db/schema";
+
+// Private-use characters that mark highlighted terms in raw snippets; they
+// never occur in normal text and are split out before results are returned
+const HIGHLIGHT_START = "\uE000";
+const HIGHLIGHT_END = "\uE001";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ConversationSearchParams {
+  tenantId: string;
+  userId: string;
+  query: string;
+  model?: string;
+  // Deleted conversations are only searched when asked for explicitly
+  status?: ConversationStatus;
+  from?: Date;
+  // Last day included
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface ConversationSearchHit {
+  conversationId: string;
+  conversationTitle: string | null;
+  modelId: string | null;
+  status: string;
+  // null when the conversation title matched rather than a message
+  messageId: string | null;
+  threadId: string | null;
+  role: "user" | "assistant" | null;
+  snippet: SnippetPart[];
+  // The message's creation time, or the conversation's last update for title matches
+  createdAt: Date;
+}
+
+export interface ConversationSearchResults {
+  hits: ConversationSearchHit[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface SearchRow {
+  conversation_id: string;
+  conversation_title: string | null;
+  model_id: string | null;
+  status: string;
+  message_id: string | null;
+  thread_id: string | null;
+  role: "user" | "assistant" | null;
+  snippet: string | null;
+  created_at: number | string | Date;
+}
+
+/**
+ * Full-text search over conversation titles and user/assistant messages.
+ * Title matches are listed before message matches, each ordered by relevance.
+ */
+export interface ConversationSearchBackend {
+  search(params: ConversationSearchParams): Promise<ConversationSearchResults>;
+}
+
+export function parseSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+
+  for (const [i, chunk] of snippet.split(HIGHLIGHT_START).entries()) {
+    const [highlighted, rest] = i === 0 ? [undefined, chunk] : chunk.split(HIGHLIGHT_END, 2);
+    if (highlighted) parts.push({ text: highlighted, highlighted: true });
+    if (rest) parts.push({ text: rest, highlighted: false });
+  }
+
+  return parts;
+}
+
+function toHit(row: SearchRow, toDate: (value: SearchRow["created_at"]) => Date): ConversationSearchHit {
+  return {
+    conversationId: row.conversation_id,
+    conversationTitle: row.conversation_title,
+    modelId: row.model_id,
+    status: row.status,
+    messageId: row.message_id,
+    threadId: row.thread_id,
+    role: row.role,
+    snippet: parseSnippet(row.snippet || ""),
+    createdAt: toDate(row.created_at),
+  };
+}
+
+/**
+ * Conditions on the `c` conversation alias shared by title and message matches
+ */
+function conversationFilters(params: ConversationSearchParams): SQL[] {
+  return [
+    sql`c.user_id = ${params.userId}`,
+    sql`c.tenant_id = ${params.tenantId}`,
+    params.status ? sql`c.status = ${params.status}` : sql`c.status <> 'deleted'`,
+    ...(params.model ? [sql`c.model_id = ${params.model}`] : []),
+  ];
+}
+
+/**
+ * `before` is exclusive; see `getSearchEnd`
+ */
+function dateFilters(column: SQL, from?: SQL, before?: SQL): SQL[] {
+  return [
+    ...(from ? [sql`${column} >= ${from}`] : []),
+    ...(before ? [sql`${column} < ${before}`] : []),
+  ];
+}
+
+/**
+ * `to` is a day and includes everything on it, so matches must fall before the next day
+ */
+function getSearchEnd(to?: Date): Date | undefined {
+  return to ? new Date(to.getTime() + DAY_MS) : undefined;
+}
+
+/**
+ * Turn free text into an FTS5 query that matches every word, so user input
+ * can never be parsed as FTS5 syntax
+ */
+function toFtsQuery(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter(Boolean);
+
+  return terms.length > 0 ? terms.map((term) => `"${term}"`).join(" ") : null;
+}
+
+/**
+ * SQLite search with the FTS5 tables and triggers created by the
+ * `0001_conversation_fts` migration
+ */
+export class SqliteConversationSearch implements ConversationSearchBackend {
+  async search(params: ConversationSearchParams): Promise<ConversationSearchResults> {
+    const empty = { hits: [], total: 0, limit: params.limit, offset: params.offset };
+    const match = toFtsQuery(params.query);
+    if (!match || !("all" in db)) return empty;
+
+    // Timestamps are stored as unix seconds
+    const toSeconds = (date?: Date) => (date ? sql`${Math.floor(date.getTime() / 1000)}` : undefined);
+    const from = toSeconds(params.from);
+    const before = toSeconds(getSearchEnd(params.to));
+
+    const titleWhere = sql.join(
+      [sql`conversations_fts MATCH ${match}`, ...conversationFilters(params), ...dateFilters(sql`c.updated_at`, from, before)],
+      sql` AND `
+    );
+    const messageWhere = sql.join(
+      [
+        sql`messages_fts MATCH ${match}`,
+        sql`m.role IN ('user', 'assistant')`,
+        ...conversationFilters(params),
+        ...dateFilters(sql`m.created_at`, from, before),
+      ],
+      sql` AND `
+    );
+
+    const matches = sql`
+      SELECT c.id AS conversation_id, c.title AS conversation_title, c.model_id, c.status,
+        NULL AS message_id, NULL AS thread_id, NULL AS role,
+        highlight(conversations_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}) AS snippet,
+        c.updated_at AS created_at, bm25(conversations_fts) AS rank
+      FROM conversations_fts
+      JOIN conversations c ON c.rowid = conversations_fts.rowid
+      WHERE ${titleWhere}
+      UNION ALL
+      SELECT c.id, c.title, c.model_id, c.status, m.id, m.thread_id, m.role,
+        snippet(messages_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 24),
+        m.created_at, bm25(messages_fts)
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.rowid
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE ${messageWhere}`;
+
+    const [rows, [count]] = await Promise.all([
+      db.all<SearchRow>(sql`
+        SELECT * FROM (${matches})
+        ORDER BY message_id IS NOT NULL, rank, created_at DESC
+        LIMIT ${params.limit} OFFSET ${params.offset}`),
+      db.all<{ total: number }>(sql`SELECT count(*) AS total FROM (${matches})`),
+    ]);
+
+    return {
+      hits: rows.map((row) => toHit(row, (value) => new Date(Number(value) * 1000))),
+      total: count?.total ?? 0,
+      limit: params.limit,
+      offset: params.offset,
+    };
+  }
+}
+
+/**
+ * Postgres search with `tsvector`, backed by the GIN expression indexes on
+ * conversations.title and messages.content
+ */
+export class PostgresConversationSearch implements ConversationSearchBackend {
+  async search(params: ConversationSearchParams): Promise<ConversationSearchResults> {
+    const empty = { hits: [], total: 0, limit: params.limit, offset: params.offset };
+    if (!params.query.trim() || "all" in db) return empty;
+
+    const from = params.from ? sql`${params.from.toISOString()}::timestamp` : undefined;
+    const end = getSearchEnd(params.to);
+    const before = end ? sql`${end.toISOString()}::timestamp` : undefined;
+    const query = sql`websearch_to_tsquery('english', ${params.query})`;
+
+    // Expressions must match the index definitions for the indexes to be used
+    const titleWhere = sql.join(
+      [
+        sql`to_tsvector('english', coalesce(c.title, '')) @@ ${query}`,
+        ...conversationFilters(params),
+        ...dateFilters(sql`c.updated_at`, from, before),
+      ],
+      sql` AND `
+    );
+    const messageWhere = sql.join(
+      [
+        sql`to_tsvector('english', m.content) @@ ${query}`,
+        sql`m.role IN ('user', 'assistant')`,
+        ...conversationFilters(params),
+        ...dateFilters(sql`m.created_at`, from, before),
+      ],
+      sql` AND `
+    );
+
+    const matches = sql`
+      SELECT c.id AS conversation_id, c.title AS conversation_title, c.model_id, c.status,
+        NULL::uuid AS message_id, NULL::uuid AS thread_id, NULL::varchar AS role,
+        coalesce(c.title, '') AS body, c.updated_at AS created_at,
+        ts_rank(to_tsvector('english', coalesce(c.title, '')), ${query}) AS rank
+      FROM conversations c
+      WHERE ${titleWhere}
+      UNION ALL
+      SELECT c.id, c.title, c.model_id, c.status, m.id, m.thread_id, m.role,
+        m.content, m.created_at, ts_rank(to_tsvector('english', m.content), ${query})
+      FROM messages m
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE ${messageWhere}`;
+
+    // Headlines are only generated for the page being returned
+    const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=35, MinWords=15`;
+    const [rows, [count]] = await Promise.all([
+      db.execute(sql`
+        SELECT hits.*, ts_headline('english', hits.body, ${query}, ${headlineOptions}) AS snippet
+        FROM (
+          SELECT * FROM (${matches}) matches
+          ORDER BY message_id IS NOT NULL, rank DESC, created_at DESC
+          LIMIT ${params.limit} OFFSET ${params.offset}
+        ) hits
+        ORDER BY message_id IS NOT NULL, rank DESC, created_at DESC`),
+      db.execute(sql`SELECT count(*)::int AS total FROM (${matches}) matches`),
+    ]);
+
+    return {
+      hits: (rows as unknown as SearchRow[]).map((row) => toHit(row, (value) => new Date(value))),
+      total: (count as { total: number } | undefined)?.total ?? 0,
+      limit: params.limit,
+      offset: params.offset,
+    };
+  }
+}
+
+export const conversationSearch: ConversationSearchBackend =
+  "all" in db ? new SqliteConversationSearch() : new PostgresConversationSearch();
@@ -0,0 +1,370 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import { NotFoundError, ValidationError } from "@/lib/utils/errors";
+import { chatResponse, createAccount, createConversation, modelInfo } from "@/test/fixtures";
+import { getImageParts, getTextContent } from "./content";
+import { conversationManager } from "./conversation";
+import { getConversationSummary } from "./summarizer";
+import { aiService } from "./service";
+import { toolRegistry } from "./tools";
+import type { ChatRequest } from "./types";
+
+describe("ConversationManager.chat tool loop", () => {
+  const lookup = vi.fn(async (args: Record<string, unknown>) => ({ city: args.city, forecast: "sunny" }));
+
+  beforeEach(() => {
+    toolRegistry.register({
+      definition: {
+        name: "get_weather",
+        parameters: { type: "object", properties: { city: { type: "string" } } },
+      },
+      execute: lookup,
+    });
+    vi.spyOn(aiService, "getModelInfo").mockResolvedValue(modelInfo());
+  });
+
+  afterEach(() => {
+    toolRegistry.unregister("get_weather");
+    vi.restoreAllMocks();
+    lookup.mockClear();
+  });
+
+  it("runs requested tools and sends their results back until the model answers", async () => {
+    const { user, tenant, conversation } = await createConversation();
+    const requests: ChatRequest[] = [];
+    vi.spyOn(aiService, "generateResponse").mockImplementation(async (request) => {
+      requests.push(structuredClone(request));
+      return requests.length === 1
+        ? chatResponse({
+            toolCalls: [{ id: "call_1", name: "get_weather", arguments: '{"city":"Oslo"}' }],
+            finishReason: "tool_calls",
+          })
+        : chatResponse({ content: "It is sunny in Oslo." });
+    });
+
+    const saved = await conversationManager.chat(tenant.id, user.id, conversation.id, "Weather in Oslo?", "test-model");
+
+    expect(saved.content).toBe("It is sunny in Oslo.");
+    expect(lookup).toHaveBeenCalledWith({ city: "Oslo" }, {
+      tenantId: tenant.id,
+      userId: user.id,
+      conversationId: conversation.id,
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].tools?.map((t) => t.name)).toEqual(["get_weather"]);
+    expect(requests[1].messages.slice(-2)).toEqual([
+      expect.objectContaining({ role: "assistant", tool_calls: [expect.objectContaining({ id: "call_1" })] }),
+      { role: "function", name: "get_weather", toolCallId: "call_1", content: '{"city":"Oslo","forecast":"sunny"}' },
+    ]);
+
+    // Usage of every round is added up on the final reply
+    expect(saved.metadata?.usage).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 });
+
+    const rows = await db.query.messages.findMany({
+      where: eq(schema.messages.conversationId, conversation.id),
+    });
+    expect(rows.map((m) => m.role).sort()).toEqual(["assistant", "assistant", "function", "user"]);
+  });
+
+  it("makes the model answer once the tool round limit is reached", async () => {
+    const { user, tenant, conversation } = await createConversation();
+    const requests: ChatRequest[] = [];
+    vi.spyOn(aiService, "generateResponse").mockImplementation(async (request) => {
+      requests.push(request);
+      return request.toolChoice === "none"
+        ? chatResponse({ content: "Giving up on the weather." })
+        : chatResponse({ toolCalls: [{ id: `call_${requests.length}`, name: "get_weather", arguments: "{}" }] });
+    });
+
+    const saved = await conversationManager.chat(tenant.id, user.id, conversation.id, "Weather?", "test-model");
+
+    expect(saved.content).toBe("Giving up on the weather.");
+    expect(requests.at(-1)?.toolChoice).toBe("none");
+    expect(lookup).toHaveBeenCalledTimes(requests.length - 1);
+  });
+
+  it("reports a failing tool to the model instead of throwing", async () => {
+    const { user, tenant, conversation } = await createConversation();
+    lookup.mockRejectedValueOnce(new Error("Weather service unavailable"));
+    const requests: ChatRequest[] = [];
+    vi.spyOn(aiService, "generateResponse").mockImplementation(async (request) => {
+      requests.push(structuredClone(request));
+      return requests.length === 1
+        ? chatResponse({ toolCalls: [{ id: "call_1", name: "get_weather", arguments: "{}" }] })
+        : chatResponse({ content: "The weather service is down." });
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "Weather?", "test-model");
+
+    expect(requests[1].messages.at(-1)?.content).toBe('{"error":"Weather service unavailable"}');
+  });
+});
+
+async function createBranchingConversation() {
+  const { user, tenant } = await createAccount();
+  const conversation = await conversationManager.createConversation(tenant.id, user.id);
+  let time = Date.UTC(2026, 0, 1);
+
+  // Timestamps are stored in seconds, so space messages out to keep their order
+  const add = async (content: string, role: "user" | "assistant", threadId?: string) => {
+    time += 1000;
+    const [message] = await db.insert(schema.messages).values({
+      conversationId: conversation.id,
+      threadId,
+      role,
+      content,
+      createdAt: new Date(time),
+    }).returning();
+    return message;
+  };
+  const read = async (threadId?: string) => {
+    const result = await conversationManager.getConversation(tenant.id, user.id, conversation.id, threadId);
+    return result!.messages.map((m) => m.content);
+  };
+  const fork = (messageId: string | null) =>
+    conversationManager.forkConversation(tenant.id, user.id, conversation.id, messageId);
+
+  return { user, tenant, conversation, add, read, fork };
+}
+
+describe("conversation branches", () => {
+  it("follows a branch's ancestry up to the message each fork was made from", async () => {
+    const { add, read, fork } = await createBranchingConversation();
+    await add("q1", "user");
+    const a1 = await add("a1", "assistant");
+    await add("q2", "user");
+    await add("a2", "assistant");
+
+    const branch = await fork(a1.id);
+    const q2b = await add("q2 on branch", "user", branch.id);
+    await add("a2 on branch", "assistant", branch.id);
+
+    // A branch of a branch
+    const nested = await fork(q2b.id);
+    await add("a2 on nested branch", "assistant", nested.id);
+
+    expect(await read()).toEqual(["q1", "a1", "q2", "a2"]);
+    expect(await read(branch.id)).toEqual(["q1", "a1", "q2 on branch", "a2 on branch"]);
+    expect(await read(nested.id)).toEqual(["q1", "a1", "q2 on branch", "a2 on nested branch"]);
+  });
+
+  it("starts a branch forked from the start with no shared history", async () => {
+    const { add, read, fork } = await createBranchingConversation();
+    await add("q1", "user");
+
+    const branch = await fork(null);
+    await add("fresh start", "user", branch.id);
+
+    expect(await read(branch.id)).toEqual(["fresh start"]);
+  });
+
+  it("lists the alternatives after the fork point, the original path first", async () => {
+    const { user, tenant, conversation, add, fork } = await createBranchingConversation();
+    await add("q1", "user");
+    const a1 = await add("a1", "assistant");
+    await add("q2", "user");
+    const branch = await fork(a1.id);
+
+    const result = await conversationManager.getConversation(tenant.id, user.id, conversation.id);
+    const forkPoint = result!.messages.find((m) => m.id === a1.id)!;
+
+    expect(forkPoint.branches.map((b) => b.threadId)).toEqual([null, branch.id]);
+    expect(result!.messages.filter((m) => m.branches.length > 0)).toHaveLength(1);
+  });
+
+  it("rejects unknown branches and forks inside a tool round", async () => {
+    const { user, tenant, conversation, fork } = await createBranchingConversation();
+    const [toolCall] = await db.insert(schema.messages).values({
+      conversationId: conversation.id,
+      role: "assistant",
+      content: "",
+      metadata: { toolCalls: [{ id: "call_1", name: "lookup", arguments: "{}" }] },
+    }).returning();
+
+    await expect(fork(toolCall.id)).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      conversationManager.getConversation(tenant.id, user.id, conversation.id, crypto.randomUUID())
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("does not let another user read or fork the conversation", async () => {
+    const { tenant, conversation, add } = await createBranchingConversation();
+    const other = await createAccount();
+    const a1 = await add("a1", "assistant");
+
+    expect(await conversationManager.getConversation(tenant.id, other.user.id, conversation.id)).toBeNull();
+    await expect(
+      conversationManager.forkConversation(tenant.id, other.user.id, conversation.id, a1.id)
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("keeps messages saved within the same second in the order they were written", async () => {
+    const { conversation, read } = await createBranchingConversation();
+    const createdAt = new Date(Date.UTC(2026, 0, 1));
+    const contents = ["q1", "a1", "q2", "a2", "q3", "a3"];
+    for (const [i, content] of contents.entries()) {
+      await db.insert(schema.messages).values({
+        conversationId: conversation.id,
+        role: i % 2 === 0 ? "user" : "assistant",
+        content,
+        createdAt,
+      });
+    }
+
+    expect(await read()).toEqual(contents);
+  });
+});
+
+describe("image attachments", () => {
+  const image = (n: number) => ({ type: "image" as const, mimeType: "image/png", data: Buffer.from(`png-${n}`).toString("base64") });
+
+  beforeEach(() => {
+    vi.spyOn(aiService, "getModelInfo").mockResolvedValue(modelInfo({ supportsImage: true, contextWindow: 128000 }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("stores images as attachments and references them from the message", async () => {
+    const { user, tenant, conversation } = await createConversation();
+    const requests: ChatRequest[] = [];
+    vi.spyOn(aiService, "generateResponse").mockImplementation(async (request) => {
+      requests.push(request);
+      return chatResponse({ content: "A cat." });
+    });
+
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "What is this?", "test-model", {
+      images: [image(1)],
+    });
+
+    const message = (await db.query.messages.findMany({
+      where: eq(schema.messages.conversationId, conversation.id),
+    })).find((m) => m.role === "user")!;
+    const [attachment] = await db.query.messageAttachments.findMany({
+      where: eq(schema.messageAttachments.conversationId, conversation.id),
+    });
+
+    expect(attachment).toMatchObject({ mimeType: "image/png", data: image(1).data, size: 5 });
+    expect(message.metadata).toEqual({ attachments: [{ id: attachment.id, mimeType: "image/png" }] });
+    expect(JSON.stringify(message)).not.toContain(image(1).data);
+
+    // The provider still gets the image itself
+    expect(getImageParts(requests[0].messages.at(-1)!.content)).toEqual([
+      expect.objectContaining({ mimeType: "image/png", data: image(1).data }),
+    ]);
+  });
+
+  it("only sends the most recent images with the history", async () => {
+    const { user, tenant, conversation } = await createConversation();
+    const requests: ChatRequest[] = [];
+    vi.spyOn(aiService, "generateResponse").mockImplementation(async (request) => {
+      requests.push(request);
+      return chatResponse({ content: "Noted." });
+    });
+
+    for (let turn = 0; turn < 3; turn++) {
+      const images = [0, 1, 2, 3].map((i) => image(turn * 4 + i));
+      await conversationManager.chat(tenant.id, user.id, conversation.id, `Turn ${turn}`, "test-model", { images });
+    }
+
+    const sent = requests.at(-1)!.messages.filter((m) => m.role === "user");
+    expect(sent.map((m) => getImageParts(m.content).length)).toEqual([0, 4, 4]);
+    expect(sent[0].content).toBe("Turn 0\n[4 images omitted]");
+    expect(getImageParts(sent[2].content).every((part) => part.data)).toBe(true);
+  });
+});
+
+describe("rolling summary", () => {
+  const summaryRequests: ChatRequest[] = [];
+  const replyRequests: ChatRequest[] = [];
+
+  beforeEach(() => {
+    // 1000 tokens leave room for six 104-token turns
+    vi.spyOn(aiService, "getModelInfo").mockResolvedValue(modelInfo({ contextWindow: 1000 }));
+    vi.spyOn(aiService, "generateResponse").mockImplementation(async (request) => {
+      const isSummary = getTextContent(request.messages[0].content).includes("running summary");
+      (isSummary ? summaryRequests : replyRequests).push(request);
+      return chatResponse({ content: isSummary ? "The user counted turns." : "Noted." });
+    });
+  });
+
+  afterEach(() => {
+    summaryRequests.length = 0;
+    replyRequests.length = 0;
+    vi.restoreAllMocks();
+  });
+
+  const sentTurns = (request: ChatRequest) =>
+    request.messages.filter((m) => m.role !== "system").map((m) => getTextContent(m.content).split(".")[0]);
+
+  // Turns all written in the same second, so timestamps cannot tell them apart
+  async function addTurns(conversationId: string, count: number) {
+    const createdAt = new Date(Date.UTC(2026, 0, 1));
+    const rows = [];
+    for (let i = 0; i < count; i++) {
+      const [row] = await db.insert(schema.messages).values({
+        conversationId,
+        role: i % 2 === 0 ? "user" : "assistant",
+        content: `turn ${i}`.padEnd(400, "."),
+        createdAt,
+      }).returning();
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  it("folds the overflow into the summary and stops sending the folded turns", async () => {
+    const { user, tenant, conversation } = await createConversation();
+    const turns = await addTurns(conversation.id, 9);
+
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "next", "test-model");
+
+    expect(summaryRequests).toHaveLength(1);
+    const stored = await db.query.conversations.findFirst({ where: eq(schema.conversations.id, conversation.id) });
+    expect(getConversationSummary(stored!.metadata)).toMatchObject({
+      content: "The user counted turns.",
+      lastMessageId: turns[7].id,
+      messageCount: 8,
+    });
+
+    // Turns saved in the same second as the last summarized one are still sent
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "again", "test-model");
+
+    expect(summaryRequests).toHaveLength(1);
+    const last = replyRequests.at(-1)!;
+    expect(getTextContent(last.messages[0].content)).toContain("The user counted turns.");
+    expect(sentTurns(last)).toEqual(["turn 8", "next", "Noted", "again"]);
+  });
+
+  it("only uses the summary on branches forked after the summarized turns", async () => {
+    const { user, tenant, conversation } = await createConversation();
+    const turns = await addTurns(conversation.id, 6);
+    await db.update(schema.conversations).set({
+      metadata: {
+        ...conversation.metadata,
+        summary: { content: "Earlier turns.", lastMessageId: turns[3].id, messageCount: 4, updatedAt: "" },
+      },
+    }).where(eq(schema.conversations.id, conversation.id));
+    const before = await conversationManager.forkConversation(tenant.id, user.id, conversation.id, turns[1].id);
+    const after = await conversationManager.forkConversation(tenant.id, user.id, conversation.id, turns[5].id);
+
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "on main", "test-model");
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "early fork", "test-model", { threadId: before.id });
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "late fork", "test-model", { threadId: after.id });
+
+    const [main, early, late] = replyRequests;
+    expect(getTextContent(main.messages[0].content)).toContain("Earlier turns.");
+    expect(sentTurns(main)).toEqual(["turn 4", "turn 5", "on main"]);
+
+    expect(early.messages.some((m) => m.role === "system")).toBe(false);
+    expect(sentTurns(early)).toEqual(["turn 0", "turn 1", "early fork"]);
+
+    expect(getTextContent(late.messages[0].content)).toContain("Earlier turns.");
+    expect(sentTurns(late)).toEqual(["turn 4", "turn 5", "late fork"]);
+    expect(summaryRequests).toHaveLength(0);
+  });
+});
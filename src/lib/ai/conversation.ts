@@ -1,21 +1,113 @@
-import { db, schema } from "@/db";
-import { eq, desc, and } from "drizzle-orm";
-import { ChatMessage } from "./types";
+import { db, schema } from "@/db/query";
+import { eq, desc, asc, and, isNull, sql, SQL } from "drizzle-orm";
+import { ChatMessage, ChatResponse, ImagePart, StreamChunk, TokenUsage, ToolCall, ToolDefinition } from "./types";
 import { aiService } from "./service";
+import { buildContextWindow, ContextWindow } from "./context-window";
+import { addUsage, estimateTokens } from "./tokens";
+import { ConversationSummary, getConversationSummary, summarizeMessages } from "./summarizer";
+import {
+  ConversationEnrichment,
+  DEFAULT_CONVERSATION_TITLE,
+  describeConversation,
+  getConversationEnrichment,
+} from "./enrichment";
+import { accumulateToolCalls, toolRegistry, ToolContext } from "./tools";
+import { keepRecentImages, toContent, withoutImages } from "./content";
+import { AttachmentRef, getAttachmentRefs, loadImages, storeAttachments, toImageParts } from "./attachments";
+import { NotFoundError, ValidationError } from "@/lib/utils/errors";
+import type { ConversationStatus } from "@/db/schema";
+
+export const DEFAULT_MODEL_ID = "gpt-4-turbo";
+
+// Upper bound on rows loaded before token trimming
+const MAX_HISTORY_MESSAGES = 500;
+
+// Optional platform-wide cap on prompt size, to keep large-context models affordable
+const MAX_CONTEXT_TOKENS = process.env.AI_MAX_CONTEXT_TOKENS
+  ? parseInt(process.env.AI_MAX_CONTEXT_TOKENS)
+  : undefined;
+
+// Model used to condense old turns; defaults to the conversation's own model
+const SUMMARY_MODEL_ID = process.env.AI_SUMMARY_MODEL;
+
+// Model used to title and tag new conversations; defaults to the summary model, then the conversation's own
+const ENRICHMENT_MODEL_ID = process.env.AI_TITLE_MODEL || SUMMARY_MODEL_ID;
+
+// Rounds of tool calls allowed before the model is made to answer
+const MAX_TOOL_ITERATIONS = 5;
+
+// Images sent with the history; older ones are replaced by a placeholder
+const MAX_CONTEXT_IMAGES = 8;
+
+export interface ContextStats {
+  promptTokens: number;
+  droppedMessages: number;
+  truncated: boolean;
+  summarizedMessages: number;
+}
+
+export interface ConversationStreamChunk extends StreamChunk {
+  context?: ContextStats;
+}
+
+export interface ChatOptions {
+  images?: ImagePart[];
+  // Images already stored with the conversation, e.g. those of an edited turn
+  attachments?: AttachmentRef[];
+  // Branch to continue; omit for the conversation's original path
+  threadId?: string;
+  temperature?: number;
+}
+
+/**
+ * One of the alternative continuations after a message. `threadId` is null
+ * for the conversation's original path.
+ */
+export interface BranchOption {
+  threadId: string | null;
+  title: string | null;
+  createdAt: Date;
+}
+
+type MessageRecord = typeof schema.messages.$inferSelect;
+type ThreadRecord = typeof schema.threads.$inferSelect;
+
+/**
+ * Order for messages, oldest first. SQLite stores `createdAt` in whole seconds,
+ * so messages saved within the same second fall back to their insertion order.
+ */
+export function chronologicalOrder(): SQL[] {
+  return "all" in db
+    ? [asc(schema.messages.createdAt), sql`rowid`]
+    : [asc(schema.messages.createdAt)];
+}
+
+/**
+ * Set one key of `conversations.metadata` inside the UPDATE itself, so keys written
+ * meanwhile by another task (summary vs. enrichment) are not overwritten
+ */
+function mergeMetadata(key: string, value: unknown): SQL {
+  const json = JSON.stringify(value);
+  return "all" in db
+    ? sql`json_set(coalesce(${schema.conversations.metadata}, '{}'), ${`$.${key}`}, json(${json}))`
+    : sql`coalesce(${schema.conversations.metadata}, '{}'::jsonb) || jsonb_build_object(${key}::text, ${json}::jsonb)`;
+}
 
 export class ConversationManager {
-  
+  // Conversations with an enrichment request in flight
+  private enriching = new Set<string>();
+
   /**
    * Create a new conversation or get existing
    */
-  async getOrCreateConversation(tenantId: string, userId: string, conversationId?: string) {
+  async getOrCreateConversation(
+    tenantId: string,
+    userId: string,
+    conversationId?: string,
+    modelId?: string
+  ) {
       if (conversationId) {
-          const conv = await db.query.conversations.findFirst({
-              where: and(
-                  eq(schema.conversations.id, conversationId),
-                  eq(schema.conversations.tenantId, tenantId)
-              )
-          });
+          const conv = await this.findOwnedConversation(tenantId, userId, conversationId);
           if (conv) return conv;
       }
 
@@ -23,60 +115,815 @@ export class ConversationManager {
       const [newConv] = await db.insert(schema.conversations).values({
           tenantId,
           userId, // Optional depending on schema, but usually good
-          title: "New Conversation",
+          title: DEFAULT_CONVERSATION_TITLE,
+          modelId,
       }).returning();
       
       return newConv;
   }
 
   /**
-   * Add user message and get AI response
+   * Start an empty conversation, e.g. from the API before its first message is sent
+   */
+  async createConversation(
+    tenantId: string,
+    userId: string,
+    options: { title?: string; modelId?: string; systemPrompt?: string } = {}
+  ) {
+      const [conversation] = await db.insert(schema.conversations).values({
+          tenantId,
+          userId,
+          title: options.title || DEFAULT_CONVERSATION_TITLE,
+          modelId: options.modelId,
+          systemPrompt: options.systemPrompt,
+      }).returning();
+
+      return conversation;
+  }
+
+  /**
+   * Rename a conversation or change its status (archive, restore or soft-delete)
+   */
+  async updateConversation(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    changes: { title?: string; status?: ConversationStatus }
+  ) {
+      const conv = await this.findOwnedConversation(tenantId, userId, conversationId);
+      if (!conv) throw new NotFoundError("Conversation");
+
+      const [updated] = await db.update(schema.conversations)
+          .set({ ...changes, updatedAt: new Date() })
+          .where(eq(schema.conversations.id, conversationId))
+          .returning();
+
+      return updated;
+  }
+
+  /**
+   * A page of the messages on one branch, oldest first, with the branch's total message count
+   */
+  async listMessages(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    options: { threadId?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ messages: MessageRecord[]; total: number }> {
+      const { threadId, limit = 50, offset = 0 } = options;
+
+      const conv = await this.findOwnedConversation(tenantId, userId, conversationId);
+      if (!conv) throw new NotFoundError("Conversation");
+
+      if (threadId && !(await this.getThread(conversationId, threadId))) {
+          throw new NotFoundError("Thread");
+      }
+
+      const messages = await this.getBranchMessages(conversationId, threadId);
+      return { messages: messages.slice(offset, offset + limit), total: messages.length };
+  }
+
+  /**
+   * Get a conversation owned by the user with the messages on one branch in
+   * chronological order (the original path unless `threadId` is given).
+   * Each message lists the branches that fork after it, `rootBranches` lists those
+   * that replace the conversation from its first turn, and `threads` holds every branch.
+   */
+  async getConversation(tenantId: string, userId: string, conversationId: string, threadId?: string) {
+      const conv = await this.findOwnedConversation(tenantId, userId, conversationId);
+      if (!conv) return null;
+
+      if (threadId && !(await this.getThread(conversationId, threadId))) {
+          throw new NotFoundError("Thread");
+      }
+
+      const [messages, threads] = await Promise.all([
+          this.getBranchMessages(conversationId, threadId),
+          this.getThreads(conversationId),
+      ]);
+
+      return {
+          ...conv,
+          threadId: threadId || null,
+          threads,
+          rootBranches: this.getBranchOptions(threads, null, { threadId: null, createdAt: conv.createdAt }),
+          messages: messages.map(m => ({ ...m, branches: this.getBranchOptions(threads, m.id, m) })),
+      };
+  }
+
+  /**
+   * Fork a conversation after `messageId`, or from the very start when it is null.
+   * The new branch shares every message up to and including that one, and later
+   * turns sent with its id continue from there without touching the original path.
+   */
+  async forkConversation(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    messageId: string | null,
+    title?: string
+  ): Promise<ThreadRecord> {
+      if (messageId) {
+          const message = await this.findOwnedMessage(tenantId, userId, conversationId, messageId);
+
+          // Forking inside a tool round would leave calls without their results
+          if ((message.role !== "user" && message.role !== "assistant") || message.metadata?.toolCalls) {
+              throw new ValidationError("Conversations can only be branched from user or assistant replies");
+          }
+      } else if (!(await this.findOwnedConversation(tenantId, userId, conversationId))) {
+          throw new NotFoundError("Conversation");
+      }
+
+      const [thread] = await db.insert(schema.threads).values({
+          conversationId,
+          parentMessageId: messageId,
+          title: title || null,
+      }).returning();
+
+      return thread;
+  }
+
+  /**
+   * Where to fork to regenerate an assistant reply: right after the user turn that
+   * prompted it, so the original reply stays as an alternate. Also returns the
+   * model that was asked for the original reply.
+   */
+  async getRegenerateTarget(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    messageId: string
+  ): Promise<{ parentMessageId: string; modelId?: string }> {
+      const message = await this.findOwnedMessage(tenantId, userId, conversationId, messageId);
+      if (message.role !== "assistant") {
+          throw new ValidationError("Only assistant replies can be regenerated");
+      }
+
+      const path = await this.getBranchMessages(conversationId, message.threadId);
+      const index = path.findIndex(m => m.id === message.id);
+      const prompt = path.slice(0, index).reverse().find(m => m.role === "user");
+      if (!prompt) {
+          throw new ValidationError("This reply has no prompt to regenerate from");
+      }
+
+      const metadata = message.metadata as { model?: string; requestedModel?: string } | null;
+      return {
+          parentMessageId: prompt.id,
+          modelId: metadata?.requestedModel || metadata?.model,
+      };
+  }
+
+  /**
+   * Where to fork to edit a user turn: right before it (null for the first turn), so
+   * the original stays as an alternate. Also returns the images attached to the
+   * original turn so they can be resent.
+   */
+  async getEditTarget(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    messageId: string
+  ): Promise<{ parentMessageId: string | null; attachments: AttachmentRef[] }> {
+      const message = await this.findOwnedMessage(tenantId, userId, conversationId, messageId);
+      if (message.role !== "user") {
+          throw new ValidationError("Only user messages can be edited");
+      }
+
+      const path = await this.getBranchMessages(conversationId, message.threadId);
+      const previous = path[path.findIndex(m => m.id === message.id) - 1];
+
+      return {
+          parentMessageId: previous?.id ?? null,
+          attachments: getAttachmentRefs(message.metadata),
+      };
+  }
+
+  /**
+   * The sibling branches after a message: its own continuation followed by every
+   * branch forked from it. Empty when nothing forks there.
+   */
+  async listBranches(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    messageId: string
+  ): Promise<BranchOption[]> {
+      const message = await this.findOwnedMessage(tenantId, userId, conversationId, messageId);
+      return this.getBranchOptions(await this.getThreads(conversationId), message.id, message);
+  }
+
+  /**
+   * Every branch in a conversation owned by the user, oldest first
+   */
+  async listThreads(tenantId: string, userId: string, conversationId: string): Promise<ThreadRecord[]> {
+      const conv = await this.findOwnedConversation(tenantId, userId, conversationId);
+      if (!conv) throw new NotFoundError("Conversation");
+
+      return this.getThreads(conversationId);
+  }
+
+  private async getThreads(conversationId: string): Promise<ThreadRecord[]> {
+      return db.query.threads.findMany({
+          where: eq(schema.threads.conversationId, conversationId),
+          orderBy: [asc(schema.threads.createdAt)],
+      });
+  }
+
+  private async getThread(conversationId: string, threadId: string): Promise<ThreadRecord | null> {
+      const thread = await db.query.threads.findFirst({
+          where: and(
+              eq(schema.threads.id, threadId),
+              eq(schema.threads.conversationId, conversationId)
+          ),
+      });
+      return thread || null;
+  }
+
+  /**
+   * The conversation record (without messages) if the user owns it in the tenant
+   */
+  async findOwnedConversation(tenantId: string, userId: string, conversationId: string) {
+      const conv = await db.query.conversations.findFirst({
+          where: and(
+              eq(schema.conversations.id, conversationId),
+              eq(schema.conversations.tenantId, tenantId),
+              eq(schema.conversations.userId, userId)
+          )
+      });
+      return conv || null;
+  }
+
+  /**
+   * A branch of a conversation the user owns in the tenant
+   */
+  async findOwnedThread(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    threadId: string
+  ): Promise<ThreadRecord | null> {
+      const conv = await this.findOwnedConversation(tenantId, userId, conversationId);
+      return conv ? this.getThread(conversationId, threadId) : null;
+  }
+
+  private async findOwnedMessage(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    messageId: string
+  ): Promise<MessageRecord> {
+      const conv = await this.findOwnedConversation(tenantId, userId, conversationId);
+      if (!conv) throw new NotFoundError("Conversation");
+
+      const message = await db.query.messages.findFirst({
+          where: and(
+              eq(schema.messages.id, messageId),
+              eq(schema.messages.conversationId, conversationId)
+          ),
+      });
+      if (!message) throw new NotFoundError("Message");
+
+      return message;
+  }
+
+  /**
+   * Messages on a branch, oldest first. Walks up the branch's ancestry: each
+   * thread contributes its own messages, preceded by its parent segment cut off
+   * at the message it was forked from.
+   */
+  private async getBranchMessages(conversationId: string, threadId?: string | null): Promise<MessageRecord[]> {
+      const segments: MessageRecord[][] = [];
+      const visited = new Set<string>();
+      let current = threadId || null;
+      let forkedFrom: string | undefined;
+
+      while (true) {
+          const rows: MessageRecord[] = await db.query.messages.findMany({
+              where: and(
+                  eq(schema.messages.conversationId, conversationId),
+                  current ? eq(schema.messages.threadId, current) : isNull(schema.messages.threadId)
+              ),
+              orderBy: chronologicalOrder(),
+          });
+
+          const end = forkedFrom ? rows.findIndex(m => m.id === forkedFrom) + 1 : rows.length;
+          segments.unshift(rows.slice(0, end));
+
+          if (!current || visited.has(current)) break;
+          visited.add(current);
+
+          const thread = await this.getThread(conversationId, current);
+          const parent = thread?.parentMessageId
+              ? await db.query.messages.findFirst({ where: eq(schema.messages.id, thread.parentMessageId) })
+              : undefined;
+          if (!parent) break;
+
+          current = parent.threadId;
+          forkedFrom = parent.id;
+      }
+
+      return segments.flat();
+  }
+
+  /**
+   * Branches forking after `parentMessageId` (null for the start of the conversation),
+   * preceded by the continuation they fork from
+   */
+  private getBranchOptions(
+    threads: ThreadRecord[],
+    parentMessageId: string | null,
+    continuation: { threadId: string | null; createdAt: Date }
+  ): BranchOption[] {
+      const forks = threads.filter(t => t.parentMessageId === parentMessageId);
+      if (forks.length === 0) return [];
+
+      const own = continuation.threadId ? threads.find(t => t.id === continuation.threadId) : undefined;
+      return [
+          { threadId: continuation.threadId, title: own?.title ?? null, createdAt: own?.createdAt ?? continuation.createdAt },
+          ...forks.map(t => ({ threadId: t.id, title: t.title, createdAt: t.createdAt })),
+      ];
+  }
+
+  /**
+   * List the user's conversations with a status (active by default), most recently updated first
+   */
+  async listConversations(
+    tenantId: string,
+    userId: string,
+    options?: { limit?: number; offset?: number; status?: ConversationStatus }
+  ) {
+      const { limit = 50, offset = 0, status = "active" } = options || {};
+
+      return db.query.conversations.findMany({
+          where: and(
+              eq(schema.conversations.tenantId, tenantId),
+              eq(schema.conversations.userId, userId),
+              eq(schema.conversations.status, status)
+          ),
+          orderBy: [desc(schema.conversations.updatedAt)],
+          limit,
+          offset,
+      });
+  }
+
+  /**
+   * Add user message (with optional images) and get AI response.
+   * Returns the saved assistant message; its metadata holds the model, usage and context stats.
    */
   async chat(
     tenantId: string, 
     userId: string, 
     conversationId: string, 
     message: string, 
-    modelId: string = "gpt-4-turbo"
+    modelId: string = DEFAULT_MODEL_ID,
+    options: ChatOptions = {}
   ) {
+      const { threadId } = options;
+
       // 1. Save User Message
-      await db.insert(schema.messages).values({
+      await this.saveUserMessage(conversationId, threadId, message, options);
+
+      // 2. Fetch History along the branch (trimmed to the model's context window)
+      const context = await this.buildContext(tenantId, conversationId, modelId, threadId);
+      const tools = await this.getTools(modelId, tenantId);
+      const toolContext: ToolContext = { tenantId, userId, conversationId };
+
+      // 3. Generate Response, running requested tools until the model answers
+      const messages = [...context.messages];
+      let usage: TokenUsage | undefined;
+      let response: ChatResponse;
+
+      for (let iteration = 0; ; iteration++) {
+          response = await aiService.generateResponse({
+              model: modelId,
+              messages,
+              maxTokens: context.maxOutputTokens,
+              contextWindow: context.contextWindow,
+              temperature: options.temperature,
+              user: userId,
+              tools,
+              toolChoice: tools && iteration >= MAX_TOOL_ITERATIONS ? "none" : undefined,
+          }, tenantId);
+          usage = addUsage(usage, response.usage);
+
+          if (!response.toolCalls?.length || iteration >= MAX_TOOL_ITERATIONS) break;
+          messages.push(...await this.runToolCalls(toolContext, threadId, response.content, response.toolCalls));
+      }
+
+      // 4. Save Assistant Message
+      const saved = await this.saveAssistantMessage(
           conversationId,
-          role: "user",
-          content: message,
-          tokenCount: message.length / 4, // Rough estimate
-      });
+          threadId,
+          response.content,
+          response.model,
+          modelId,
+          usage,
+          this.getContextStats(context)
+      );
+      this.enrichInBackground(tenantId, conversationId, threadId, modelId);
 
-      // 2. Fetch History (Limited context)
-      // TODO: Implement smart token window trimming
-      const history = await db.query.messages.findMany({
-          where: eq(schema.messages.conversationId, conversationId),
-          orderBy: [desc(schema.messages.createdAt)],
-          limit: 20, // Simple limit for now
+      return saved;
+  }
+
+  /**
+   * Add user message and stream the AI response.
+   * The assistant message is persisted once the provider stream completes; the final
+   * `done` chunk carries the saved message id, the model used, token usage and
+   * how much history was sent.
+   */
+  async *streamChat(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    message: string,
+    modelId: string = DEFAULT_MODEL_ID,
+    options: ChatOptions = {}
+  ): AsyncGenerator<ConversationStreamChunk> {
+      await this.saveUserMessage(conversationId, options.threadId, message, options);
+      yield* this.streamReply(tenantId, userId, conversationId, modelId, options);
+  }
+
+  /**
+   * Stream a reply to the history on a branch without adding a user turn, e.g. to
+   * regenerate an answer on a branch forked at `getRegenerateTarget`
+   */
+  async *streamReply(
+    tenantId: string,
+    userId: string,
+    conversationId: string,
+    modelId: string = DEFAULT_MODEL_ID,
+    options: ChatOptions = {}
+  ): AsyncGenerator<ConversationStreamChunk> {
+      const { threadId, temperature } = options;
+
+      const context = await this.buildContext(tenantId, conversationId, modelId, threadId);
+      const tools = await this.getTools(modelId, tenantId);
+      const toolContext: ToolContext = { tenantId, userId, conversationId };
+
+      const messages = [...context.messages];
+      let content = "";
+      let usage: TokenUsage | undefined;
+      let model = modelId;
+
+      for (let iteration = 0; ; iteration++) {
+          const toolCalls = new Map<number, ToolCall>();
+          content = "";
+
+          for await (const chunk of aiService.streamResponse({
+              model: modelId,
+              messages,
+              maxTokens: context.maxOutputTokens,
+              contextWindow: context.contextWindow,
+              temperature,
+              user: userId,
+              stream: true,
+              tools,
+              toolChoice: tools && iteration >= MAX_TOOL_ITERATIONS ? "none" : undefined,
+          }, tenantId)) {
+              usage = addUsage(usage, chunk.usage);
+              if (chunk.model) model = chunk.model;
+              if (chunk.toolCalls) accumulateToolCalls(toolCalls, chunk.toolCalls);
+              if (chunk.done || !chunk.content) continue;
+
+              content += chunk.content;
+              yield { ...chunk, toolCalls: undefined };
+          }
+
+          if (toolCalls.size === 0 || iteration >= MAX_TOOL_ITERATIONS) break;
+          messages.push(...await this.runToolCalls(toolContext, threadId, content, Array.from(toolCalls.values())));
+      }
+
+      const stats = this.getContextStats(context);
+      const saved = await this.saveAssistantMessage(conversationId, threadId, content, model, modelId, usage, stats);
+      this.enrichInBackground(tenantId, conversationId, threadId, modelId);
+
+      yield { id: saved.id, content: "", role: "assistant", done: true, usage, model, context: stats };
+  }
+
+  /**
+   * Pass through a reply streamed onto a branch forked for it (to regenerate or
+   * edit a turn). When the reply fails or is abandoned before it is saved, the
+   * branch and anything written to it are removed again.
+   */
+  async *streamOnNewBranch(
+    thread: ThreadRecord,
+    chunks: AsyncIterable<ConversationStreamChunk>
+  ): AsyncGenerator<ConversationStreamChunk> {
+      let saved = false;
+      try {
+          for await (const chunk of chunks) {
+              if (chunk.done) saved = true;
+              yield chunk;
+          }
+      } finally {
+          if (!saved) {
+              await db.delete(schema.messages).where(eq(schema.messages.threadId, thread.id))
+                  .then(() => db.delete(schema.threads).where(eq(schema.threads.id, thread.id)))
+                  .catch((error: unknown) => console.error(`Failed to remove branch ${thread.id}:`, error));
+          }
+      }
+  }
+
+  /**
+   * Registered tools, offered only to models that can call them
+   */
+  private async getTools(modelId: string, tenantId: string): Promise<ToolDefinition[] | undefined> {
+      const definitions = toolRegistry.getDefinitions();
+      if (definitions.length === 0) return undefined;
+
+      const modelInfo = await aiService.getModelInfo(modelId, tenantId);
+      return modelInfo?.supportsFunctionCalling === false ? undefined : definitions;
+  }
+
+  /**
+   * Persist the assistant's tool calls, execute them and persist their results.
+   * Returns the messages to append to the prompt for the next round.
+   */
+  private async runToolCalls(
+    context: ToolContext,
+    threadId: string | undefined,
+    content: string,
+    toolCalls: ToolCall[]
+  ): Promise<ChatMessage[]> {
+      const appended: ChatMessage[] = [{ role: "assistant", content, tool_calls: toolCalls }];
+
+      await db.insert(schema.messages).values({
+          conversationId: context.conversationId,
+          threadId,
+          role: "assistant",
+          content,
+          tokenCount: estimateTokens(content),
+          metadata: { toolCalls },
       });
 
-      // Reverse history to be chronological
-      const messages: ChatMessage[] = history.reverse().map(m => ({
-          role: m.role as "user" | "assistant" | "system",
-          content: m.content
-      }));
+      for (const call of toolCalls) {
+          const result = await toolRegistry.execute(call, context);
+          appended.push({ role: "function", name: call.name, toolCallId: call.id, content: result });
 
-      // 3. Generate Response
-      const response = await aiService.generateResponse({
-          model: modelId,
-          messages: messages,
-      }, tenantId);
+          await db.insert(schema.messages).values({
+              conversationId: context.conversationId,
+              threadId,
+              role: "function",
+              content: result,
+              tokenCount: estimateTokens(result),
+              metadata: { toolCallId: call.id, name: call.name },
+          });
+      }
+
+      return appended;
+  }
+
+  /**
+   * Persist a user turn. New images are stored as attachments; the message
+   * metadata only references them.
+   */
+  private async saveUserMessage(
+    conversationId: string,
+    threadId: string | undefined,
+    content: string,
+    options: Pick<ChatOptions, "images" | "attachments">
+  ) {
+      const attachments = [
+          ...(options.attachments ?? []),
+          ...await storeAttachments(conversationId, options.images ?? []),
+      ];
 
-      // 4. Save Assistant Message
       await db.insert(schema.messages).values({
           conversationId,
+          threadId,
+          role: "user",
+          content,
+          tokenCount: estimateTokens(content),
+          metadata: attachments.length ? { attachments } : undefined,
+      });
+  }
+
+  /**
+   * Persist the reply with the model that actually answered; `requestedModel`
+   * is kept alongside when a fallback model stepped in
+   */
+  private async saveAssistantMessage(
+    conversationId: string,
+    threadId: string | undefined,
+    content: string,
+    model: string,
+    requestedModel: string,
+    usage?: TokenUsage,
+    context?: ContextStats
+  ) {
+      const [saved] = await db.insert(schema.messages).values({
+          conversationId,
+          threadId,
           role: "assistant",
-          content: response.content,
-          model: response.model,
-          tokenCount: response.usage?.completionTokens || (response.content.length / 4),
+          content,
+          tokenCount: usage?.completionTokens || estimateTokens(content),
+          metadata: {
+              model,
+              ...(model !== requestedModel ? { requestedModel } : {}),
+              usage,
+              context
+          },
+      }).returning();
+
+      await db.update(schema.conversations)
+          .set({ updatedAt: new Date() })
+          .where(eq(schema.conversations.id, conversationId));
+
+      return saved;
+  }
+
+  /**
+   * Assemble the prompt for a conversation: its system prompt, the running summary of
+   * older turns, and as much recent history as fits the target model's context window.
+   * When history overflows the window, the overflow is folded into the summary first.
+   * History follows the branch's ancestry when `threadId` is given.
+   */
+  private async buildContext(
+    tenantId: string,
+    conversationId: string,
+    modelId: string,
+    threadId?: string
+  ): Promise<ContextWindow & { summary?: ConversationSummary }> {
+      const conversation = await db.query.conversations.findFirst({
+          where: eq(schema.conversations.id, conversationId),
+          columns: { systemPrompt: true, metadata: true },
       });
 
-      return response.content;
+      let summary = getConversationSummary(conversation?.metadata);
+      const modelInfo = await aiService.getModelInfo(modelId, tenantId);
+
+      const path = await this.getBranchMessages(conversationId, threadId);
+
+      // The stored summary describes the original path, so a branch can only
+      // reuse it when it forked after the last summarized turn
+      const lastSummarized = summary?.lastMessageId;
+      const covered = lastSummarized ? path.findIndex(m => m.id === lastSummarized) : -1;
+      if (covered === -1) summary = undefined;
+
+      // Only turns after the summarized ones are sent verbatim
+      let rows = path.slice(covered + 1).slice(-MAX_HISTORY_MESSAGES);
+      const toChatMessages = (list: typeof rows): ChatMessage[] => {
+          const messages = list.map(m => {
+              const message: ChatMessage = {
+                  role: m.role as ChatMessage["role"],
+                  // Images are referenced here and only read once the window is fitted
+                  content: toContent(m.content, toImageParts(getAttachmentRefs(m.metadata))),
+                  // Tool calls and results are restored from metadata
+                  tool_calls: m.metadata?.toolCalls as ToolCall[] | undefined,
+                  toolCallId: m.metadata?.toolCallId as string | undefined,
+                  name: m.metadata?.name as string | undefined,
+              };
+              // Earlier images stay in the conversation even if the model changes to one without vision
+              return modelInfo?.supportsImage ? message : withoutImages(message);
+          });
+          return keepRecentImages(messages, MAX_CONTEXT_IMAGES);
+      };
+
+      const fit = () => buildContextWindow(toChatMessages(rows), {
+          contextWindow: modelInfo?.contextWindow,
+          maxOutputTokens: modelInfo?.maxOutputTokens,
+          systemPrompt: conversation?.systemPrompt,
+          summary: summary?.content,
+          maxContextTokens: MAX_CONTEXT_TOKENS,
+      });
+
+      let window = fit();
+
+      // Branches fall back to plain trimming rather than rewrite the shared summary
+      if (window.droppedMessages > 0 && !threadId) {
+          // Fold the overflow plus the older half of the window, so the summary
+          // is not regenerated on every subsequent turn
+          const kept = rows.length - window.droppedMessages;
+          let foldCount = Math.min(window.droppedMessages + Math.floor(kept / 2), rows.length - 1);
+
+          // Keep history opening on a user turn, or the window drops the leading
+          // reply and the overflow is folded again on the next turn
+          while (foldCount < rows.length - 1 && rows[foldCount].role !== "user") {
+              foldCount++;
+          }
+
+          if (foldCount > 0) {
+              const folded = rows.slice(0, foldCount);
+              const updated = await this.updateSummary(
+                  tenantId,
+                  conversationId,
+                  summary,
+                  folded,
+                  modelId
+              );
+
+              if (updated) {
+                  summary = updated;
+                  rows = rows.slice(foldCount);
+                  window = fit();
+              }
+          }
+      }
+
+      // Only images of the turns that made it into the window are read
+      return { ...window, messages: await loadImages(conversationId, window.messages), summary };
+  }
+
+  /**
+   * Merge turns into the conversation's stored summary.
+   * Returns undefined (keeping plain trimming) if the summary model fails.
+   */
+  private async updateSummary(
+    tenantId: string,
+    conversationId: string,
+    previous: ConversationSummary | undefined,
+    folded: { id: string; role: string; content: string }[],
+    modelId: string
+  ): Promise<ConversationSummary | undefined> {
+      try {
+          const content = await summarizeMessages({
+              messages: folded.map(m => ({ role: m.role as ChatMessage["role"], content: m.content })),
+              previousSummary: previous?.content,
+              modelId: SUMMARY_MODEL_ID || modelId,
+              tenantId,
+          });
+
+          const summary: ConversationSummary = {
+              content,
+              lastMessageId: folded[folded.length - 1].id,
+              messageCount: (previous?.messageCount || 0) + folded.length,
+              updatedAt: new Date().toISOString(),
+          };
+
+          await db.update(schema.conversations)
+              .set({ metadata: mergeMetadata("summary", summary) })
+              .where(eq(schema.conversations.id, conversationId));
+
+          return summary;
+      } catch (error) {
+          console.warn("Conversation summarization failed, falling back to trimming:", error);
+          return undefined;
+      }
+  }
+
+  /**
+   * Title and tag the conversation after its first exchange without delaying the reply.
+   * Conversations that are already enriched are skipped; failures are retried after the next exchange.
+   */
+  private enrichInBackground(tenantId: string, conversationId: string, threadId: string | undefined, modelId: string) {
+      if (this.enriching.has(conversationId)) return;
+      this.enriching.add(conversationId);
+
+      this.enrichConversation(tenantId, conversationId, threadId, modelId)
+          .catch((error) => console.warn("Conversation enrichment failed:", error))
+          .finally(() => this.enriching.delete(conversationId));
+  }
+
+  private async enrichConversation(
+    tenantId: string,
+    conversationId: string,
+    threadId: string | undefined,
+    modelId: string
+  ) {
+      const conversation = await db.query.conversations.findFirst({
+          where: eq(schema.conversations.id, conversationId),
+      });
+      if (!conversation || getConversationEnrichment(conversation.metadata)) return;
+
+      const history = await this.getBranchMessages(conversationId, threadId);
+      const turns = history.filter(m => (m.role === "user" || m.role === "assistant") && !m.metadata?.toolCalls);
+      if (!turns.some(m => m.role === "assistant")) return;
+
+      const description = await describeConversation({
+          messages: turns.map(m => ({ role: m.role as ChatMessage["role"], content: m.content })),
+          modelId: ENRICHMENT_MODEL_ID || modelId,
+          tenantId,
+      });
+
+      const enrichment: ConversationEnrichment = {
+          language: description.language,
+          tags: description.tags,
+          model: description.model,
+          enrichedAt: new Date().toISOString(),
+      };
+
+      // Re-read so a rename made meanwhile is kept
+      const latest = await db.query.conversations.findFirst({
+          where: eq(schema.conversations.id, conversationId),
+      });
+      if (!latest) return;
+
+      const untitled = !latest.title || latest.title === DEFAULT_CONVERSATION_TITLE;
+      await db.update(schema.conversations)
+          .set({
+              ...(untitled ? { title: description.title } : {}),
+              metadata: mergeMetadata("enrichment", enrichment),
+          })
+          .where(eq(schema.conversations.id, conversationId));
+  }
+
+  private getContextStats(context: ContextWindow & { summary?: ConversationSummary }): ContextStats {
+      return {
+          promptTokens: context.promptTokens,
+          droppedMessages: context.droppedMessages,
+          truncated: context.truncated,
+          summarizedMessages: context.summary?.messageCount || 0,
+      };
   }
 }
 
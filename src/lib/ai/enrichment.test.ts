@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import { chatResponse, createAccount, createConversation, modelInfo } from "@/test/fixtures";
+import { getTextContent } from "./content";
+import { conversationManager } from "./conversation";
+import { DEFAULT_CONVERSATION_TITLE, describeConversation, getConversationEnrichment } from "./enrichment";
+import { aiService } from "./service";
+import type { ChatRequest } from "./types";
+
+const isEnrichment = (request: ChatRequest) =>
+  getTextContent(request.messages[0].content).startsWith("You label conversations");
+
+describe("describeConversation", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("cleans up the title and tags the model returns", async () => {
+    const generate = vi.spyOn(aiService, "generateResponse").mockResolvedValue(chatResponse({
+      model: "labeler",
+      parsed: { title: ' "Planning a trip to Lisbon." ', language: "PT", tags: ["#Travel", "travel", " Food ", ""] },
+    }));
+
+    const description = await describeConversation({
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Where should I eat in Lisbon?" },
+        { role: "assistant", content: "Try the Alfama." },
+      ],
+      modelId: "test-model",
+      tenantId: "tenant-1",
+    });
+
+    expect(description).toEqual({ title: "Planning a trip to Lisbon", language: "pt", tags: ["travel", "food"], model: "labeler" });
+    const [request, tenantId] = generate.mock.calls[0];
+    expect(tenantId).toBe("tenant-1");
+    expect(request.responseFormat).toMatchObject({ type: "json_schema", name: "conversation_labels" });
+    expect(request.messages[1].content).toBe("Conversation:\nUser: Where should I eat in Lisbon?\n\nAssistant: Try the Alfama.");
+  });
+
+  it("falls back to the default title when the model returns only punctuation", async () => {
+    vi.spyOn(aiService, "generateResponse").mockResolvedValue(chatResponse({
+      parsed: { title: '"..."', language: "en", tags: [] },
+    }));
+
+    const description = await describeConversation({ messages: [{ role: "user", content: "Hi" }], modelId: "test-model" });
+
+    expect(description.title).toBe(DEFAULT_CONVERSATION_TITLE);
+  });
+});
+
+describe("background enrichment", () => {
+  const enrichmentRequests: ChatRequest[] = [];
+  let failEnrichment = false;
+
+  beforeEach(() => {
+    vi.spyOn(aiService, "getModelInfo").mockResolvedValue(modelInfo());
+    vi.spyOn(aiService, "generateResponse").mockImplementation(async (request) => {
+      if (!isEnrichment(request)) return chatResponse({ content: "Try the Alfama." });
+      enrichmentRequests.push(request);
+      if (failEnrichment) throw new Error("provider unavailable");
+      return chatResponse({ model: "labeler", parsed: { title: "Eating in Lisbon", language: "en", tags: ["food"] } });
+    });
+  });
+
+  afterEach(() => {
+    enrichmentRequests.length = 0;
+    failEnrichment = false;
+    vi.restoreAllMocks();
+  });
+
+  async function createUntitled(title?: string) {
+    const { user, tenant } = await createAccount();
+    const conversation = await conversationManager.createConversation(tenant.id, user.id, { title });
+    return { user, tenant, conversation };
+  }
+
+  const load = async (id: string) =>
+    (await db.query.conversations.findFirst({ where: eq(schema.conversations.id, id) }))!;
+
+  it("titles and tags the conversation after the first exchange", async () => {
+    const { user, tenant, conversation } = await createUntitled();
+
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "Where should I eat in Lisbon?", "test-model");
+
+    await vi.waitFor(async () => {
+      expect(getConversationEnrichment((await load(conversation.id)).metadata)).toBeDefined();
+    });
+    const stored = await load(conversation.id);
+    expect(stored.title).toBe("Eating in Lisbon");
+    expect(getConversationEnrichment(stored.metadata)).toMatchObject({ language: "en", tags: ["food"], model: "labeler" });
+    expect(enrichmentRequests).toHaveLength(1);
+  });
+
+  it("keeps a title the user chose", async () => {
+    const { user, tenant, conversation } = await createUntitled("My trip");
+
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "Where should I eat in Lisbon?", "test-model");
+
+    await vi.waitFor(async () => {
+      expect(getConversationEnrichment((await load(conversation.id)).metadata)).toBeDefined();
+    });
+    expect((await load(conversation.id)).title).toBe("My trip");
+  });
+
+  it("leaves the conversation as it was when the provider fails, and retries after the next exchange", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { user, tenant, conversation } = await createUntitled();
+    failEnrichment = true;
+
+    const saved = await conversationManager.chat(tenant.id, user.id, conversation.id, "Where should I eat in Lisbon?", "test-model");
+
+    expect(saved.content).toBe("Try the Alfama.");
+    await vi.waitFor(() => expect(warn).toHaveBeenCalledWith("Conversation enrichment failed:", expect.any(Error)));
+    const stored = await load(conversation.id);
+    expect(stored.title).toBe(DEFAULT_CONVERSATION_TITLE);
+    expect(getConversationEnrichment(stored.metadata)).toBeUndefined();
+
+    failEnrichment = false;
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "And for dessert?", "test-model");
+
+    await vi.waitFor(async () => {
+      expect((await load(conversation.id)).title).toBe("Eating in Lisbon");
+    });
+    expect(enrichmentRequests).toHaveLength(2);
+  });
+
+  it("does not describe a conversation that is already enriched", async () => {
+    const { user, tenant, conversation } = await createConversation();
+
+    await conversationManager.chat(tenant.id, user.id, conversation.id, "Where should I eat in Lisbon?", "test-model");
+    // Let the background task run its course
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(enrichmentRequests).toHaveLength(0);
+    expect((await load(conversation.id)).title).toBe("Test");
+  });
+});
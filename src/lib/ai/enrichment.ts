@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { ChatMessage } from "./types";
+import { aiService } from "./service";
+import { truncateToTokens } from "./tokens";
+import { getTextContent } from "./content";
+
+// Title given to conversations until the first exchange has been described
+export const DEFAULT_CONVERSATION_TITLE = "New Conversation";
+
+// The opening turns are enough to name a conversation
+const MAX_TURNS = 4;
+const MAX_TURN_TOKENS = 500;
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_TAGS = 5;
+
+const ENRICHMENT_INSTRUCTIONS = [
+  "You label conversations between a user and an AI assistant.",
+  `Give a short, specific title (at most ${MAX_TITLE_LENGTH} characters, no quotes or trailing punctuation)`,
+  "written in the conversation's language, the ISO 639-1 code of the language the user writes in,",
+  `and up to ${MAX_TAGS} lowercase topic tags of one or two words each.`,
+].join(" ");
+
+const enrichmentSchema = z.object({
+  title: z.string().min(1),
+  language: z.string().regex(/^[a-zA-Z]{2}$/),
+  tags: z.array(z.string()),
+});
+
+/**
+ * Language and topics detected after the first exchange, stored in `conversations.metadata.enrichment`
+ */
+export interface ConversationEnrichment {
+  /** ISO 639-1 code */
+  language: string;
+  tags: string[];
+  model: string;
+  enrichedAt: string;
+}
+
+export interface ConversationDescription {
+  title: string;
+  language: string;
+  tags: string[];
+  model: string;
+}
+
+/**
+ * Read enrichment from conversation metadata, ignoring malformed values
+ */
+export function getConversationEnrichment(
+  metadata: Record<string, unknown> | null | undefined
+): ConversationEnrichment | undefined {
+  const enrichment = metadata?.enrichment as ConversationEnrichment | undefined;
+  if (!enrichment || typeof enrichment.language !== "string" || !Array.isArray(enrichment.tags)) {
+    return undefined;
+  }
+  return enrichment;
+}
+
+function formatOpening(messages: ChatMessage[]): string {
+  return messages
+    .filter((m) => (m.role === "user" || m.role === "assistant") && m.content)
+    .slice(0, MAX_TURNS)
+    .map((m) => {
+      const speaker = m.role === "user" ? "User" : "Assistant";
+      return `${speaker}: ${truncateToTokens(getTextContent(m.content), MAX_TURN_TOKENS)}`;
+    })
+    .join("\n\n");
+}
+
+function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => tag.trim().toLowerCase().replace(/^#/, ""))
+    .filter((tag) => tag.length > 0 && tag.length <= 40);
+  return Array.from(new Set(normalized)).slice(0, MAX_TAGS);
+}
+
+/**
+ * Ask a model for a title, language and topic tags describing the opening of a conversation
+ */
+export async function describeConversation(params: {
+  messages: ChatMessage[];
+  modelId: string;
+  tenantId?: string;
+}): Promise<ConversationDescription> {
+  const { messages, modelId, tenantId } = params;
+
+  const response = await aiService.generateResponse(
+    {
+      model: modelId,
+      messages: [
+        { role: "system", content: ENRICHMENT_INSTRUCTIONS },
+        { role: "user", content: `Conversation:\n${formatOpening(messages)}` },
+      ],
+      temperature: 0.2,
+      maxTokens: 200,
+      responseFormat: { type: "json_schema", name: "conversation_labels", schema: enrichmentSchema },
+    },
+    tenantId
+  );
+
+  const parsed = response.parsed as z.infer<typeof enrichmentSchema>;
+  const title = parsed.title
+    .trim()
+    .replace(/^["'“”]+|["'“”]+$/g, "")
+    .replace(/[.!?]+$/, "")
+    .slice(0, MAX_TITLE_LENGTH)
+    .trim();
+
+  return {
+    title: title || DEFAULT_CONVERSATION_TITLE,
+    language: parsed.language.toLowerCase(),
+    tags: normalizeTags(parsed.tags),
+    model: response.model,
+  };
+}
@@ -0,0 +1,134 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import { ModelUnavailableError } from "@/lib/utils/errors";
+import { createAccount, createModel, createTenantModelConfig } from "@/test/fixtures";
+import { sendJson, startStandIn } from "@/test/server";
+import { listProviderHealth, runHealthChecks } from "./health";
+import { aiService, providerHealthKey } from "./service";
+
+describe("provider health checks", () => {
+  let server: Awaited<ReturnType<typeof startStandIn>>;
+  // Endpoints answering health probes with an error, by first path segment
+  const failing = new Set<string>();
+
+  beforeAll(async () => {
+    server = await startStandIn((request, res) => {
+      if (failing.has(request.path.split("/")[1])) {
+        res.writeHead(503, { "Content-Type": "application/json", "x-should-retry": "false" })
+          .end(JSON.stringify({ error: { message: "Service unavailable" } }));
+      } else {
+        sendJson(res, { object: "list", data: [] });
+      }
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => server.close());
+
+  async function addTarget(name: string) {
+    const { tenant } = await createAccount();
+    const model = await createModel({ modelId: `${name}-${tenant.id}` });
+    const endpoint = `${server.url}/${name}/v1`;
+    const config = await createTenantModelConfig({ tenantId: tenant.id, modelId: model.id, customEndpoint: endpoint });
+    const key = providerHealthKey("openai", tenant.id, endpoint);
+    const health = async () => (await listProviderHealth()).find((h) => h.targetKey === key);
+    return { tenant, model, config, key, health };
+  }
+
+  it("marks a failing target degraded, then down after three failures in a row", async () => {
+    const { key, health } = await addTarget("flaky");
+    failing.add("flaky");
+
+    await runHealthChecks();
+    expect(await health()).toMatchObject({ status: "degraded", consecutiveFailures: 1, errorRate: 1 });
+
+    await runHealthChecks();
+    await runHealthChecks();
+    expect(await health()).toMatchObject({
+      status: "down",
+      consecutiveFailures: 3,
+      lastError: expect.stringContaining("Service unavailable"),
+    });
+    expect(aiService.isProviderDown(key)).toBe(true);
+    expect((await listProviderHealth())[0].targetKey).toBe(key);
+  });
+
+  it("brings a recovered target back up once its error rate is low enough", async () => {
+    const { key, health } = await addTarget("recovering");
+    failing.add("recovering");
+    await runHealthChecks();
+    failing.delete("recovering");
+
+    // One failure in two probes is still degraded
+    await runHealthChecks();
+    expect(await health()).toMatchObject({ status: "degraded", consecutiveFailures: 0, errorRate: 0.5 });
+
+    // One in five is not
+    await runHealthChecks();
+    await runHealthChecks();
+    await runHealthChecks();
+    expect(await health()).toMatchObject({ status: "up", errorRate: 0.2, checkCount: 5 });
+    expect(aiService.isProviderDown(key)).toBe(false);
+  });
+
+  it("reports nearest-rank latency percentiles of successful probes in the window", async () => {
+    // A frozen clock makes the live probe take 0ms
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { key, health } = await addTarget("timed");
+    const now = Date.now();
+    await db.insert(schema.providerHealthChecks).values([
+      ...Array.from({ length: 100 }, (_, i) => ({ targetKey: key, ok: true, latencyMs: i + 1, checkedAt: new Date(now) })),
+      // Failed probes and probes older than the window do not count
+      { targetKey: key, ok: false, latencyMs: 10000, checkedAt: new Date(now) },
+      { targetKey: key, ok: true, latencyMs: 10000, checkedAt: new Date(now - 2 * 60 * 60 * 1000) },
+    ]);
+
+    await runHealthChecks();
+
+    // Latencies 0..100: the 50th, 96th and 100th of 101 values
+    expect(await health()).toMatchObject({
+      status: "up",
+      latencyP50Ms: 50,
+      latencyP95Ms: 95,
+      latencyP99Ms: 99,
+      checkCount: 102,
+    });
+    const checks = await db.query.providerHealthChecks.findMany({
+      where: eq(schema.providerHealthChecks.targetKey, key),
+    });
+    expect(checks.some((c) => c.latencyMs === 10000 && c.ok)).toBe(false);
+  });
+
+  it("drops targets that are no longer configured", async () => {
+    const { config, key, health } = await addTarget("removed");
+    await runHealthChecks();
+    expect(await health()).toBeDefined();
+
+    await db.update(schema.tenantModelConfigs)
+      .set({ isEnabled: false })
+      .where(eq(schema.tenantModelConfigs.id, config.id));
+    await runHealthChecks();
+
+    expect(await health()).toBeUndefined();
+    expect(
+      await db.query.providerHealthChecks.findMany({ where: eq(schema.providerHealthChecks.targetKey, key) })
+    ).toEqual([]);
+  });
+
+  it("makes the router skip a target marked down without calling it", async () => {
+    const { tenant, model } = await addTarget("skipped");
+    failing.add("skipped");
+    for (let i = 0; i < 3; i++) await runHealthChecks();
+    const before = server.requests.length;
+
+    await expect(
+      aiService.generateResponse({ model: model.modelId, messages: [{ role: "user", content: "Hi" }] }, tenant.id)
+    ).rejects.toBeInstanceOf(ModelUnavailableError);
+    expect(server.requests.length).toBe(before);
+  });
+});
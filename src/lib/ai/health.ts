@@ -0,0 +1,291 @@
+import { and, eq, gte, isNotNull, lt, notInArray } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import type { ProviderHealthStatus } from "@/db/schema";
+import { BaseAIAdapter } from "./adapters/base";
+import { AIProvider } from "./types";
+import { aiService, providerHealthKey, withTimeout } from "./service";
+
+type HealthRecord = typeof schema.providerHealth.$inferSelect;
+
+// How often every target is probed; 0 turns the monitor off
+const HEALTH_CHECK_INTERVAL_MS = process.env.AI_HEALTH_CHECK_INTERVAL_MS
+  ? Number(process.env.AI_HEALTH_CHECK_INTERVAL_MS)
+  : 60 * 1000;
+// Probes older than this no longer count towards latency percentiles and error rate
+const HEALTH_WINDOW_MS = Number(process.env.AI_HEALTH_WINDOW_MS) || 60 * 60 * 1000;
+const PROBE_TIMEOUT_MS = 10000;
+// Consecutive failed probes before a target is marked down and skipped by the router
+const DOWN_AFTER_FAILURES = 3;
+// Share of failed probes in the window above which a responding target is degraded
+const DEGRADED_ERROR_RATE = 0.2;
+
+const STATUS_ORDER: Record<string, number> = { down: 0, degraded: 1, up: 2 };
+
+/**
+ * Something to probe: a platform provider, or a tenant's custom endpoint for a provider
+ */
+interface HealthTarget {
+  key: string;
+  provider: AIProvider;
+  tenantId: string | null;
+  endpoint: string | null;
+  getAdapter: () => Promise<BaseAIAdapter>;
+}
+
+export interface ProbeResult {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Health of one target as shown on the admin page
+ */
+export interface ProviderHealthSummary {
+  targetKey: string;
+  provider: string;
+  tenantId: string | null;
+  tenantName: string | null;
+  endpoint: string | null;
+  status: string;
+  latencyP50Ms: number | null;
+  latencyP95Ms: number | null;
+  latencyP99Ms: number | null;
+  errorRate: number;
+  checkCount: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  lastCheckedAt: string;
+}
+
+let monitor: ReturnType<typeof setInterval> | undefined;
+let inFlight: Promise<HealthRecord[]> | undefined;
+
+/**
+ * Platform providers configured in the environment, plus every distinct custom
+ * endpoint on an enabled tenant model config
+ */
+async function getHealthTargets(): Promise<HealthTarget[]> {
+  const targets = new Map<string, HealthTarget>();
+
+  for (const provider of aiService.getPlatformProviders()) {
+    const key = providerHealthKey(provider);
+    targets.set(key, {
+      key,
+      provider,
+      tenantId: null,
+      endpoint: null,
+      getAdapter: () => aiService.getAdapter(provider),
+    });
+  }
+
+  const configs = await db.query.tenantModelConfigs.findMany({
+    where: and(
+      eq(schema.tenantModelConfigs.isEnabled, true),
+      isNotNull(schema.tenantModelConfigs.customEndpoint)
+    ),
+    with: { model: true },
+  });
+
+  for (const config of configs) {
+    const provider = config.model.provider as AIProvider;
+    const key = providerHealthKey(provider, config.tenantId, config.customEndpoint);
+    if (targets.has(key)) continue;
+
+    targets.set(key, {
+      key,
+      provider,
+      tenantId: config.tenantId,
+      endpoint: config.customEndpoint,
+      getAdapter: () => aiService.getAdapter(provider, config.tenantId, config),
+    });
+  }
+
+  return Array.from(targets.values());
+}
+
+async function probeTarget(target: HealthTarget): Promise<ProbeResult> {
+  const started = Date.now();
+  try {
+    const adapter = await target.getAdapter();
+    await withTimeout(adapter.probe(), PROBE_TIMEOUT_MS, `${target.provider} health check`);
+    return { ok: true, latencyMs: Date.now() - started };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - started,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Nearest-rank percentile of ascending values
+function percentile(sorted: number[], p: number): number | null {
+  if (!sorted.length) return null;
+  return sorted[Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0)];
+}
+
+function getStatus(consecutiveFailures: number, errorRate: number): ProviderHealthStatus {
+  if (consecutiveFailures >= DOWN_AFTER_FAILURES) return "down";
+  if (consecutiveFailures > 0 || errorRate > DEGRADED_ERROR_RATE) return "degraded";
+  return "up";
+}
+
+/**
+ * Store a probe result and recompute the target's status and statistics over the window
+ */
+async function recordProbe(target: HealthTarget, result: ProbeResult): Promise<HealthRecord> {
+  const now = new Date();
+
+  await db.insert(schema.providerHealthChecks).values({
+    targetKey: target.key,
+    ok: result.ok,
+    latencyMs: result.latencyMs,
+    error: result.error,
+    checkedAt: now,
+  });
+
+  const [checks, existing] = await Promise.all([
+    db.query.providerHealthChecks.findMany({
+      where: and(
+        eq(schema.providerHealthChecks.targetKey, target.key),
+        gte(schema.providerHealthChecks.checkedAt, new Date(now.getTime() - HEALTH_WINDOW_MS))
+      ),
+      columns: { ok: true, latencyMs: true },
+    }),
+    db.query.providerHealth.findFirst({
+      where: eq(schema.providerHealth.targetKey, target.key),
+    }),
+  ]);
+
+  const latencies = checks.filter((c) => c.ok).map((c) => c.latencyMs).sort((a, b) => a - b);
+  const errorRate = checks.length ? checks.filter((c) => !c.ok).length / checks.length : 0;
+  const consecutiveFailures = result.ok ? 0 : (existing?.consecutiveFailures ?? 0) + 1;
+  const status = getStatus(consecutiveFailures, errorRate);
+
+  const values = {
+    status,
+    latencyP50Ms: percentile(latencies, 50),
+    latencyP95Ms: percentile(latencies, 95),
+    latencyP99Ms: percentile(latencies, 99),
+    errorRate,
+    checkCount: checks.length,
+    consecutiveFailures,
+    lastCheckedAt: now,
+    updatedAt: now,
+    ...(result.ok ? {} : { lastError: result.error, lastErrorAt: now }),
+  };
+
+  let record: HealthRecord;
+  if (existing) {
+    [record] = await db.update(schema.providerHealth)
+      .set(values)
+      .where(eq(schema.providerHealth.id, existing.id))
+      .returning();
+  } else {
+    [record] = await db.insert(schema.providerHealth).values({
+      ...values,
+      targetKey: target.key,
+      provider: target.provider,
+      tenantId: target.tenantId,
+      endpoint: target.endpoint,
+    }).returning();
+  }
+
+  if (existing?.status !== status) {
+    console.warn(`Provider health: ${target.key} is now ${status}${result.error ? ` (${result.error})` : ""}`);
+  }
+
+  aiService.setProviderHealth(target.key, status);
+  return record;
+}
+
+async function checkAllTargets(): Promise<HealthRecord[]> {
+  const targets = await getHealthTargets();
+  const records = await Promise.all(
+    targets.map(async (target) => recordProbe(target, await probeTarget(target)))
+  );
+
+  const cutoff = new Date(Date.now() - HEALTH_WINDOW_MS);
+  await db.delete(schema.providerHealthChecks).where(lt(schema.providerHealthChecks.checkedAt, cutoff));
+
+  // Targets that are no longer configured drop off the health page
+  const keys = targets.map((t) => t.key);
+  await db.delete(schema.providerHealth).where(
+    keys.length ? notInArray(schema.providerHealth.targetKey, keys) : undefined
+  );
+  await db.delete(schema.providerHealthChecks).where(
+    keys.length ? notInArray(schema.providerHealthChecks.targetKey, keys) : undefined
+  );
+
+  return records;
+}
+
+/**
+ * Probe every target once and record the results.
+ * A run already in progress is shared rather than started again.
+ */
+export function runHealthChecks(): Promise<HealthRecord[]> {
+  if (!inFlight) {
+    inFlight = checkAllTargets().finally(() => {
+      inFlight = undefined;
+    });
+  }
+  return inFlight;
+}
+
+/**
+ * Start probing every `AI_HEALTH_CHECK_INTERVAL_MS`, beginning now.
+ * Statuses recorded by earlier runs are loaded first so the router
+ * keeps skipping down targets across restarts.
+ */
+export async function startHealthMonitor() {
+  if (monitor || HEALTH_CHECK_INTERVAL_MS <= 0) return;
+
+  const tick = () => {
+    runHealthChecks().catch((error) => console.error("Provider health checks failed:", error));
+  };
+  monitor = setInterval(tick, HEALTH_CHECK_INTERVAL_MS);
+  monitor.unref?.();
+
+  try {
+    const records = await db.query.providerHealth.findMany();
+    for (const record of records) {
+      aiService.setProviderHealth(record.targetKey, record.status as ProviderHealthStatus);
+    }
+  } catch (error) {
+    console.error("Failed to load provider health:", error);
+  }
+  tick();
+}
+
+/**
+ * Recorded health of every target, unhealthy ones first
+ */
+export async function listProviderHealth(): Promise<ProviderHealthSummary[]> {
+  const records = await db.query.providerHealth.findMany({
+    with: { tenant: { columns: { name: true } } },
+    orderBy: schema.providerHealth.targetKey,
+  });
+
+  records.sort((a, b) => (STATUS_ORDER[a.status] ?? 0) - (STATUS_ORDER[b.status] ?? 0));
+
+  return records.map((r) => ({
+    targetKey: r.targetKey,
+    provider: r.provider,
+    tenantId: r.tenantId,
+    tenantName: r.tenant?.name ?? null,
+    endpoint: r.endpoint,
+    status: r.status,
+    latencyP50Ms: r.latencyP50Ms,
+    latencyP95Ms: r.latencyP95Ms,
+    latencyP99Ms: r.latencyP99Ms,
+    errorRate: r.errorRate,
+    checkCount: r.checkCount,
+    consecutiveFailures: r.consecutiveFailures,
+    lastError: r.lastError,
+    lastErrorAt: r.lastErrorAt ? r.lastErrorAt.toISOString() : null,
+    lastCheckedAt: r.lastCheckedAt.toISOString(),
+  }));
+}
@@ -0,0 +1,178 @@
+import { and, eq } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import { formatErrorResponse, ModelUnavailableError } from "@/lib/utils/errors";
+import { OllamaAdapter, OllamaModelInfo, OllamaPullProgress } from "./adapters/ollama";
+import { aiService } from "./service";
+
+type ModelRecord = typeof schema.aiModels.$inferSelect;
+
+// Ollama capability names mapped to the ones stored in `ai_models.capabilities`
+const CAPABILITY_NAMES: Record<string, string> = {
+  completion: "chat",
+  embedding: "embeddings",
+  vision: "vision",
+  tools: "tools",
+};
+
+/**
+ * An installed Ollama model alongside its registry entry, if any
+ */
+export interface LocalModelSummary {
+  name: string;
+  size: number;
+  modifiedAt: string;
+  family: string | null;
+  parameterSize: string | null;
+  quantization: string | null;
+  contextWindow: number | null;
+  registered: boolean;
+  status: ModelRecord["status"] | null;
+}
+
+export type PullEvent =
+  | ({ type: "progress" } & OllamaPullProgress)
+  | { type: "done"; model: ModelRecord }
+  | { type: "error"; message: string; code?: string; statusCode: number };
+
+async function getOllamaAdapter(): Promise<OllamaAdapter> {
+  const adapter = await aiService.getAdapter("ollama");
+  if (!(adapter instanceof OllamaAdapter)) {
+    throw new ModelUnavailableError("Provider ollama is not configured");
+  }
+  return adapter;
+}
+
+async function findRegistryRecord(name: string): Promise<ModelRecord | undefined> {
+  return db.query.aiModels.findFirst({
+    where: and(eq(schema.aiModels.provider, "ollama"), eq(schema.aiModels.modelId, name)),
+  });
+}
+
+/**
+ * Installed models with the registry state of each
+ */
+export async function listOllamaModels(): Promise<LocalModelSummary[]> {
+  const adapter = await getOllamaAdapter();
+  const [local, records] = await Promise.all([
+    adapter.listLocalModels(),
+    db.query.aiModels.findMany({ where: eq(schema.aiModels.provider, "ollama") }),
+  ]);
+
+  const registry = new Map(records.map((r) => [r.modelId, r]));
+
+  return local.map((m) => {
+    const record = registry.get(m.name);
+    return {
+      name: m.name,
+      size: m.size,
+      modifiedAt: m.modifiedAt,
+      family: m.family ?? null,
+      parameterSize: m.parameterSize ?? null,
+      quantization: m.quantization ?? null,
+      contextWindow: record?.contextWindow ?? null,
+      registered: record?.status === "active",
+      status: record?.status ?? null,
+    };
+  });
+}
+
+export async function showOllamaModel(name: string): Promise<OllamaModelInfo> {
+  const adapter = await getOllamaAdapter();
+  return adapter.showModel(name);
+}
+
+/**
+ * Create or update the `ai_models` entry for an installed model from `/api/show`.
+ * Display name and costs set by an admin are kept; a model retired by uninstalling
+ * is reactivated, a deprecated one stays deprecated.
+ */
+export async function registerOllamaModel(name: string): Promise<ModelRecord> {
+  const info = await showOllamaModel(name);
+  const existing = await findRegistryRecord(name);
+
+  const capabilities = Array.from(
+    new Set(info.capabilities.map((c) => CAPABILITY_NAMES[c]).filter(Boolean))
+  );
+  const values = {
+    contextWindow: info.contextWindow,
+    capabilities,
+    supportsStreaming: true,
+    supportsVision: info.capabilities.includes("vision"),
+    supportsFunctionCalling: info.capabilities.includes("tools"),
+    configuration: {
+      ...existing?.configuration,
+      family: info.family,
+      parameterSize: info.parameterSize,
+      quantization: info.quantization,
+      parameters: info.parameters,
+    },
+    updatedAt: new Date(),
+  };
+
+  let record: ModelRecord;
+  if (existing) {
+    [record] = await db.update(schema.aiModels)
+      .set({ ...values, status: existing.status === "deprecated" ? "deprecated" : "active" })
+      .where(eq(schema.aiModels.id, existing.id))
+      .returning();
+  } else {
+    [record] = await db.insert(schema.aiModels).values({
+      ...values,
+      name,
+      displayName: name,
+      provider: "ollama",
+      modelId: name,
+      status: "active",
+    }).returning();
+  }
+
+  aiService.invalidateCatalogs();
+  return record;
+}
+
+/**
+ * Pull a model, forwarding the server's progress, then register it.
+ * Failures end the stream with an error event rather than throwing.
+ */
+export async function* pullOllamaModel(name: string): AsyncGenerator<PullEvent> {
+  try {
+    const adapter = await getOllamaAdapter();
+    for await (const progress of adapter.pullModel(name)) {
+      yield { type: "progress", ...progress };
+    }
+
+    const model = await registerOllamaModel(name);
+    yield { type: "done", model };
+  } catch (error) {
+    console.error(`Ollama pull of ${name} failed:`, error);
+    yield { type: "error", ...formatErrorResponse(error).error };
+  }
+}
+
+/**
+ * Remove a model from the server and mark its registry entry inactive, so
+ * existing conversations referencing it fail cleanly instead of at the provider
+ */
+export async function deleteOllamaModel(name: string): Promise<void> {
+  const adapter = await getOllamaAdapter();
+  await adapter.deleteModel(name);
+
+  await db.update(schema.aiModels)
+    .set({ status: "inactive", updatedAt: new Date() })
+    .where(and(
+      eq(schema.aiModels.provider, "ollama"),
+      eq(schema.aiModels.modelId, name),
+      eq(schema.aiModels.status, "active")
+    ));
+
+  aiService.invalidateCatalogs();
+}
+
+/**
+ * Copy a model under a new name and register the copy
+ */
+export async function copyOllamaModel(source: string, destination: string): Promise<ModelRecord> {
+  const adapter = await getOllamaAdapter();
+  await adapter.copyModel(source, destination);
+  return registerOllamaModel(destination);
+}
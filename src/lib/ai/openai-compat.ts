@@ -0,0 +1,414 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { db, schema } from "@/db/query";
+import { and, eq } from "drizzle-orm";
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessageToolCall,
+} from "openai/resources/chat/completions";
+import type { Model } from "openai/resources/models";
+import { aiService } from "./service";
+import { SUPPORTED_IMAGE_TYPES, getTextContent } from "./content";
+import { estimateTokens } from "./tokens";
+import { accumulateToolCalls } from "./tools";
+import {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ContentPart,
+  ResponseFormat,
+  StreamChunk,
+  TokenUsage,
+  ToolCall,
+  ToolChoice,
+} from "./types";
+import { formatErrorResponse, ValidationError } from "@/lib/utils/errors";
+
+type ModelRecord = typeof schema.aiModels.$inferSelect;
+type TenantModelConfigRecord = typeof schema.tenantModelConfigs.$inferSelect & { model: ModelRecord };
+
+/**
+ * Data URLs are the only image source we accept; remote URLs are never fetched
+ */
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.+)$/;
+
+const contentPartSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({
+    type: z.literal("image_url"),
+    image_url: z.object({ url: z.string(), detail: z.string().optional() }),
+  }),
+]);
+
+const toolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal("function"),
+  function: z.object({ name: z.string(), arguments: z.string() }),
+});
+
+const messageSchema = z.discriminatedUnion("role", [
+  z.object({ role: z.enum(["system", "developer"]), content: z.union([z.string(), z.array(contentPartSchema)]) }),
+  z.object({ role: z.literal("user"), content: z.union([z.string(), z.array(contentPartSchema)]) }),
+  z.object({
+    role: z.literal("assistant"),
+    content: z.union([z.string(), z.array(contentPartSchema)]).nullable().optional(),
+    tool_calls: z.array(toolCallSchema).optional(),
+  }),
+  z.object({ role: z.literal("tool"), content: z.union([z.string(), z.array(contentPartSchema)]), tool_call_id: z.string() }),
+]);
+
+/**
+ * The subset of OpenAI's chat completion parameters we support.
+ * Unknown parameters are ignored, as OpenAI-compatible servers commonly do.
+ */
+export const chatCompletionRequestSchema = z.object({
+  model: z.string().min(1),
+  messages: z.array(messageSchema).min(1),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  top_p: z.number().min(0).max(1).nullable().optional(),
+  max_tokens: z.number().int().positive().nullable().optional(),
+  max_completion_tokens: z.number().int().positive().nullable().optional(),
+  frequency_penalty: z.number().min(-2).max(2).nullable().optional(),
+  presence_penalty: z.number().min(-2).max(2).nullable().optional(),
+  n: z.literal(1).nullable().optional(),
+  stream: z.boolean().nullable().optional(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullable().optional(),
+  tools: z
+    .array(
+      z.object({
+        type: z.literal("function"),
+        function: z.object({
+          name: z.string().min(1),
+          description: z.string().optional(),
+          parameters: z.record(z.string(), z.unknown()).optional(),
+        }),
+      })
+    )
+    .optional(),
+  tool_choice: z
+    .union([
+      z.enum(["auto", "none", "required"]),
+      z.object({ type: z.literal("function"), function: z.object({ name: z.string() }) }),
+    ])
+    .optional(),
+  response_format: z
+    .discriminatedUnion("type", [
+      z.object({ type: z.literal("text") }),
+      z.object({ type: z.literal("json_object") }),
+      z.object({
+        type: z.literal("json_schema"),
+        json_schema: z.object({
+          name: z.string(),
+          schema: z.record(z.string(), z.unknown()).optional(),
+        }),
+      }),
+    ])
+    .optional(),
+});
+
+export type ChatCompletionRequest = z.infer<typeof chatCompletionRequestSchema>;
+
+type OpenAIContent = ChatCompletionRequest["messages"][number]["content"];
+
+function toContentParts(content: NonNullable<OpenAIContent>): string | ContentPart[] {
+  if (typeof content === "string") return content;
+
+  return content.map((part): ContentPart => {
+    if (part.type === "text") return { type: "text", text: part.text };
+
+    const match = part.image_url.url.match(DATA_URL_PATTERN);
+    if (!match || !(SUPPORTED_IMAGE_TYPES as readonly string[]).includes(match[1])) {
+      throw new ValidationError("Images must be base64 data URLs (PNG, JPEG, GIF or WebP)");
+    }
+    return { type: "image", mimeType: match[1], data: match[2] };
+  });
+}
+
+function toMessages(messages: ChatCompletionRequest["messages"]): ChatMessage[] {
+  // Tool results only carry the call id; our messages also name the tool
+  const toolNames = new Map<string, string>();
+
+  return messages.map((m): ChatMessage => {
+    switch (m.role) {
+      case "system":
+      case "developer":
+        return { role: "system", content: getTextContent(toContentParts(m.content)) };
+      case "user":
+        return { role: "user", content: toContentParts(m.content) };
+      case "assistant": {
+        const toolCalls = m.tool_calls?.map((call): ToolCall => {
+          toolNames.set(call.id, call.function.name);
+          return { id: call.id, name: call.function.name, arguments: call.function.arguments };
+        });
+        return {
+          role: "assistant",
+          content: m.content ? getTextContent(toContentParts(m.content)) : "",
+          ...(toolCalls?.length ? { tool_calls: toolCalls } : {}),
+        };
+      }
+      case "tool":
+        return {
+          role: "function",
+          content: getTextContent(toContentParts(m.content)),
+          toolCallId: m.tool_call_id,
+          name: toolNames.get(m.tool_call_id),
+        };
+    }
+  });
+}
+
+function toToolChoice(choice: ChatCompletionRequest["tool_choice"]): ToolChoice | undefined {
+  if (!choice || typeof choice === "string") return choice;
+  return { name: choice.function.name };
+}
+
+function toResponseFormat(format: ChatCompletionRequest["response_format"]): ResponseFormat | undefined {
+  if (!format || format.type === "text") return undefined;
+  if (format.type === "json_object") return { type: "json_schema", name: "response", schema: { type: "object" } };
+  return {
+    type: "json_schema",
+    name: format.json_schema.name,
+    schema: format.json_schema.schema || { type: "object" },
+  };
+}
+
+/**
+ * Translate an OpenAI chat completion request into an `aiService` request
+ */
+export function toChatRequest(body: ChatCompletionRequest, userId: string): ChatRequest {
+  return {
+    model: body.model,
+    messages: toMessages(body.messages),
+    temperature: body.temperature ?? undefined,
+    topP: body.top_p ?? undefined,
+    maxTokens: body.max_completion_tokens ?? body.max_tokens ?? undefined,
+    frequencyPenalty: body.frequency_penalty ?? undefined,
+    presencePenalty: body.presence_penalty ?? undefined,
+    stream: body.stream ?? undefined,
+    user: userId,
+    tools: body.tools?.map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters || { type: "object", properties: {} },
+    })),
+    toolChoice: toToolChoice(body.tool_choice),
+    responseFormat: toResponseFormat(body.response_format),
+  };
+}
+
+function toOpenAIUsage(usage: TokenUsage): NonNullable<ChatCompletion["usage"]> {
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.totalTokens,
+  };
+}
+
+/**
+ * Usage reported by the provider, or an estimate when it reports none,
+ * so clients can always account for their requests
+ */
+function usageOrEstimate(request: ChatRequest, completion: string, usage?: TokenUsage): TokenUsage {
+  if (usage) return usage;
+
+  const promptTokens = request.messages.reduce((sum, m) => sum + estimateTokens(getTextContent(m.content)), 0);
+  const completionTokens = estimateTokens(completion);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+function toOpenAIToolCalls(calls: ToolCall[]): ChatCompletionMessageToolCall[] {
+  return calls.map((call) => ({
+    id: call.id,
+    type: "function",
+    function: { name: call.name, arguments: call.arguments },
+  }));
+}
+
+function completionId(): string {
+  return `chatcmpl-${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Run a request and shape the reply as an OpenAI `chat.completion` object.
+ * `model` is the registry id of the model that answered, which differs from
+ * the requested one when the tenant's fallback chain stepped in.
+ */
+export async function createChatCompletion(request: ChatRequest, tenantId: string): Promise<ChatCompletion> {
+  const response: ChatResponse = await aiService.generateResponse(request, tenantId);
+  const content = response.parsed !== undefined ? JSON.stringify(response.parsed) : response.content;
+  const toolCalls = response.toolCalls?.length ? toOpenAIToolCalls(response.toolCalls) : undefined;
+
+  return {
+    id: completionId(),
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: response.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: toolCalls && !content ? null : content,
+          refusal: null,
+          ...(toolCalls ? { tool_calls: toolCalls } : {}),
+        },
+        logprobs: null,
+        finish_reason: toolCalls ? "tool_calls" : response.finishReason || "stop",
+      },
+    ],
+    usage: toOpenAIUsage(usageOrEstimate(request, response.content, response.usage)),
+  };
+}
+
+/**
+ * Stream a request as OpenAI `chat.completion.chunk` objects followed by the
+ * `[DONE]` sentinel. The first chunk carries the assistant role, the last choice
+ * chunk the finish reason; with `includeUsage` a final chunk with empty `choices`
+ * carries token usage, as OpenAI's `stream_options.include_usage` does.
+ * A failure after the stream opens is sent as an `error` object and ends the stream.
+ */
+export async function* streamChatCompletion(
+  request: ChatRequest,
+  tenantId: string,
+  options: { includeUsage?: boolean } = {}
+): AsyncGenerator<ChatCompletionChunk | { error: OpenAIError } | "[DONE]"> {
+  const id = completionId();
+  const created = Math.floor(Date.now() / 1000);
+  const usageField = options.includeUsage ? { usage: null } : {};
+  let model = request.model;
+  let usage: TokenUsage | undefined;
+  let content = "";
+  let started = false;
+  const toolCalls = new Map<number, ToolCall>();
+  // Providers index deltas their own way (Anthropic by content block); clients
+  // expect each tool call numbered from 0 in the order it starts
+  const toolIndices = new Map<number, number>();
+  const toolIndex = (index: number) => {
+    if (!toolIndices.has(index)) toolIndices.set(index, toolIndices.size);
+    return toolIndices.get(index)!;
+  };
+
+  const chunk = (
+    delta: ChatCompletionChunk.Choice.Delta,
+    finishReason: ChatCompletionChunk.Choice["finish_reason"] = null
+  ): ChatCompletionChunk => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{ index: 0, delta, logprobs: null, finish_reason: finishReason }],
+    ...usageField,
+  });
+
+  try {
+    for await (const part of aiService.streamResponse({ ...request, stream: true }, tenantId) as AsyncIterable<StreamChunk>) {
+      if (part.model) model = part.model;
+      if (part.usage) usage = part.usage;
+
+      if (!started) {
+        started = true;
+        yield chunk({ role: "assistant", content: "", refusal: null });
+      }
+
+      if (part.toolCalls?.length) {
+        accumulateToolCalls(toolCalls, part.toolCalls);
+        yield chunk({
+          tool_calls: part.toolCalls.map((call) => ({
+            index: toolIndex(call.index),
+            ...(call.id ? { id: call.id, type: "function" as const } : {}),
+            function: {
+              ...(call.name ? { name: call.name } : {}),
+              ...(call.arguments !== undefined ? { arguments: call.arguments } : {}),
+            },
+          })),
+        });
+      }
+
+      if (part.content) {
+        content += part.content;
+        yield chunk({ content: part.content });
+      }
+    }
+
+    if (!started) yield chunk({ role: "assistant", content: "", refusal: null });
+    yield chunk({}, toolCalls.size > 0 ? "tool_calls" : "stop");
+
+    if (options.includeUsage) {
+      yield {
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model,
+        choices: [],
+        usage: toOpenAIUsage(usageOrEstimate(request, content, usage)),
+      };
+    }
+
+    yield "[DONE]";
+  } catch (error) {
+    console.error("Chat completion stream failed:", error);
+    yield { error: toOpenAIError(error).error };
+  }
+}
+
+/**
+ * Error body in OpenAI's format, so SDKs surface our messages and codes
+ */
+export interface OpenAIError {
+  message: string;
+  type: string;
+  param: string | null;
+  code: string | null;
+}
+
+const ERROR_TYPES: Record<number, string> = {
+  400: "invalid_request_error",
+  401: "authentication_error",
+  403: "permission_error",
+  404: "invalid_request_error",
+  409: "invalid_request_error",
+  429: "rate_limit_error",
+};
+
+export function toOpenAIError(error: unknown): { status: number; error: OpenAIError } {
+  const { error: formatted } = formatErrorResponse(error);
+  const status = formatted.statusCode || 500;
+
+  return {
+    status,
+    error: {
+      message: formatted.message,
+      type: ERROR_TYPES[status] || "api_error",
+      param: null,
+      code: formatted.code ? formatted.code.toLowerCase() : null,
+    },
+  };
+}
+
+function toOpenAIModel(config: TenantModelConfigRecord): Model {
+  return {
+    id: config.model.modelId,
+    object: "model",
+    created: Math.floor(config.model.createdAt.getTime() / 1000),
+    owned_by: config.model.provider,
+  };
+}
+
+/**
+ * Models the tenant has enabled, in OpenAI's model object format
+ */
+export async function listTenantModels(tenantId: string): Promise<Model[]> {
+  const configs = await db.query.tenantModelConfigs.findMany({
+    where: and(
+      eq(schema.tenantModelConfigs.tenantId, tenantId),
+      eq(schema.tenantModelConfigs.isEnabled, true)
+    ),
+    with: { model: true },
+  });
+
+  return configs
+    .filter((config) => config.model?.status === "active")
+    .map(toOpenAIModel)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
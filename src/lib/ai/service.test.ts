@@ -0,0 +1,369 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import { encrypt } from "@/lib/utils/encryption";
+import { ModelUnavailableError, NotFoundError, StructuredOutputError } from "@/lib/utils/errors";
+import { createAccount, createModel, createTenantModelConfig } from "@/test/fixtures";
+import { sendJson, startStandIn } from "@/test/server";
+import type { BaseAIAdapter } from "./adapters/base";
+import { aiService, providerHealthKey } from "./service";
+import type { EmbeddingRequest, EmbeddingResponse } from "./types";
+import { getUsageSummary } from "./usage";
+
+// Platform providers are configured when the service module loads
+vi.hoisted(() => {
+  process.env.OPENAI_API_KEY = "sk-platform-secret";
+  process.env.AI_REQUEST_TIMEOUT_MS = "300";
+});
+
+function completion(content: string) {
+  return {
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 0,
+    model: "gpt-test",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  };
+}
+
+async function setup(config: { apiKey?: string; endpoint?: string } = {}) {
+  const { tenant } = await createAccount();
+  const model = await createModel({ provider: "openai", modelId: `gpt-${tenant.id}` });
+  await createTenantModelConfig({
+    tenantId: tenant.id,
+    modelId: model.id,
+    encryptedApiKey: config.apiKey ? encrypt(config.apiKey) : null,
+    customEndpoint: config.endpoint ?? null,
+  });
+  const ask = () =>
+    aiService.generateResponse({ model: model.modelId, messages: [{ role: "user", content: "Hi" }] }, tenant.id);
+  return { tenant, model, ask };
+}
+
+describe("tenant credentials", () => {
+  let server: Awaited<ReturnType<typeof startStandIn>>;
+
+  beforeAll(async () => {
+    server = await startStandIn((_, res) => sendJson(res, completion("Hello from the tenant endpoint")));
+  });
+
+  afterAll(() => server.close());
+
+  it("never sends the platform key to a tenant's endpoint", async () => {
+    const { ask } = await setup({ endpoint: `${server.url}/v1` });
+    const before = server.requests.length;
+
+    const response = await ask();
+
+    expect(response.content).toBe("Hello from the tenant endpoint");
+    const sent = server.requests.slice(before);
+    expect(sent).toHaveLength(1);
+    expect(JSON.stringify(sent[0].headers)).not.toContain("sk-platform-secret");
+  });
+
+  it("sends the tenant's own key to its endpoint", async () => {
+    const { ask } = await setup({ apiKey: "sk-tenant-key", endpoint: `${server.url}/v1` });
+
+    await ask();
+
+    expect(server.requests.at(-1)?.headers.authorization).toBe("Bearer sk-tenant-key");
+  });
+
+  it("shares the platform adapter with tenants that have no credentials of their own", async () => {
+    const { tenant } = await setup();
+
+    expect(await aiService.getAdapter("openai", tenant.id)).toBe(await aiService.getAdapter("openai"));
+  });
+
+  it("refuses platform credentials to tenants that opted out of site models", async () => {
+    const { tenant, ask } = await setup();
+    await db.update(schema.tenants)
+      .set({ configuration: { features: { siteModelsEnabled: false } } })
+      .where(eq(schema.tenants.id, tenant.id));
+
+    await expect(aiService.getAdapter("openai", tenant.id)).rejects.toBeInstanceOf(ModelUnavailableError);
+    await expect(ask()).rejects.toBeInstanceOf(ModelUnavailableError);
+  });
+});
+
+describe("circuit breakers and timeouts", () => {
+  let server: Awaited<ReturnType<typeof startStandIn>>;
+  // What each endpoint path answers with, keyed by its first path segment
+  const modes = new Map<string, "ok" | "down" | "invalid" | "hang">();
+  const aborted: string[] = [];
+
+  beforeAll(async () => {
+    server = await startStandIn(async (request, res) => {
+      const name = request.path.split("/")[1];
+      const mode = modes.get(name) ?? "ok";
+      if (mode === "down" || mode === "invalid") {
+        // Fail at once instead of waiting out the SDK's retries
+        res.writeHead(mode === "down" ? 503 : 400, { "Content-Type": "application/json", "x-should-retry": "false" })
+          .end(JSON.stringify({ error: { message: mode } }));
+      } else if (mode === "hang") {
+        await new Promise((resolve) => res.on("close", resolve));
+        aborted.push(name);
+      } else {
+        sendJson(res, completion("Hello"));
+      }
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => server.close());
+
+  async function setupEndpoint(name: string) {
+    const endpoint = `${server.url}/${name}/v1`;
+    const account = await setup({ endpoint });
+    const breaker = aiService.getBreaker(providerHealthKey("openai", account.tenant.id, endpoint));
+    return { ...account, breaker };
+  }
+
+  it("opens the circuit only for the failing tenant endpoint", async () => {
+    const failing = await setupEndpoint("failing");
+    const healthy = await setupEndpoint("healthy");
+    modes.set("failing", "down");
+
+    for (let i = 0; i < 5; i++) {
+      await expect(failing.ask()).rejects.toMatchObject({ status: 503 });
+    }
+    const before = server.requests.length;
+
+    await expect(failing.ask()).rejects.toBeInstanceOf(ModelUnavailableError);
+    expect(server.requests.length).toBe(before);
+    expect(failing.breaker.getState()).toBe("open");
+
+    await expect(healthy.ask()).resolves.toMatchObject({ content: "Hello" });
+    expect(aiService.getBreaker(providerHealthKey("openai")).getState()).toBe("closed");
+  });
+
+  it("keeps a half-open circuit half-open when the probe is rejected as invalid", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { ask, breaker } = await setupEndpoint("probed");
+    modes.set("probed", "down");
+    for (let i = 0; i < 5; i++) {
+      await expect(ask()).rejects.toMatchObject({ status: 503 });
+    }
+
+    vi.setSystemTime(Date.now() + 30000);
+    modes.set("probed", "invalid");
+    await expect(ask()).rejects.toMatchObject({ status: 400 });
+    expect(breaker.getState()).toBe("half-open");
+
+    // The probe slot is free again, and a successful probe closes the circuit
+    modes.set("probed", "ok");
+    await expect(ask()).resolves.toMatchObject({ content: "Hello" });
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("aborts the provider request when it times out", async () => {
+    const { ask } = await setupEndpoint("slow");
+    modes.set("slow", "hang");
+
+    await expect(ask()).rejects.toThrow(/timed out/);
+    await vi.waitFor(() => expect(aborted).toContain("slow"));
+  });
+});
+
+describe("model catalog", () => {
+  let server: Awaited<ReturnType<typeof startStandIn>>;
+
+  beforeAll(async () => {
+    server = await startStandIn((request, res) => {
+      if (request.path.startsWith("/openai/")) {
+        res.writeHead(503, { "Content-Type": "application/json", "x-should-retry": "false" })
+          .end(JSON.stringify({ error: { message: "Service unavailable" } }));
+      } else if (request.path.startsWith("/cohere/")) {
+        sendJson(res, { message: "invalid api token" }, 401);
+      } else {
+        sendJson(res, { models: [] });
+      }
+    });
+  });
+
+  afterAll(() => server.close());
+
+  it("reports providers that fail to list models as failed, and reachable empty ones as ok", async () => {
+    const { tenant } = await createAccount();
+    for (const provider of ["openai", "ollama", "cohere"] as const) {
+      const model = await createModel({ provider });
+      await createTenantModelConfig({
+        tenantId: tenant.id,
+        modelId: model.id,
+        encryptedApiKey: encrypt("tenant-key"),
+        customEndpoint: `${server.url}/${provider}${provider === "openai" ? "/v1" : ""}`,
+      });
+    }
+
+    const { providers } = await aiService.refreshModels(tenant.id);
+
+    expect(providers.openai).toMatchObject({ ok: false, count: 0, error: expect.any(String) });
+    expect(providers.cohere).toMatchObject({ ok: false, count: 0, error: expect.stringContaining("Cohere") });
+    expect(providers.ollama).toEqual({ ok: true, count: 0 });
+  });
+});
+
+describe("structured output", () => {
+  let server: Awaited<ReturnType<typeof startStandIn>>;
+
+  beforeAll(async () => {
+    server = await startStandIn((_, res) => sendJson(res, completion("Sorry, no JSON today")));
+  });
+
+  afterAll(() => server.close());
+
+  it("meters the tokens of every attempt when the reply never validates", async () => {
+    const { tenant, model } = await setup({ endpoint: `${server.url}/v1` });
+    const before = server.requests.length;
+
+    await expect(
+      aiService.generateResponse(
+        {
+          model: model.modelId,
+          messages: [{ role: "user", content: "Hi" }],
+          responseFormat: { type: "json_schema", name: "answer", schema: { type: "object", required: ["answer"] } },
+        },
+        tenant.id
+      )
+    ).rejects.toBeInstanceOf(StructuredOutputError);
+
+    expect(server.requests.length - before).toBe(3);
+    expect(await getUsageSummary(tenant.id, new Date())).toEqual([
+      { modelId: model.modelId, requestCount: 1, inputTokens: 3, outputTokens: 3, totalCost: 0 },
+    ]);
+  });
+});
+
+describe("model resolution", () => {
+  let server: Awaited<ReturnType<typeof startStandIn>>;
+
+  beforeAll(async () => {
+    server = await startStandIn((request, res) => {
+      if (request.path.startsWith("/down/")) {
+        res.writeHead(503, { "Content-Type": "application/json", "x-should-retry": "false" })
+          .end(JSON.stringify({ error: { message: "Service unavailable" } }));
+      } else {
+        sendJson(res, completion("Hello from the fallback"));
+      }
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterAll(() => server.close());
+
+  it("rejects models missing from the registry", async () => {
+    await expect(aiService.resolveModel("no-such-model")).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it.each(["inactive", "deprecated"] as const)("rejects %s models", async (status) => {
+    const model = await createModel({ status });
+
+    await expect(aiService.resolveModel(model.modelId)).rejects.toThrow(
+      new ModelUnavailableError(`Model "${model.modelId}" is ${status} and can no longer be used`)
+    );
+  });
+
+  it("rejects models the tenant has not enabled, but not for platform calls", async () => {
+    const { tenant } = await createAccount();
+    const missing = await createModel();
+    const disabled = await createModel();
+    await createTenantModelConfig({ tenantId: tenant.id, modelId: disabled.id, isEnabled: false });
+
+    await expect(aiService.resolveModel(missing.modelId, tenant.id)).rejects.toBeInstanceOf(ModelUnavailableError);
+    await expect(aiService.resolveModel(disabled.modelId, tenant.id)).rejects.toBeInstanceOf(ModelUnavailableError);
+    await expect(aiService.resolveModel(disabled.modelId)).resolves.toMatchObject({
+      provider: "openai",
+      tenantConfig: undefined,
+    });
+  });
+
+  it("skips fallbacks that do not resolve and answers with the next usable one", async () => {
+    const { tenant } = await createAccount();
+    const primary = await createModel();
+    const deprecated = await createModel({ status: "deprecated" });
+    const disabled = await createModel();
+    const fallback = await createModel();
+    await createTenantModelConfig({
+      tenantId: tenant.id,
+      modelId: primary.id,
+      customEndpoint: `${server.url}/down/v1`,
+      overrideConfiguration: {
+        fallbackModels: ["no-such-model", deprecated.modelId, disabled.modelId, fallback.modelId],
+      },
+    });
+    await createTenantModelConfig({ tenantId: tenant.id, modelId: disabled.id, isEnabled: false });
+    await createTenantModelConfig({ tenantId: tenant.id, modelId: fallback.id, customEndpoint: `${server.url}/up/v1` });
+    const before = server.requests.length;
+
+    const response = await aiService.generateResponse(
+      { model: primary.modelId, messages: [{ role: "user", content: "Hi" }] },
+      tenant.id
+    );
+
+    expect(response).toMatchObject({ model: fallback.modelId, content: "Hello from the fallback" });
+    expect(server.requests.slice(before).map((r) => r.path.split("/")[1])).toEqual(["down", "up"]);
+  });
+
+  it("skips a model whose endpoint health checks marked down in favour of the next fallback", async () => {
+    const { tenant } = await createAccount();
+    const primary = await createModel();
+    const fallback = await createModel();
+    const endpoint = `${server.url}/unhealthy/v1`;
+    await createTenantModelConfig({
+      tenantId: tenant.id,
+      modelId: primary.id,
+      customEndpoint: endpoint,
+      overrideConfiguration: { fallbackModels: [fallback.modelId] },
+    });
+    await createTenantModelConfig({ tenantId: tenant.id, modelId: fallback.id, customEndpoint: `${server.url}/up/v1` });
+    aiService.setProviderHealth(providerHealthKey("openai", tenant.id, endpoint), "down");
+    const before = server.requests.length;
+
+    const response = await aiService.generateResponse(
+      { model: primary.modelId, messages: [{ role: "user", content: "Hi" }] },
+      tenant.id
+    );
+
+    expect(response.model).toBe(fallback.modelId);
+    expect(server.requests.slice(before).map((r) => r.path.split("/")[1])).toEqual(["up"]);
+  });
+});
+
+describe("embeddings", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends inputs in batches and returns one vector per input, in order", async () => {
+    const { tenant } = await createAccount();
+    const model = await createModel({ capabilities: ["embeddings"] });
+    await createTenantModelConfig({ tenantId: tenant.id, modelId: model.id });
+    const embed = vi.fn(async (request: EmbeddingRequest): Promise<EmbeddingResponse> => ({
+      model: request.model,
+      embeddings: request.input.map((text) => [Number(text)]),
+      usage: { promptTokens: request.input.length, completionTokens: 0, totalTokens: request.input.length },
+    }));
+    vi.spyOn(aiService, "getAdapter").mockResolvedValue({ embed } as unknown as BaseAIAdapter);
+    const texts = Array.from({ length: 250 }, (_, i) => String(i));
+
+    const response = await aiService.embed(texts, { model: model.modelId, tenantId: tenant.id });
+
+    expect(embed.mock.calls.map(([request]) => request.input.length)).toEqual([100, 100, 50]);
+    expect(response.embeddings).toEqual(texts.map((text) => [Number(text)]));
+    expect(response.usage).toEqual({ promptTokens: 250, completionTokens: 0, totalTokens: 250 });
+    expect(await getUsageSummary(tenant.id, new Date())).toEqual([
+      { modelId: model.modelId, requestCount: 1, inputTokens: 250, outputTokens: 0, totalCost: 0 },
+    ]);
+  });
+
+  it("rejects models that do not produce embeddings", async () => {
+    const model = await createModel({ capabilities: ["chat"] });
+
+    await expect(aiService.embed(["text"], { model: model.modelId })).rejects.toBeInstanceOf(ModelUnavailableError);
+  });
+});
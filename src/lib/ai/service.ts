@@ -1,101 +1,737 @@
-import { BaseAIAdapter } from "./adapters/base";
+import { AdapterConfig, BaseAIAdapter } from "./adapters/base";
 import { OpenAIAdapter } from "./adapters/openai";
 import { OllamaAdapter } from "./adapters/ollama";
 import { CustomAdapter } from "./adapters/custom";
 import { AnthropicAdapter } from "./adapters/anthropic";
-import { AIModel, ChatRequest, ChatResponse, StreamChunk } from "./types";
-import { db, schema } from "@/db";
-import { eq } from "drizzle-orm";
+import { CohereAdapter } from "./adapters/cohere";
+import {
+  AIModel,
+  AIProvider,
+  ChatRequest,
+  ChatResponse,
+  EmbeddingResponse,
+  StreamChunk,
+  TokenUsage,
+} from "./types";
+import { db, schema } from "@/db/query";
+import type { ProviderHealthStatus } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { AppError, ModelUnavailableError, NotFoundError, StructuredOutputError } from "@/lib/utils/errors";
+import { decrypt } from "@/lib/utils/encryption";
+import { getTenantConfig } from "@/lib/tenants/configuration";
+import { CircuitBreaker } from "./circuit-breaker";
+import { recordUsage, reserveRequest } from "./usage";
+import { hasImageContent } from "./content";
+import { addUsage } from "./tokens";
+import { chatStructured } from "./structured";
+
+// How long a provider may take to answer (or to start streaming) before failing over
+const REQUEST_TIMEOUT_MS = Number(process.env.AI_REQUEST_TIMEOUT_MS) || 60000;
+// How long a fetched model catalog is reused, and how long each provider may take to list models
+const CATALOG_TTL_MS = Number(process.env.AI_CATALOG_TTL_MS) || 5 * 60 * 1000;
+const CATALOG_TIMEOUT_MS = 5000;
+const CATALOG_PROVIDERS: AIProvider[] = ["openai", "anthropic", "ollama", "cohere", "custom"];
+// Embedding model used when the caller doesn't pick one, and inputs sent per provider call
+const DEFAULT_EMBEDDING_MODEL = process.env.AI_EMBEDDING_MODEL || "text-embedding-3-small";
+const EMBEDDING_BATCH_SIZE = 100;
+
+type ModelRecord = typeof schema.aiModels.$inferSelect;
+type TenantModelConfigRecord = typeof schema.tenantModelConfigs.$inferSelect;
+
+/**
+ * A requested model id resolved against the `ai_models` registry
+ */
+export interface ResolvedModel {
+  model: AIModel;
+  provider: AIProvider;
+  record: ModelRecord;
+  tenantConfig?: TenantModelConfigRecord;
+}
+
+export interface ProviderCatalogStatus {
+  ok: boolean;
+  count: number;
+  error?: string;
+}
+
+/**
+ * Live provider model lists merged with `ai_models` metadata
+ */
+export interface ModelCatalog {
+  models: AIModel[];
+  providers: Partial<Record<AIProvider, ProviderCatalogStatus>>;
+  fetchedAt: number;
+}
+
+function toAIModel(record: ModelRecord): AIModel {
+  return {
+    id: record.modelId,
+    name: record.displayName,
+    provider: record.provider as AIProvider,
+    contextWindow: record.contextWindow ?? 4096,
+    maxOutputTokens: record.maxOutputTokens ?? undefined,
+    costPer1kInput: record.costPer1kInputTokens ?? undefined,
+    costPer1kOutput: record.costPer1kOutputTokens ?? undefined,
+    supportsImage: record.supportsVision ?? false,
+    supportsStreaming: record.supportsStreaming ?? true,
+    supportsFunctionCalling: record.supportsFunctionCalling ?? false,
+  };
+}
+
+function createAdapter(provider: string, config: AdapterConfig): BaseAIAdapter {
+  switch (provider) {
+    case "openai":
+      return new OpenAIAdapter(config);
+    case "anthropic":
+      return new AnthropicAdapter(config);
+    case "ollama":
+      return new OllamaAdapter(config);
+    case "cohere":
+      return new CohereAdapter(config);
+    case "custom":
+      return new CustomAdapter(config);
+    default:
+      throw new Error(`Unsupported AI provider: ${provider}`);
+  }
+}
+
+/**
+ * Overlay registry metadata on a model reported by a provider; the registry wins
+ * where it has a value, since provider lists mostly carry defaults
+ */
+function mergeModel(live: AIModel, record?: ModelRecord): AIModel {
+  if (!record) return live;
+
+  return {
+    ...live,
+    name: record.displayName || live.name,
+    contextWindow: record.contextWindow ?? live.contextWindow,
+    maxOutputTokens: record.maxOutputTokens ?? live.maxOutputTokens,
+    costPer1kInput: record.costPer1kInputTokens ?? live.costPer1kInput,
+    costPer1kOutput: record.costPer1kOutputTokens ?? live.costPer1kOutput,
+    supportsImage: record.supportsVision ?? live.supportsImage,
+    supportsStreaming: record.supportsStreaming ?? live.supportsStreaming,
+    supportsFunctionCalling: record.supportsFunctionCalling ?? live.supportsFunctionCalling,
+  };
+}
+
+/**
+ * Fallback models configured on the tenant's model config,
+ * e.g. `overrideConfiguration.fallbackModels = ["claude-3-5-sonnet-20241022", "llama3"]`
+ */
+function getFallbackModels(config?: TenantModelConfigRecord): string[] {
+  const fallbacks = config?.overrideConfiguration?.fallbackModels;
+  return Array.isArray(fallbacks) ? fallbacks.filter((id): id is string => typeof id === "string") : [];
+}
+
+/**
+ * Outages, timeouts and rate limits are worth failing over for; bad requests and
+ * rejected credentials would fail the same way on the next model.
+ */
+function isProviderFailure(error: unknown): boolean {
+  if (error instanceof AppError) return false;
+
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status !== "number") return true;
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Meter a completed request; a metering failure must not fail the request itself.
+ * Requests under a tenant model config were already counted by `reserveRequest`.
+ */
+async function meterUsage(candidate: ResolvedModel, tenantId?: string, usage?: TokenUsage) {
+  try {
+    await recordUsage({ tenantId, model: candidate.record, usage, counted: !!candidate.tenantConfig });
+  } catch (error) {
+    console.error(`Failed to record usage for ${candidate.model.id}:`, error);
+  }
+}
+
+/**
+ * Reject once `ms` have passed, aborting `controller` so the request behind
+ * the promise is cancelled rather than left running
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  label: string,
+  controller?: AbortController
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`${label} timed out after ${ms}ms`);
+      controller?.abort(error);
+      reject(error);
+    }, ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Signal for one attempt: aborted on timeout, or when the caller aborts the request
+ */
+function attemptSignal(controller: AbortController, signal?: AbortSignal): AbortSignal {
+  return signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+}
+
+/**
+ * Identifies a health-checked target: a platform provider, or a tenant's custom
+ * endpoint for a provider. Tenants calling the provider's own API with their own
+ * key are not probed.
+ */
+export function providerHealthKey(provider: string, tenantId?: string, endpoint?: string | null): string {
+  return tenantId && endpoint ? `tenant:${tenantId}:${provider}:${endpoint}` : `platform:${provider}`;
+}
+
+/**
+ * Whether a tenant may fall back to the platform's own provider keys.
+ * Tenants opt out with `configuration.features.siteModelsEnabled = false`.
+ */
+async function canUseSiteModels(tenantId: string): Promise<boolean> {
+  const config = await getTenantConfig(tenantId);
+  const features = config?.features as Record<string, unknown> | undefined;
+  return features?.siteModelsEnabled !== false;
+}
 
 class AIServiceRegistry {
+  // Platform adapters configured from env vars, shared by every tenant allowed to use them
+  private platformConfigs: Map<string, AdapterConfig> = new Map();
   private adapters: Map<string, BaseAIAdapter> = new Map();
+  // Adapters built from tenant credentials, keyed by tenant and config row
+  private tenantAdapters: Map<string, { adapter: BaseAIAdapter; version: number }> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  // Latest probe status per health key, set by the health monitor (see health.ts)
+  private health: Map<string, ProviderHealthStatus> = new Map();
+  // Model catalogs keyed by tenant ("platform" without one), plus refreshes in progress
+  private catalogs: Map<string, ModelCatalog> = new Map();
+  private catalogRefreshes: Map<string, Promise<ModelCatalog>> = new Map();
 
   constructor() {
-    // Initialize default adapters with env vars or empty config
-    // In a real multi-tenant app, we might instantiate these per-request or cache them with keys
-    // For now, we assume global env config for defaults, but we should support per-tenant overrides.
-    
-    this.adapters.set("openai", new OpenAIAdapter({ 
+    this.platformConfigs.set("openai", { 
         apiKey: process.env.OPENAI_API_KEY 
-    }));
+    });
     
-    this.adapters.set("anthropic", new AnthropicAdapter({ 
+    this.platformConfigs.set("anthropic", { 
         apiKey: process.env.ANTHROPIC_API_KEY 
-    }));
+    });
     
-    this.adapters.set("ollama", new OllamaAdapter({ 
+    this.platformConfigs.set("ollama", { 
         baseUrl: process.env.OLLAMA_BASE_URL 
-    }));
+    });
+
+    this.platformConfigs.set("cohere", {
+        apiKey: process.env.COHERE_API_KEY,
+        baseUrl: process.env.COHERE_BASE_URL
+    });
     
-    // Custom would need specific config, usually initialized on demand
+    if (process.env.CUSTOM_AI_BASE_URL) {
+        this.platformConfigs.set("custom", {
+            baseUrl: process.env.CUSTOM_AI_BASE_URL,
+            apiKey: process.env.CUSTOM_AI_API_KEY
+        });
+    }
+
+    for (const [provider, config] of this.platformConfigs) {
+        this.adapters.set(provider, createAdapter(provider, config));
+    }
+  }
+
+  /**
+   * Get an adapter instance, configured with the tenant's own credentials when it has them.
+   * Pass the tenant's config row for a specific model; otherwise the first enabled
+   * config with credentials for the provider is used. Without a key or endpoint of its
+   * own, a tenant gets the shared platform adapter unless it has opted out of site models.
+   */
+  async getAdapter(
+      provider: string,
+      tenantId?: string,
+      tenantConfig?: TenantModelConfigRecord
+  ): Promise<BaseAIAdapter> {
+      return (await this.resolveAdapter(provider, tenantId, tenantConfig)).adapter;
   }
 
   /**
-   * Get an adapter instance, potentially configured with tenant-specific keys
+   * getAdapter, plus the health key of the target the adapter calls (none for
+   * tenant keys on the provider's own API) and the key of its circuit breaker
    */
-  async getAdapter(provider: string, tenantId?: string): Promise<BaseAIAdapter> {
-      // TODO: Fetch tenant config from DB
-      // const tenantConfig = await db.query.tenantModelConfigs.findFirst(...)
-      
-      if (provider === "custom") {
-          // Example: Load custom config from DB
-          return new CustomAdapter({ baseUrl: "http://localhost:1234/v1", apiKey: "xyz" });
+  private async resolveAdapter(
+      provider: string,
+      tenantId?: string,
+      tenantConfig?: TenantModelConfigRecord
+  ): Promise<{ adapter: BaseAIAdapter; healthKey?: string; breakerKey: string }> {
+      if (tenantId) {
+          const credentials = tenantConfig ?? await this.findTenantCredentials(tenantId, provider);
+
+          if (credentials && (credentials.encryptedApiKey || credentials.customEndpoint)) {
+              const healthKey = credentials.customEndpoint
+                  ? providerHealthKey(provider, tenantId, credentials.customEndpoint)
+                  : undefined;
+              return {
+                  adapter: this.getTenantAdapter(provider, tenantId, credentials),
+                  healthKey,
+                  // A tenant key's rate limits and outages are its own, even on the provider's API
+                  breakerKey: healthKey ?? `tenant:${tenantId}:${provider}`,
+              };
+          }
+
+          if (!(await canUseSiteModels(tenantId))) {
+              throw new ModelUnavailableError(
+                  `No ${provider} credentials are configured for this tenant`
+              );
+          }
       }
 
       const adapter = this.adapters.get(provider);
       if (!adapter) {
-          throw new Error(`Unsupported AI provider: ${provider}`);
+          throw new ModelUnavailableError(`Provider ${provider} is not configured`);
       }
+      const healthKey = providerHealthKey(provider);
+      return { adapter, healthKey, breakerKey: healthKey };
+  }
+
+  /**
+   * Platform providers with credentials or an endpoint configured in the environment
+   */
+  getPlatformProviders(): AIProvider[] {
+      return Array.from(this.platformConfigs)
+          .filter(([, config]) => Boolean(config.apiKey || config.baseUrl))
+          .map(([provider]) => provider as AIProvider);
+  }
+
+  setProviderHealth(healthKey: string, status: ProviderHealthStatus) {
+      this.health.set(healthKey, status);
+  }
+
+  /**
+   * Whether the last health checks found the target down; unprobed targets count as up
+   */
+  isProviderDown(healthKey: string): boolean {
+      return this.health.get(healthKey) === "down";
+  }
+
+  /**
+   * Check provider credentials without caching an adapter for them.
+   * Only the given credentials are used, as in getTenantAdapter: an endpoint
+   * without a key is checked without credentials.
+   */
+  async validateCredentials(provider: string, config: AdapterConfig): Promise<boolean> {
+      return createAdapter(provider, config).validate();
+  }
+
+  /**
+   * Drop every cached model catalog, e.g. after models are installed or removed on a provider
+   */
+  invalidateCatalogs() {
+      this.catalogs.clear();
+  }
+
+  /**
+   * Drop cached adapters and catalog for a tenant, e.g. after its credentials change
+   */
+  invalidateTenant(tenantId: string) {
+      this.catalogs.delete(tenantId);
+      for (const key of this.tenantAdapters.keys()) {
+          if (key.startsWith(`${tenantId}:`)) {
+              this.tenantAdapters.delete(key);
+          }
+      }
+  }
+
+  private getTenantAdapter(
+      provider: string,
+      tenantId: string,
+      config: TenantModelConfigRecord
+  ): BaseAIAdapter {
+      const key = `${tenantId}:${config.id}`;
+      // Rebuild when the row has been updated since the adapter was cached
+      const version = config.updatedAt ? new Date(config.updatedAt).getTime() : 0;
+
+      const cached = this.tenantAdapters.get(key);
+      if (cached && cached.version === version) {
+          return cached.adapter;
+      }
+
+      // A custom endpoint without a key (e.g. a tenant's own Ollama server) is called
+      // without credentials; platform keys are never sent to tenant endpoints
+      const adapterConfig: AdapterConfig = {
+          apiKey: config.encryptedApiKey ? decrypt(config.encryptedApiKey) : undefined,
+          baseUrl: config.customEndpoint || undefined,
+      };
+
+      const adapter = createAdapter(provider, adapterConfig);
+      this.tenantAdapters.set(key, { adapter, version });
       return adapter;
   }
 
-  async getModels(tenantId?: string): Promise<AIModel[]> {
-      const providers = ["openai", "anthropic", "ollama"];
-      let allModels: AIModel[] = [];
+  private async findTenantCredentials(
+      tenantId: string,
+      provider: string
+  ): Promise<TenantModelConfigRecord | undefined> {
+      const configs = await db.query.tenantModelConfigs.findMany({
+          where: and(
+              eq(schema.tenantModelConfigs.tenantId, tenantId),
+              eq(schema.tenantModelConfigs.isEnabled, true)
+          ),
+          with: {
+              model: true
+          }
+      });
 
-      for (const provider of providers) {
-          try {
+      return configs.find(
+          (c: TenantModelConfigRecord & { model: ModelRecord }) =>
+              c.model.provider === provider && Boolean(c.encryptedApiKey || c.customEndpoint)
+      );
+  }
+
+  /**
+   * Models available from the providers, served from a cache for `AI_CATALOG_TTL_MS`
+   */
+  async getModels(tenantId?: string, options?: { refresh?: boolean }): Promise<AIModel[]> {
+      const cached = this.catalogs.get(tenantId ?? "platform");
+      if (!options?.refresh && cached && Date.now() - cached.fetchedAt < CATALOG_TTL_MS) {
+          return cached.models;
+      }
+
+      const catalog = await this.refreshModels(tenantId);
+      return catalog.models;
+  }
+
+  /**
+   * Re-fetch every provider's model list in parallel and merge it with the registry.
+   * Concurrent refreshes for the same tenant share one fetch.
+   */
+  async refreshModels(tenantId?: string): Promise<ModelCatalog> {
+      const key = tenantId ?? "platform";
+      const inFlight = this.catalogRefreshes.get(key);
+      if (inFlight) return inFlight;
+
+      const refresh = this.fetchCatalog(tenantId)
+          .then(catalog => {
+              this.catalogs.set(key, catalog);
+              return catalog;
+          })
+          .finally(() => this.catalogRefreshes.delete(key));
+
+      this.catalogRefreshes.set(key, refresh);
+      return refresh;
+  }
+
+  private async fetchCatalog(tenantId?: string): Promise<ModelCatalog> {
+      const [results, records] = await Promise.all([
+          Promise.allSettled(CATALOG_PROVIDERS.map(async provider => {
               const adapter = await this.getAdapter(provider, tenantId);
-              const models = await adapter.listModels();
-              allModels = [...allModels, ...models];
-          } catch (e) {
-              console.warn(`Failed to list models for ${provider}`, e);
+              return withTimeout(adapter.listModels(), CATALOG_TIMEOUT_MS, `${provider} model list`);
+          })),
+          db.query.aiModels.findMany(),
+      ]);
+
+      const registry = new Map(records.map(r => [`${r.provider}:${r.modelId}`, r]));
+      const models: AIModel[] = [];
+      const providers: ModelCatalog["providers"] = {};
+
+      results.forEach((result, i) => {
+          const provider = CATALOG_PROVIDERS[i];
+          if (result.status === "rejected") {
+              const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+              providers[provider] = { ok: false, count: 0, error };
+              return;
+          }
+
+          let count = 0;
+          for (const live of result.value) {
+              const record = registry.get(`${provider}:${live.id}`);
+              // Models retired in the registry stay out of the catalog
+              if (record && record.status !== "active") continue;
+              models.push(mergeModel(live, record));
+              count++;
+          }
+          providers[provider] = { ok: true, count };
+      });
+
+      return { models, providers, fetchedAt: Date.now() };
+  }
+
+  /**
+   * Look up registry metadata (context window, output limit, capabilities) for a model id
+   */
+  async getModelInfo(modelId: string, _tenantId?: string): Promise<AIModel | undefined> {
+      const record = await db.query.aiModels.findFirst({
+          where: eq(schema.aiModels.modelId, modelId)
+      });
+      return record ? toAIModel(record) : undefined;
+  }
+
+  /**
+   * Resolve a model id to its provider through the `ai_models` registry.
+   * Rejects unknown, inactive and deprecated models, and models the tenant has not enabled.
+   */
+  async resolveModel(modelId: string, tenantId?: string): Promise<ResolvedModel> {
+      const record = await db.query.aiModels.findFirst({
+          where: eq(schema.aiModels.modelId, modelId)
+      });
+
+      if (!record) {
+          throw new NotFoundError(`Model "${modelId}"`);
+      }
+
+      if (record.status !== "active") {
+          throw new ModelUnavailableError(`Model "${modelId}" is ${record.status} and can no longer be used`);
+      }
+
+      let tenantConfig: TenantModelConfigRecord | undefined;
+      if (tenantId) {
+          tenantConfig = await db.query.tenantModelConfigs.findFirst({
+              where: and(
+                  eq(schema.tenantModelConfigs.tenantId, tenantId),
+                  eq(schema.tenantModelConfigs.modelId, record.id)
+              )
+          });
+
+          if (!tenantConfig?.isEnabled) {
+              throw new ModelUnavailableError(`Model "${modelId}" is not enabled for this tenant`);
+          }
+      }
+
+      return {
+          model: toAIModel(record),
+          provider: record.provider as AIProvider,
+          record,
+          tenantConfig,
+      };
+  }
+
+  /**
+   * Circuit breaker for one target: a platform provider, a tenant's endpoint,
+   * or a tenant's key on the provider's own API
+   */
+  getBreaker(key: string): CircuitBreaker {
+      let breaker = this.breakers.get(key);
+      if (!breaker) {
+          breaker = new CircuitBreaker();
+          this.breakers.set(key, breaker);
+      }
+      return breaker;
+  }
+
+  /**
+   * The requested model followed by the tenant's fallback chain.
+   * The requested model must resolve (and see images, if the request has any);
+   * fallbacks that don't are skipped.
+   */
+  private async getCandidates(request: ChatRequest, tenantId?: string): Promise<ResolvedModel[]> {
+      const primary = await this.resolveModel(request.model, tenantId);
+      const needsVision = hasImageContent(request.messages);
+
+      if (needsVision && !primary.model.supportsImage) {
+          throw new ModelUnavailableError(`Model "${request.model}" does not accept image input`);
+      }
+
+      const candidates = [primary];
+
+      for (const fallbackId of getFallbackModels(primary.tenantConfig)) {
+          if (candidates.some(c => c.model.id === fallbackId)) continue;
+          try {
+              const fallback = await this.resolveModel(fallbackId, tenantId);
+              if (needsVision && !fallback.model.supportsImage) continue;
+              candidates.push(fallback);
+          } catch (error) {
+              console.warn(`Skipping fallback model ${fallbackId}:`, error);
+          }
+      }
+
+      return candidates;
+  }
+
+  /**
+   * Adapter and circuit breaker for a candidate, or why it can't be tried right now
+   * (no credentials, provider down, circuit open or request cap reached). A tenant's
+   * request is counted against its caps here.
+   */
+  private async prepareAttempt(candidate: ResolvedModel, tenantId?: string) {
+      let adapter: BaseAIAdapter;
+      let healthKey: string | undefined;
+      let breakerKey: string;
+      try {
+          ({ adapter, healthKey, breakerKey } = await this.resolveAdapter(
+              candidate.provider,
+              tenantId,
+              candidate.tenantConfig
+          ));
+      } catch (error) {
+          return { error };
+      }
+
+      if (healthKey && this.isProviderDown(healthKey)) {
+          return {
+              error: new ModelUnavailableError(`Provider ${candidate.provider} is down`)
+          };
+      }
+
+      const breaker = this.getBreaker(breakerKey);
+      if (!breaker.canRequest()) {
+          return {
+              error: new ModelUnavailableError(`Provider ${candidate.provider} is temporarily unavailable`)
+          };
+      }
+
+      // Counted last, once nothing else stops the request from being sent
+      if (candidate.tenantConfig) {
+          try {
+              await reserveRequest(candidate.tenantConfig, candidate.model.id);
+          } catch (error) {
+              breaker.release();
+              return { error };
           }
       }
 
-      return allModels;
+      return { adapter, breaker };
+  }
+
+  /**
+   * Embed texts with a registry model tagged with the `embeddings` capability.
+   * Inputs are sent in batches; vectors come back in input order.
+   */
+  async embed(
+      texts: string[],
+      options: { model?: string; tenantId?: string } = {}
+  ): Promise<EmbeddingResponse> {
+      const { model: modelId = DEFAULT_EMBEDDING_MODEL, tenantId } = options;
+      const resolved = await this.resolveModel(modelId, tenantId);
+
+      if (!resolved.record.capabilities?.includes("embeddings")) {
+          throw new ModelUnavailableError(`Model "${modelId}" does not produce embeddings`);
+      }
+      const adapter = await this.getAdapter(resolved.provider, tenantId, resolved.tenantConfig);
+      if (resolved.tenantConfig) {
+          await reserveRequest(resolved.tenantConfig, modelId);
+      }
+
+      const embeddings: number[][] = [];
+      let usage: TokenUsage | undefined;
+
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+          const batch = await adapter.embed({ model: modelId, input: texts.slice(i, i + EMBEDDING_BATCH_SIZE) });
+          embeddings.push(...batch.embeddings);
+          usage = addUsage(usage, batch.usage);
+      }
+
+      await meterUsage(resolved, tenantId, usage);
+      return { model: modelId, embeddings, usage };
   }
 
+  /**
+   * Generate a completion, failing over along the tenant's fallback chain.
+   * `model` on the response is the registry id of the model that answered;
+   * with `responseFormat`, `parsed` holds the validated JSON reply.
+   */
   async generateResponse(request: ChatRequest, tenantId?: string): Promise<ChatResponse> {
-      // Find provider for the requested model
-      // This logic assumes we know which provider "gpt-4" belongs to. 
-      // Ideally providing the model object includes the provider.
-      // For now, let's look it up or pass provider in request? 
-      // Let's assume the request.model is the ID, and we can find it.
-      
-      const models = await this.getModels(tenantId);
-      const modelInfo = models.find(m => m.id === request.model);
-      
-      // Fallback or explicit provider detection
-      let provider = modelInfo?.provider || "openai"; // Default
-      if (request.model.startsWith("claude")) provider = "anthropic";
-      if (request.model.includes("llama") || request.model.includes("mistral")) provider = "ollama";
-
-      const adapter = await this.getAdapter(provider, tenantId);
-      return adapter.chat(request);
+      const candidates = await this.getCandidates(request, tenantId);
+      let lastError: unknown;
+
+      for (const candidate of candidates) {
+          const attempt = await this.prepareAttempt(candidate, tenantId);
+          if (!attempt.adapter) {
+              lastError = attempt.error;
+              continue;
+          }
+
+          const { adapter, breaker } = attempt;
+          const controller = new AbortController();
+          const signal = attemptSignal(controller, request.signal);
+          try {
+              const { responseFormat } = request;
+              const response = await withTimeout(
+                  responseFormat
+                      ? chatStructured(adapter, { ...request, model: candidate.model.id, responseFormat, signal })
+                      : adapter.chat({ ...request, model: candidate.model.id, signal }),
+                  REQUEST_TIMEOUT_MS,
+                  `${candidate.provider} request`,
+                  controller
+              );
+              breaker.recordSuccess();
+              await meterUsage(candidate, tenantId, response.usage);
+              return { ...response, model: candidate.model.id };
+          } catch (error) {
+              // Replies that failed validation were still billed by the provider
+              if (error instanceof StructuredOutputError) {
+                  await meterUsage(candidate, tenantId, error.usage);
+              }
+              if (!isProviderFailure(error)) {
+                  breaker.release();
+                  throw error;
+              }
+              breaker.recordFailure();
+              lastError = error;
+              console.warn(`Model ${candidate.model.id} failed, trying next fallback:`, error);
+          }
+      }
+
+      throw lastError;
   }
 
+  /**
+   * Stream a completion, failing over along the tenant's fallback chain.
+   * Failover only happens before the first chunk arrives; once text has been
+   * sent to the caller, errors are passed through. Every chunk carries the
+   * registry id of the model that is answering.
+   */
   async *streamResponse(request: ChatRequest, tenantId?: string): AsyncGenerator<StreamChunk> {
-      const models = await this.getModels(tenantId);
-      const modelInfo = models.find(m => m.id === request.model);
-      
-      let provider = modelInfo?.provider || "openai";
-      if (request.model.startsWith("claude")) provider = "anthropic";
-      
-      // Ollama usually needs explicit selection or we guess
-      
-      const adapter = await this.getAdapter(provider, tenantId);
-      yield* adapter.stream(request);
+      const candidates = await this.getCandidates(request, tenantId);
+      let lastError: unknown;
+
+      for (const candidate of candidates) {
+          const attempt = await this.prepareAttempt(candidate, tenantId);
+          if (!attempt.adapter) {
+              lastError = attempt.error;
+              continue;
+          }
+
+          const { adapter, breaker } = attempt;
+          const model = candidate.model.id;
+          const controller = new AbortController();
+          const signal = attemptSignal(controller, request.signal);
+          const iterator = adapter.stream({ ...request, model, signal })[Symbol.asyncIterator]();
+          let first: IteratorResult<StreamChunk>;
+
+          try {
+              first = await withTimeout(iterator.next(), REQUEST_TIMEOUT_MS, `${candidate.provider} stream`, controller);
+          } catch (error) {
+              void iterator.return?.(undefined);
+              if (!isProviderFailure(error)) {
+                  breaker.release();
+                  throw error;
+              }
+              breaker.recordFailure();
+              lastError = error;
+              console.warn(`Model ${model} failed, trying next fallback:`, error);
+              continue;
+          }
+
+          // The provider answered; a later error or an abandoned stream must still
+          // settle the breaker and be metered
+          let failed = false;
+          let usage: TokenUsage | undefined;
+          try {
+              for (let result = first; !result.done; result = await iterator.next()) {
+                  if (result.value.usage) usage = result.value.usage;
+                  yield { ...result.value, model };
+              }
+          } catch (error) {
+              failed = isProviderFailure(error);
+              throw error;
+          } finally {
+              if (failed) breaker.recordFailure();
+              else breaker.recordSuccess();
+              controller.abort();
+              await iterator.return?.(undefined);
+              await meterUsage(candidate, tenantId, usage);
+          }
+          return;
+      }
+
+      throw lastError;
   }
 }
 
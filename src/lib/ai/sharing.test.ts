@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, schema } from "@/db/query";
+import { NotFoundError } from "@/lib/utils/errors";
+import { createAccount } from "@/test/fixtures";
+import { storeAttachments } from "./attachments";
+import { conversationManager } from "./conversation";
+import { createShareLink, getSharedConversation, listShareLinks, revokeShareLink } from "./sharing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function setup() {
+  const { user, tenant } = await createAccount();
+  const conversation = await conversationManager.createConversation(tenant.id, user.id, { title: "Trip plans" });
+  const add = (content: string, role: "user" | "assistant") =>
+    db.insert(schema.messages).values({ conversationId: conversation.id, role, content });
+
+  await add("Where should I go?", "user");
+  await add("Try Lisbon.", "assistant");
+
+  const share = (options: { mode?: "snapshot" | "live"; expiresInDays?: number } = {}) =>
+    createShareLink({
+      tenantId: tenant.id,
+      userId: user.id,
+      conversationId: conversation.id,
+      mode: options.mode ?? "snapshot",
+      expiresInDays: options.expiresInDays,
+    });
+
+  return { user, tenant, conversation, add, share };
+}
+
+describe("share links", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves a token to the conversation's user and assistant turns", async () => {
+    const { share } = await setup();
+    const { token } = await share();
+
+    const shared = await getSharedConversation(token);
+
+    expect(shared?.title).toBe("Trip plans");
+    expect(shared?.messages.map((m) => m.content)).toEqual(["Where should I go?", "Try Lisbon."]);
+    expect(await getSharedConversation(`${token}x`)).toBeNull();
+  });
+
+  it("stores only a hash of the token", async () => {
+    const { share } = await setup();
+    const { token, share: created } = await share();
+
+    const row = await db.query.conversationShares.findFirst({
+      where: eq(schema.conversationShares.id, created.id),
+    });
+
+    expect(row?.tokenHash).not.toContain(token);
+    expect(JSON.stringify(row)).not.toContain(token);
+  });
+
+  it("freezes snapshot links and keeps live links current", async () => {
+    const { share, add } = await setup();
+    const snapshot = await share({ mode: "snapshot" });
+    const live = await share({ mode: "live" });
+
+    await add("What about Porto?", "user");
+
+    expect((await getSharedConversation(snapshot.token))?.messages).toHaveLength(2);
+    expect((await getSharedConversation(live.token))?.messages).toHaveLength(3);
+  });
+
+  it("stops resolving once the link expires", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-05-01T12:00:00Z"));
+    const { share } = await setup();
+    const { token, share: created } = await share({ expiresInDays: 2 });
+
+    expect(created.expiresAt?.getTime()).toBe(Date.now() + 2 * DAY_MS);
+
+    vi.setSystemTime(Date.now() + 2 * DAY_MS - 60 * 1000);
+    expect(await getSharedConversation(token)).not.toBeNull();
+
+    vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+    expect(await getSharedConversation(token)).toBeNull();
+  });
+
+  it("stops resolving once revoked, and only the owner can revoke", async () => {
+    const { user, conversation, share } = await setup();
+    const other = await createAccount();
+    const { token, share: created } = await share();
+
+    expect(await revokeShareLink(conversation.id, other.user.id, created.id)).toBe(false);
+    expect(await getSharedConversation(token)).not.toBeNull();
+
+    expect(await revokeShareLink(conversation.id, user.id, created.id)).toBe(true);
+    expect(await getSharedConversation(token)).toBeNull();
+
+    const [listed] = await listShareLinks(conversation.id, user.id);
+    expect(listed.revokedAt).toBeInstanceOf(Date);
+  });
+
+  it("keeps images out of snapshots and reads them when the link is opened", async () => {
+    const { conversation, share } = await setup();
+    const data = Buffer.from("png").toString("base64");
+    const attachments = await storeAttachments(conversation.id, [{ type: "image", mimeType: "image/png", data }]);
+    await db.insert(schema.messages).values({
+      conversationId: conversation.id,
+      role: "user",
+      content: "Look",
+      metadata: { attachments },
+    });
+    const { token, share: created } = await share({ mode: "snapshot" });
+
+    const row = await db.query.conversationShares.findFirst({
+      where: eq(schema.conversationShares.id, created.id),
+    });
+    const shared = await getSharedConversation(token);
+
+    expect(JSON.stringify(row?.snapshot)).not.toContain(data);
+    expect(shared?.messages.find((m) => m.content === "Look")).toMatchObject({
+      images: [expect.objectContaining({ mimeType: "image/png", data })],
+    });
+  });
+
+  it("hides links to deleted conversations", async () => {
+    const { user, tenant, conversation, share } = await setup();
+    const { token } = await share({ mode: "snapshot" });
+
+    await conversationManager.updateConversation(tenant.id, user.id, conversation.id, { status: "deleted" });
+
+    expect(await getSharedConversation(token)).toBeNull();
+  });
+
+  it("can only be created by the conversation's owner", async () => {
+    const { tenant, conversation } = await setup();
+    const other = await createAccount();
+
+    await expect(
+      createShareLink({ tenantId: tenant.id, userId: other.user.id, conversationId: conversation.id, mode: "live" })
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
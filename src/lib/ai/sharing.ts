@@ -0,0 +1,213 @@
+import crypto from "crypto";
+import { db, schema } from "@/db/query";
+import { and, desc, eq } from "drizzle-orm";
+import { conversationManager } from "./conversation";
+import { AttachmentRef, getAttachmentRefs, getAttachments } from "./attachments";
+import { ImagePart } from "./types";
+import type { ShareMode } from "@/db/schema";
+import { NotFoundError } from "@/lib/utils/errors";
+
+type ShareRecord = typeof schema.conversationShares.$inferSelect;
+type MessageRecord = typeof schema.messages.$inferSelect;
+
+export interface SharedMessage {
+  role: "user" | "assistant";
+  content: string;
+  images?: ImagePart[];
+  createdAt: string;
+}
+
+// A shared message as loaded and kept in snapshots, its images by reference
+type SharedMessageRecord = Omit<SharedMessage, "images"> & { attachments?: AttachmentRef[] };
+
+/**
+ * What a share link shows. The system prompt is never included.
+ */
+export interface SharedConversation {
+  title: string | null;
+  mode: ShareMode;
+  sharedAt: string;
+  messages: SharedMessage[];
+}
+
+/**
+ * A share link as listed to its owner; the token itself is only returned on creation
+ */
+export interface ShareLinkSummary {
+  id: string;
+  threadId: string | null;
+  mode: ShareMode;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function toSummary(share: ShareRecord): ShareLinkSummary {
+  return {
+    id: share.id,
+    threadId: share.threadId,
+    mode: share.mode as ShareMode,
+    expiresAt: share.expiresAt,
+    revokedAt: share.revokedAt,
+    createdAt: share.createdAt,
+  };
+}
+
+/**
+ * The user and assistant turns on a branch, without tool traffic or metadata
+ */
+async function loadSharedMessages(
+  tenantId: string,
+  userId: string,
+  conversationId: string,
+  threadId?: string
+): Promise<{ title: string | null; messages: SharedMessageRecord[] } | null> {
+  const conversation = await conversationManager.getConversation(tenantId, userId, conversationId, threadId);
+  if (!conversation) return null;
+
+  const messages = conversation.messages
+    .filter((m: MessageRecord) => (m.role === "user" || m.role === "assistant") && !m.metadata?.toolCalls)
+    .map((m: MessageRecord) => {
+      const attachments = getAttachmentRefs(m.metadata);
+      return {
+        role: m.role as SharedMessage["role"],
+        content: m.content,
+        attachments: attachments.length ? attachments : undefined,
+        createdAt: m.createdAt.toISOString(),
+      };
+    });
+
+  return { title: conversation.title, messages };
+}
+
+/**
+ * Read the images of shared messages for display
+ */
+async function withImages(conversationId: string, messages: SharedMessageRecord[]): Promise<SharedMessage[]> {
+  const ids = messages.flatMap((m) => m.attachments?.map((a) => a.id) ?? []);
+  const stored = await getAttachments(conversationId, ids);
+
+  return messages.map(({ attachments, ...message }) => {
+    const images = (attachments ?? [])
+      .map((a) => stored.get(a.id))
+      .filter((image): image is ImagePart => Boolean(image));
+    return images.length ? { ...message, images } : message;
+  });
+}
+
+/**
+ * Create a public link to a conversation branch. Snapshot links freeze the messages as
+ * they are now; live links always show the branch's current messages.
+ * Returns the raw token, which is stored hashed and cannot be shown again.
+ */
+export async function createShareLink(params: {
+  tenantId: string;
+  userId: string;
+  conversationId: string;
+  threadId?: string;
+  mode: ShareMode;
+  expiresInDays?: number;
+}): Promise<{ token: string; share: ShareLinkSummary }> {
+  const { tenantId, userId, conversationId, threadId, mode } = params;
+
+  // Also checks that the user owns the conversation and branch
+  const shared = await loadSharedMessages(tenantId, userId, conversationId, threadId);
+  if (!shared) {
+    throw new NotFoundError("Conversation");
+  }
+
+  const token = crypto.randomBytes(24).toString("base64url");
+  const expiresAt = params.expiresInDays
+    ? new Date(Date.now() + params.expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const [share] = await db.insert(schema.conversationShares).values({
+    conversationId,
+    userId,
+    threadId: threadId || null,
+    tokenHash: hashToken(token),
+    mode,
+    snapshot: mode === "snapshot" ? { ...shared } : null,
+    expiresAt,
+  }).returning();
+
+  return { token, share: toSummary(share) };
+}
+
+export async function listShareLinks(conversationId: string, userId: string): Promise<ShareLinkSummary[]> {
+  const shares = await db.query.conversationShares.findMany({
+    where: and(
+      eq(schema.conversationShares.conversationId, conversationId),
+      eq(schema.conversationShares.userId, userId)
+    ),
+    orderBy: [desc(schema.conversationShares.createdAt)],
+  });
+
+  return shares.map(toSummary);
+}
+
+/**
+ * Revoke one of the user's share links. Returns false if there is no such link.
+ */
+export async function revokeShareLink(conversationId: string, userId: string, shareId: string): Promise<boolean> {
+  const share = await db.query.conversationShares.findFirst({
+    where: and(
+      eq(schema.conversationShares.id, shareId),
+      eq(schema.conversationShares.conversationId, conversationId),
+      eq(schema.conversationShares.userId, userId)
+    ),
+  });
+
+  if (!share) return false;
+
+  if (!share.revokedAt) {
+    await db
+      .update(schema.conversationShares)
+      .set({ revokedAt: new Date() })
+      .where(eq(schema.conversationShares.id, share.id));
+  }
+
+  return true;
+}
+
+/**
+ * Resolve a share token for the public page. Returns null for unknown, revoked or
+ * expired links, and for conversations that have since been deleted.
+ */
+export async function getSharedConversation(token: string): Promise<SharedConversation | null> {
+  const share = await db.query.conversationShares.findFirst({
+    where: eq(schema.conversationShares.tokenHash, hashToken(token)),
+  });
+
+  if (!share || share.revokedAt || (share.expiresAt && share.expiresAt <= new Date())) {
+    return null;
+  }
+
+  const conversation = await db.query.conversations.findFirst({
+    where: eq(schema.conversations.id, share.conversationId),
+    columns: { tenantId: true, status: true },
+  });
+
+  if (!conversation?.tenantId || conversation.status === "deleted") {
+    return null;
+  }
+
+  const mode = share.mode as ShareMode;
+  const shared =
+    mode === "snapshot"
+      ? (share.snapshot as { title: string | null; messages: SharedMessageRecord[] } | null)
+      : await loadSharedMessages(conversation.tenantId, share.userId, share.conversationId, share.threadId || undefined);
+
+  if (!shared) return null;
+
+  return {
+    title: shared.title,
+    mode,
+    sharedAt: share.createdAt.toISOString(),
+    messages: await withImages(share.conversationId, shared.messages),
+  };
+}
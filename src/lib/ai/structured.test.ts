@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { StructuredOutputError } from "@/lib/utils/errors";
+import { chatResponse } from "@/test/fixtures";
+import type { BaseAIAdapter } from "./adapters/base";
+import { chatStructured, extractJson } from "./structured";
+import type { ChatRequest, ChatResponse } from "./types";
+
+const schema = z.object({ city: z.string(), temperature: z.number() });
+
+function fakeAdapter(replies: string[], supportsStructuredOutput = false) {
+  const requests: ChatRequest[] = [];
+  const chat = vi.fn(async (request: ChatRequest): Promise<ChatResponse> => {
+    requests.push(request);
+    return chatResponse({ content: replies[requests.length - 1] ?? "" });
+  });
+  return { adapter: { supportsStructuredOutput, chat } as unknown as BaseAIAdapter, requests };
+}
+
+const request = {
+  model: "test-model",
+  messages: [{ role: "user" as const, content: "Weather in Oslo?" }],
+  responseFormat: { type: "json_schema" as const, name: "weather", schema },
+};
+
+describe("chatStructured", () => {
+  it("returns the validated value of a matching reply", async () => {
+    const { adapter, requests } = fakeAdapter(['{"city":"Oslo","temperature":4}']);
+
+    const response = await chatStructured(adapter, request);
+
+    expect(response.parsed).toEqual({ city: "Oslo", temperature: 4 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("puts the schema in the system prompt for providers without native support", async () => {
+    const { adapter, requests } = fakeAdapter(['{"city":"Oslo","temperature":4}']);
+
+    await chatStructured(adapter, request);
+
+    expect(requests[0].messages[0].role).toBe("system");
+    expect(requests[0].messages[0].content).toContain('"temperature"');
+
+    const native = fakeAdapter(['{"city":"Oslo","temperature":4}'], true);
+    await chatStructured(native.adapter, request);
+    expect(native.requests[0].messages).toEqual(request.messages);
+  });
+
+  it("sends validation errors back and retries until the reply matches", async () => {
+    const { adapter, requests } = fakeAdapter([
+      "Sure! It is cold.",
+      '```json\n{"city":"Oslo","temperature":"cold"}\n```',
+      '{"city":"Oslo","temperature":-2}',
+    ]);
+
+    const response = await chatStructured(adapter, request);
+
+    expect(response.parsed).toEqual({ city: "Oslo", temperature: -2 });
+    expect(requests).toHaveLength(3);
+    expect(requests[1].messages.slice(-2)).toEqual([
+      { role: "assistant", content: "Sure! It is cold." },
+      expect.objectContaining({ role: "user", content: expect.stringContaining("does not contain JSON") }),
+    ]);
+    expect(requests[2].messages.at(-1)?.content).toContain("temperature");
+    // Usage covers every attempt
+    expect(response.usage).toEqual({ promptTokens: 30, completionTokens: 15, totalTokens: 45 });
+  });
+
+  it("gives up with a StructuredOutputError after the retries are spent", async () => {
+    const { adapter, requests } = fakeAdapter(['{"city":1}', '{"city":2}', '{"city":3}', '{"city":"Oslo","temperature":1}']);
+
+    await expect(chatStructured(adapter, request)).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("accepts a JSON Schema object as well as a zod schema", async () => {
+    const { adapter } = fakeAdapter(['{"count":"many"}', '{"count":3}']);
+
+    const response = await chatStructured(adapter, {
+      ...request,
+      responseFormat: {
+        type: "json_schema",
+        schema: { type: "object", properties: { count: { type: "integer" } }, required: ["count"] },
+      },
+    });
+
+    expect(response.parsed).toEqual({ count: 3 });
+  });
+});
+
+describe("extractJson", () => {
+  it("tolerates fences and surrounding prose", () => {
+    expect(extractJson('Here you go:\n```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('The answer is {"a":[1,2]} as requested.')).toEqual({ a: [1, 2] });
+    expect(() => extractJson("no json here")).toThrow();
+  });
+});
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import type { BaseAIAdapter } from "./adapters/base";
+import { ChatMessage, ChatRequest, ChatResponse, ResponseFormat, TokenUsage } from "./types";
+import { getTextContent } from "./content";
+import { addUsage } from "./tokens";
+import { StructuredOutputError } from "@/lib/utils/errors";
+
+// Corrective rounds after the first reply fails validation
+const MAX_STRUCTURED_RETRIES = 2;
+
+/**
+ * A response format reduced to what adapters and validation need
+ */
+export interface StructuredSchema {
+  name: string;
+  jsonSchema: Record<string, unknown>;
+  validator: z.ZodType;
+}
+
+export function toStructuredSchema(format: ResponseFormat): StructuredSchema {
+  const name = format.name || "response";
+
+  if (format.schema instanceof z.ZodType) {
+    return {
+      name,
+      jsonSchema: z.toJSONSchema(format.schema) as Record<string, unknown>,
+      validator: format.schema,
+    };
+  }
+
+  return {
+    name,
+    jsonSchema: format.schema,
+    validator: z.fromJSONSchema(format.schema as Parameters<typeof z.fromJSONSchema>[0]),
+  };
+}
+
+/**
+ * Pull the JSON value out of a reply, tolerating markdown fences and surrounding prose
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"));
+    if (start === -1 || end <= start) throw new Error("Reply does not contain JSON");
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+function withSchemaInstructions(messages: ChatMessage[], schema: StructuredSchema): ChatMessage[] {
+  const instructions = [
+    "Respond only with a JSON value that matches this JSON Schema.",
+    "Do not add explanations or markdown.",
+    JSON.stringify(schema.jsonSchema),
+  ].join("\n");
+
+  const system = messages.find((m) => m.role === "system");
+  if (!system) return [{ role: "system", content: instructions }, ...messages];
+
+  return messages.map((m) =>
+    m === system ? { ...m, content: `${getTextContent(m.content)}\n\n${instructions}` } : m
+  );
+}
+
+function validate(content: string, schema: StructuredSchema): { data?: unknown; error?: string } {
+  let value: unknown;
+  try {
+    value = extractJson(content);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+
+  const result = schema.validator.safeParse(value);
+  if (result.success) return { data: result.data };
+  return {
+    error: result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; "),
+  };
+}
+
+/**
+ * Run a chat request that must produce JSON matching `request.responseFormat`.
+ * Providers with native structured output get the schema directly; others get it
+ * in the system prompt. Replies that fail validation are sent back with the
+ * validation errors, up to MAX_STRUCTURED_RETRIES times.
+ */
+export async function chatStructured(
+  adapter: BaseAIAdapter,
+  request: ChatRequest & { responseFormat: ResponseFormat }
+): Promise<ChatResponse> {
+  const schema = toStructuredSchema(request.responseFormat);
+  let messages = adapter.supportsStructuredOutput
+    ? request.messages
+    : withSchemaInstructions(request.messages, schema);
+  let usage: TokenUsage | undefined;
+  let lastError = "";
+
+  for (let attempt = 0; attempt <= MAX_STRUCTURED_RETRIES; attempt++) {
+    const response = await adapter.chat({ ...request, messages });
+    usage = addUsage(usage, response.usage);
+
+    const result = validate(response.content, schema);
+    if (!result.error) {
+      return { ...response, usage, parsed: result.data };
+    }
+
+    lastError = result.error;
+    messages = [
+      ...messages,
+      { role: "assistant", content: response.content },
+      {
+        role: "user",
+        content: `That reply did not match the required JSON Schema (${lastError}). Reply again with corrected JSON only.`,
+      },
+    ];
+  }
+
+  throw new StructuredOutputError(`The model did not return valid structured output: ${lastError}`, usage);
+}
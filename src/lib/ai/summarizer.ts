@@ -0,0 +1,89 @@
+import { ChatMessage } from "./types";
+import { aiService } from "./service";
+import { estimateTokens, truncateToTokens } from "./tokens";
+import { getTextContent } from "./content";
+
+// Keep individual turns and the whole transcript small enough for cheap models
+const MAX_TURN_TOKENS = 1000;
+const MAX_TRANSCRIPT_TOKENS = 8000;
+const MAX_SUMMARY_TOKENS = 600;
+
+const SUMMARY_INSTRUCTIONS = [
+  "You maintain a running summary of a long conversation between a user and an AI assistant.",
+  "Merge the existing summary (if any) with the new transcript into one updated summary.",
+  "Keep facts, names, decisions, user preferences, open questions and commitments.",
+  "Drop greetings and small talk. Write in the third person, as concise prose or bullet points.",
+  `Stay under ${Math.floor(MAX_SUMMARY_TOKENS * 0.75)} words. Reply with the summary only.`,
+].join(" ");
+
+/**
+ * Summary of the oldest turns of a conversation, stored in `conversations.metadata.summary`
+ */
+export interface ConversationSummary {
+  content: string;
+  /** Id of the newest message folded into the summary */
+  lastMessageId: string;
+  /** Total number of messages folded in so far */
+  messageCount: number;
+  updatedAt: string;
+}
+
+/**
+ * Read a summary from conversation metadata, ignoring malformed values
+ */
+export function getConversationSummary(
+  metadata: Record<string, unknown> | null | undefined
+): ConversationSummary | undefined {
+  const summary = metadata?.summary as ConversationSummary | undefined;
+  if (!summary || typeof summary.content !== "string" || typeof summary.lastMessageId !== "string") {
+    return undefined;
+  }
+  return summary;
+}
+
+function formatTranscript(messages: ChatMessage[]): string {
+  const lines = messages
+    .filter((m) => (m.role === "user" || m.role === "assistant") && m.content)
+    .map((m) => {
+      const speaker = m.role === "user" ? "User" : "Assistant";
+      const content = truncateToTokens(getTextContent(m.content), MAX_TURN_TOKENS);
+      return `${speaker}: ${content}`;
+    });
+
+  const transcript = lines.join("\n\n");
+  return estimateTokens(transcript) > MAX_TRANSCRIPT_TOKENS
+    ? truncateToTokens(transcript, MAX_TRANSCRIPT_TOKENS)
+    : transcript;
+}
+
+/**
+ * Condense turns into an updated running summary using the given model
+ */
+export async function summarizeMessages(params: {
+  messages: ChatMessage[];
+  previousSummary?: string;
+  modelId: string;
+  tenantId?: string;
+}): Promise<string> {
+  const { messages, previousSummary, modelId, tenantId } = params;
+
+  const prompt = [
+    previousSummary ? `Existing summary:\n${previousSummary}` : "Existing summary: (none)",
+    `New transcript:\n${formatTranscript(messages)}`,
+  ].join("\n\n");
+
+  const response = await aiService.generateResponse(
+    {
+      model: modelId,
+      messages: [
+        { role: "system", content: SUMMARY_INSTRUCTIONS },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0.2,
+      maxTokens: MAX_SUMMARY_TOKENS,
+    },
+    tenantId
+  );
+
+  return response.content.trim();
+}
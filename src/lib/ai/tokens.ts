@@ -0,0 +1,54 @@
+import { ChatMessage, TokenUsage } from "./types";
+import { getImageParts, getTextContent } from "./content";
+
+// Average characters per token for English text across the BPE tokenizers we target
+const CHARS_PER_TOKEN = 4;
+
+// Role markers and separators each provider wraps around a message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Rough cost of one image; providers bill 85-1600 tokens depending on size and detail
+const IMAGE_TOKENS = 1000;
+
+/**
+ * Estimate the token count of a piece of text.
+ * This is a provider-agnostic heuristic; exact counts come back in `ChatResponse.usage`.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the tokens a single chat message occupies in the prompt
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  const toolCallTokens = (message.tool_calls || []).reduce(
+    (sum, call) => sum + estimateTokens(call.name) + estimateTokens(call.arguments),
+    0
+  );
+  const imageTokens = getImageParts(message.content).length * IMAGE_TOKENS;
+  return estimateTokens(getTextContent(message.content)) + imageTokens + toolCallTokens + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Cut text down to roughly `maxTokens`, keeping the end (the most recent part of a turn)
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = Math.max(0, maxTokens * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) return text;
+  return "…" + text.slice(text.length - maxChars + 1);
+}
+
+/**
+ * Sum the usage of several provider calls made for one request
+ */
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
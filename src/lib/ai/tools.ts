@@ -0,0 +1,73 @@
+import { parseToolArguments } from "./adapters/base";
+import { ToolCall, ToolCallDelta, ToolDefinition } from "./types";
+
+/**
+ * Who a tool is running on behalf of
+ */
+export interface ToolContext {
+  tenantId: string;
+  userId: string;
+  conversationId: string;
+}
+
+export interface RegisteredTool {
+  definition: ToolDefinition;
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+}
+
+/**
+ * Registry of server-side tools the model may call during a conversation
+ */
+class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  register(tool: RegisteredTool) {
+    if (this.tools.has(tool.definition.name)) {
+      console.warn(`Tool ${tool.definition.name} is already registered. Overwriting.`);
+    }
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  unregister(name: string) {
+    this.tools.delete(name);
+  }
+
+  getDefinitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map((tool) => tool.definition);
+  }
+
+  /**
+   * Run a tool call and return its result as the string fed back to the model.
+   * Failures are reported to the model rather than thrown, so it can recover.
+   */
+  async execute(call: ToolCall, context: ToolContext): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return JSON.stringify({ error: `Unknown tool: ${call.name}` });
+    }
+
+    try {
+      const result = await tool.execute(parseToolArguments(call.arguments), context);
+      return typeof result === "string" ? result : JSON.stringify(result ?? null);
+    } catch (error) {
+      console.error(`Tool ${call.name} failed:`, error);
+      return JSON.stringify({ error: error instanceof Error ? error.message : "Tool execution failed" });
+    }
+  }
+}
+
+/**
+ * Assemble complete tool calls from streamed deltas, keyed by delta index
+ */
+export function accumulateToolCalls(calls: Map<number, ToolCall>, deltas: ToolCallDelta[]) {
+  for (const delta of deltas) {
+    const existing = calls.get(delta.index);
+    calls.set(delta.index, {
+      id: delta.id || existing?.id || "",
+      name: delta.name || existing?.name || "",
+      arguments: (existing?.arguments || "") + (delta.arguments || ""),
+    });
+  }
+}
+
+export const toolRegistry = new ToolRegistry();
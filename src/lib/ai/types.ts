@@ -1,3 +1,5 @@
+import type { ZodType } from "zod";
+
 export type AIProvider = "openai" | "anthropic" | "ollama" | "custom" | "cohere";
 
 export interface AIModel {
@@ -10,13 +12,70 @@ export interface AIModel {
   costPer1kOutput?: number;
   supportsImage?: boolean; // Multi-modal
   supportsStreaming?: boolean;
+  supportsFunctionCalling?: boolean;
+}
+
+/**
+ * Provider-agnostic tool definition; `parameters` is a JSON Schema object
+ */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON-encoded arguments
+}
+
+/**
+ * Partial tool call emitted while streaming; deltas with the same index belong together
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export type ToolChoice = "auto" | "none" | "required" | { name: string };
+
+export interface TextPart {
+  type: "text";
+  text: string;
 }
 
+/**
+ * Image, base64-encoded without the `data:` URL prefix. Images of stored messages
+ * carry their attachment id, with `data` left empty until loaded (see attachments.ts).
+ */
+export interface ImagePart {
+  type: "image";
+  mimeType: string;
+  data: string;
+  attachmentId?: string;
+}
+
+export type ContentPart = TextPart | ImagePart;
+
 export interface ChatMessage {
   role: "system" | "user" | "assistant" | "function";
-  content: string;
+  content: string | ContentPart[]; // Parts only matter on user messages to vision models
+  name?: string; // Tool name on "function" (tool result) messages
+  tool_calls?: ToolCall[]; // Calls requested by an assistant message
+  toolCallId?: string; // Call answered by a "function" message
+}
+
+/**
+ * Ask for a JSON reply matching a schema (zod or JSON Schema).
+ * Applied by `generateResponse`; the validated value is returned as `ChatResponse.parsed`.
+ */
+export interface ResponseFormat {
+  type: "json_schema";
   name?: string;
-  tool_calls?: any[]; // For function calling
+  schema: ZodType | Record<string, unknown>;
 }
 
 export interface ChatRequest {
@@ -24,24 +83,47 @@ export interface ChatRequest {
   messages: ChatMessage[];
   temperature?: number;
   maxTokens?: number;
+  /** Context length the prompt was fitted to; servers such as Ollama allocate it per request */
+  contextWindow?: number;
   topP?: number;
   frequencyPenalty?: number;
   presencePenalty?: number;
   stream?: boolean;
   user?: string; // End-user ID for tracking
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  responseFormat?: ResponseFormat;
+  /** Aborts the provider call, e.g. once the request has timed out */
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface ChatResponse {
   id: string;
   content: string;
   role: "assistant";
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: TokenUsage;
   model: string; // The actual model used
   created: number;
+  toolCalls?: ToolCall[];
+  finishReason?: "stop" | "length" | "tool_calls";
+  parsed?: unknown; // Validated JSON when `responseFormat` was requested
+}
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+}
+
+export interface EmbeddingResponse {
+  model: string;
+  embeddings: number[][]; // One vector per input, in input order
+  usage?: TokenUsage;
 }
 
 export interface StreamChunk {
@@ -49,4 +131,7 @@ export interface StreamChunk {
   content: string; // Delta content
   role?: "assistant";
   done: boolean;
+  usage?: TokenUsage; // Only set on the final chunk, when the provider reports it
+  model?: string;
+  toolCalls?: ToolCallDelta[];
 }
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { db, schema } from "@/db/query";
+import { formatErrorResponse, QuotaExceededError } from "@/lib/utils/errors";
+import { createAccount, createModel, createTenantModelConfig } from "@/test/fixtures";
+import { aiService } from "./service";
+import {
+  calculateCost,
+  getRequestBudget,
+  getUsageDate,
+  getUsageSummary,
+  recordUsage,
+  reserveRequest,
+} from "./usage";
+
+describe("calculateCost", () => {
+  it("prices input and output tokens per 1k at the model's rates", async () => {
+    const model = await createModel({ costPer1kInputTokens: 0.01, costPer1kOutputTokens: 0.03 });
+
+    const cost = calculateCost(model, { promptTokens: 1500, completionTokens: 500, totalTokens: 2000 });
+
+    expect(cost).toBeCloseTo(0.015 + 0.015, 10);
+  });
+
+  it("is free when the model has no prices or the provider reported no usage", async () => {
+    const model = await createModel();
+
+    expect(calculateCost(model, { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 })).toBe(0);
+    expect(calculateCost(await createModel({ costPer1kInputTokens: 1 }))).toBe(0);
+  });
+});
+
+describe("recordUsage", () => {
+  it("adds every request to one row per tenant, model and day", async () => {
+    const { tenant } = await createAccount();
+    const model = await createModel({ costPer1kInputTokens: 0.002, costPer1kOutputTokens: 0.004 });
+
+    await recordUsage({
+      tenantId: tenant.id,
+      model,
+      usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+    });
+    await recordUsage({
+      tenantId: tenant.id,
+      model,
+      usage: { promptTokens: 3000, completionTokens: 1000, totalTokens: 4000 },
+    });
+    // A request without reported usage still counts towards the request total
+    await recordUsage({ tenantId: tenant.id, model });
+
+    const [summary, ...rest] = await getUsageSummary(tenant.id, new Date());
+    expect(rest).toHaveLength(0);
+    expect(summary.modelId).toBe(model.modelId);
+    expect(summary.requestCount).toBe(3);
+    expect(summary.inputTokens).toBe(4000);
+    expect(summary.outputTokens).toBe(1500);
+    expect(summary.totalCost).toBeCloseTo(0.004 + 0.01, 10);
+  });
+
+  it("keeps tenants apart", async () => {
+    const first = await createAccount();
+    const second = await createAccount();
+    const model = await createModel({ costPer1kInputTokens: 1 });
+
+    await recordUsage({
+      tenantId: first.tenant.id,
+      model,
+      usage: { promptTokens: 1000, completionTokens: 0, totalTokens: 1000 },
+    });
+
+    expect(await getUsageSummary(second.tenant.id, new Date())).toEqual([]);
+    expect((await getUsageSummary(first.tenant.id, new Date()))[0].totalCost).toBe(1);
+  });
+});
+
+describe("getUsageDate", () => {
+  it("buckets by UTC day", () => {
+    expect(getUsageDate(new Date("2026-03-31T23:59:59-05:00"))).toBe("2026-04-01");
+  });
+});
+
+describe("request quotas", () => {
+  async function setup(limits: { maxDailyRequests?: number; maxMonthlyRequests?: number }) {
+    const { tenant } = await createAccount();
+    const model = await createModel();
+    const config = await createTenantModelConfig({ tenantId: tenant.id, modelId: model.id, ...limits });
+    return { tenant, model, config };
+  }
+
+  it("is unlimited without caps", async () => {
+    const { config } = await setup({});
+
+    expect(await getRequestBudget(config)).toEqual({ daily: null, monthly: null });
+    await expect(reserveRequest(config, "test-model")).resolves.toBeUndefined();
+  });
+
+  it("counts today's requests against the daily cap and the month's against the monthly cap", async () => {
+    const { tenant, model, config } = await setup({ maxDailyRequests: 5, maxMonthlyRequests: 100 });
+    const today = getUsageDate();
+    const earlier = `${today.slice(0, 7)}-01` === today ? undefined : `${today.slice(0, 7)}-01`;
+
+    await db.insert(schema.modelUsage).values([
+      { tenantId: tenant.id, modelId: model.id, date: today, requestCount: 3 },
+      ...(earlier ? [{ tenantId: tenant.id, modelId: model.id, date: earlier, requestCount: 40 }] : []),
+      // Last month no longer counts
+      { tenantId: tenant.id, modelId: model.id, date: "2000-01-15", requestCount: 1000 },
+    ]);
+
+    const budget = await getRequestBudget(config);
+    expect(budget.daily).toMatchObject({ limit: 5, used: 3, remaining: 2 });
+    expect(budget.monthly).toMatchObject({ limit: 100, used: earlier ? 43 : 3 });
+    expect(new Date(budget.daily!.resetsAt).getUTCHours()).toBe(0);
+    expect(new Date(budget.monthly!.resetsAt).getUTCDate()).toBe(1);
+  });
+
+  it("counts requests until a cap is used up, then rejects them", async () => {
+    const { tenant, model, config } = await setup({ maxDailyRequests: 2 });
+    await reserveRequest(config, "test-model");
+    await reserveRequest(config, "test-model");
+
+    const error = await reserveRequest(config, "test-model").catch((e) => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.statusCode).toBe(429);
+    expect(formatErrorResponse(error).error).toMatchObject({
+      code: "QUOTA_EXCEEDED",
+      quota: { period: "daily", limit: 2, used: 2, remaining: 0 },
+    });
+    // Tokens of the counted requests are added without counting them again
+    await recordUsage({
+      tenantId: tenant.id,
+      model,
+      usage: { promptTokens: 7, completionTokens: 3, totalTokens: 10 },
+      counted: true,
+    });
+    expect(await getUsageSummary(tenant.id, new Date())).toEqual([
+      { modelId: model.modelId, requestCount: 2, inputTokens: 7, outputTokens: 3, totalCost: 0 },
+    ]);
+  });
+
+  it("lets no more concurrent requests through than the caps allow", async () => {
+    const { tenant, model, config } = await setup({ maxDailyRequests: 100, maxMonthlyRequests: 5 });
+    const today = getUsageDate();
+    if (`${today.slice(0, 7)}-01` !== today) {
+      await db.insert(schema.modelUsage).values({
+        tenantId: tenant.id,
+        modelId: model.id,
+        date: `${today.slice(0, 7)}-01`,
+        requestCount: 2,
+      });
+    }
+    const allowed = `${today.slice(0, 7)}-01` === today ? 5 : 3;
+
+    const results = await Promise.allSettled(Array.from({ length: 10 }, () => reserveRequest(config, "test-model")));
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(allowed);
+    expect(results.filter((r) => r.status === "rejected").map((r) => (r as PromiseRejectedResult).reason))
+      .toEqual(Array(10 - allowed).fill(expect.any(QuotaExceededError)));
+    expect((await getRequestBudget(config)).monthly).toMatchObject({ used: 5, remaining: 0 });
+  });
+
+  it("is enforced before a tenant's request reaches the provider", async () => {
+    const { tenant, model, config } = await setup({ maxDailyRequests: 1 });
+    await reserveRequest(config, "test-model");
+
+    await expect(
+      aiService.generateResponse({ model: model.modelId, messages: [{ role: "user", content: "Hi" }] }, tenant.id)
+    ).rejects.toBeInstanceOf(QuotaExceededError);
+  });
+});
@@ -0,0 +1,242 @@
+import { db, schema } from "@/db/query";
+import { and, eq, gte, isNull, lt, lte, sql } from "drizzle-orm";
+import { TokenUsage } from "./types";
+import { QuotaExceededError } from "@/lib/utils/errors";
+
+type ModelRecord = typeof schema.aiModels.$inferSelect;
+type TenantModelConfigRecord = typeof schema.tenantModelConfigs.$inferSelect;
+
+export interface QuotaBudget {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+/**
+ * Remaining requests for a tenant's model; `null` where no cap is configured
+ */
+export interface RequestBudget {
+  daily: QuotaBudget | null;
+  monthly: QuotaBudget | null;
+}
+
+export interface ModelUsageSummary {
+  modelId: string;
+  requestCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalCost: number;
+}
+
+/**
+ * Usage rows are bucketed by UTC day (YYYY-MM-DD)
+ */
+export function getUsageDate(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Cost of a request from the model's per-1k token prices in `ai_models`
+ */
+export function calculateCost(model: ModelRecord, usage?: TokenUsage): number {
+  if (!usage) return 0;
+
+  const inputCost = (usage.promptTokens / 1000) * (model.costPer1kInputTokens || 0);
+  const outputCost = (usage.completionTokens / 1000) * (model.costPer1kOutputTokens || 0);
+  return inputCost + outputCost;
+}
+
+/**
+ * Add one request to the tenant's daily usage row for a model.
+ * Platform-level calls without a tenant are recorded with a null tenant.
+ * With `counted`, the request itself was already counted by `reserveRequest`
+ * and only its tokens and cost are added.
+ */
+export async function recordUsage(params: {
+  tenantId?: string;
+  model: ModelRecord;
+  usage?: TokenUsage;
+  counted?: boolean;
+}): Promise<void> {
+  const { tenantId, model, usage, counted = false } = params;
+  const requests = counted ? 0 : 1;
+  const date = getUsageDate();
+  const inputTokens = usage?.promptTokens || 0;
+  const outputTokens = usage?.completionTokens || 0;
+  const cost = calculateCost(model, usage);
+
+  const where = and(
+    tenantId ? eq(schema.modelUsage.tenantId, tenantId) : isNull(schema.modelUsage.tenantId),
+    eq(schema.modelUsage.modelId, model.id),
+    eq(schema.modelUsage.date, date)
+  );
+
+  // Check then update, as upserts differ between SQLite and Postgres
+  let existing = await db.query.modelUsage.findFirst({ where });
+
+  if (!existing) {
+    // A concurrent request may create the tenant's row first, then the unique index skips this insert
+    const inserted = await db
+      .insert(schema.modelUsage)
+      .values({
+        tenantId: tenantId || null,
+        modelId: model.id,
+        date,
+        requestCount: requests,
+        inputTokens,
+        outputTokens,
+        totalCost: cost,
+      })
+      .onConflictDoNothing()
+      .returning({ id: schema.modelUsage.id });
+    if (inserted.length > 0) return;
+
+    existing = await db.query.modelUsage.findFirst({ where });
+    if (!existing) return;
+  }
+
+  // Increment in SQL so concurrent requests don't overwrite each other
+  await db
+    .update(schema.modelUsage)
+    .set({
+      requestCount: sql`${schema.modelUsage.requestCount} + ${requests}`,
+      inputTokens: sql`${schema.modelUsage.inputTokens} + ${inputTokens}`,
+      outputTokens: sql`${schema.modelUsage.outputTokens} + ${outputTokens}`,
+      totalCost: sql`coalesce(${schema.modelUsage.totalCost}, 0) + ${cost}`,
+    })
+    .where(eq(schema.modelUsage.id, existing.id));
+}
+
+/**
+ * Requests, tokens and spend per model for a tenant between two days (inclusive)
+ */
+export async function getUsageSummary(
+  tenantId: string,
+  from: Date,
+  to: Date = new Date()
+): Promise<ModelUsageSummary[]> {
+  const rows = await db
+    .select({
+      modelId: schema.aiModels.modelId,
+      requestCount: sql<number>`sum(${schema.modelUsage.requestCount})`,
+      inputTokens: sql<number>`sum(${schema.modelUsage.inputTokens})`,
+      outputTokens: sql<number>`sum(${schema.modelUsage.outputTokens})`,
+      totalCost: sql<number>`sum(coalesce(${schema.modelUsage.totalCost}, 0))`,
+    })
+    .from(schema.modelUsage)
+    .innerJoin(schema.aiModels, eq(schema.modelUsage.modelId, schema.aiModels.id))
+    .where(
+      and(
+        eq(schema.modelUsage.tenantId, tenantId),
+        gte(schema.modelUsage.date, getUsageDate(from)),
+        lte(schema.modelUsage.date, getUsageDate(to))
+      )
+    )
+    .groupBy(schema.aiModels.modelId);
+
+  return rows.map((row: ModelUsageSummary) => ({
+    modelId: row.modelId,
+    requestCount: Number(row.requestCount),
+    inputTokens: Number(row.inputTokens),
+    outputTokens: Number(row.outputTokens),
+    totalCost: Number(row.totalCost),
+  }));
+}
+
+function toBudget(limit: number | null, used: number, resetsAt: Date): QuotaBudget | null {
+  if (!limit) return null;
+  return { limit, used, remaining: Math.max(limit - used, 0), resetsAt: resetsAt.toISOString() };
+}
+
+/**
+ * Requests made today and this month against a tenant's model caps
+ */
+export async function getRequestBudget(config: TenantModelConfigRecord): Promise<RequestBudget> {
+  if (!config.maxDailyRequests && !config.maxMonthlyRequests) {
+    return { daily: null, monthly: null };
+  }
+
+  const now = new Date();
+  const today = getUsageDate(now);
+  const monthStart = `${today.slice(0, 7)}-01`;
+
+  const rows = await db.query.modelUsage.findMany({
+    where: and(
+      eq(schema.modelUsage.tenantId, config.tenantId),
+      eq(schema.modelUsage.modelId, config.modelId),
+      gte(schema.modelUsage.date, monthStart)
+    ),
+    columns: { date: true, requestCount: true },
+  });
+
+  let daily = 0;
+  let monthly = 0;
+  for (const row of rows as { date: string; requestCount: number }[]) {
+    monthly += row.requestCount;
+    if (row.date === today) daily += row.requestCount;
+  }
+
+  const tomorrow = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  return {
+    daily: toBudget(config.maxDailyRequests, daily, tomorrow),
+    monthly: toBudget(config.maxMonthlyRequests, monthly, nextMonth),
+  };
+}
+
+/**
+ * Count a request against the tenant's daily and monthly caps for the model before
+ * it is sent, or reject it when a cap is used up. The check and the increment are
+ * one conditional UPDATE of today's usage row, so concurrent requests cannot all
+ * pass the check before any of them is counted. A counted request stays counted
+ * when the provider then fails.
+ */
+export async function reserveRequest(config: TenantModelConfigRecord, modelName: string): Promise<void> {
+  const { tenantId, modelId, maxDailyRequests, maxMonthlyRequests } = config;
+  const today = getUsageDate();
+  const monthStart = `${today.slice(0, 7)}-01`;
+
+  // The unique index keeps this to one row for today however many requests race here
+  await db
+    .insert(schema.modelUsage)
+    .values({ tenantId, modelId, date: today, requestCount: 0 })
+    .onConflictDoNothing();
+
+  const rows: { id: string; date: string; requestCount: number }[] = await db.query.modelUsage.findMany({
+    where: and(
+      eq(schema.modelUsage.tenantId, tenantId),
+      eq(schema.modelUsage.modelId, modelId),
+      gte(schema.modelUsage.date, monthStart)
+    ),
+    columns: { id: true, date: true, requestCount: true },
+  });
+  const row = rows.find((r) => r.date === today)!;
+  // Earlier days this month no longer change
+  const earlier = rows.reduce((sum, r) => (r.id === row.id ? sum : sum + r.requestCount), 0);
+
+  const conditions = [eq(schema.modelUsage.id, row.id)];
+  if (maxDailyRequests) {
+    conditions.push(lt(schema.modelUsage.requestCount, maxDailyRequests));
+  }
+  if (maxMonthlyRequests) {
+    conditions.push(lt(schema.modelUsage.requestCount, maxMonthlyRequests - earlier));
+  }
+
+  const reserved = await db
+    .update(schema.modelUsage)
+    .set({ requestCount: sql`${schema.modelUsage.requestCount} + 1` })
+    .where(and(...conditions))
+    .returning({ id: schema.modelUsage.id });
+  if (reserved.length > 0) return;
+
+  const budget = await getRequestBudget(config);
+  const period = (["daily", "monthly"] as const).find((p) => budget[p] && budget[p].remaining <= 0)
+    ?? (budget.daily ? "daily" : "monthly");
+  const quota = budget[period]!;
+  throw new QuotaExceededError(
+    `The ${period} request limit of ${quota.limit} for ${modelName} has been reached`,
+    { period, ...quota }
+  );
+}
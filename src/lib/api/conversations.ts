@@ -0,0 +1,80 @@
+import { schema } from "@/db";
+import type { TokenUsage } from "@/lib/ai/types";
+import { conversationManager } from "@/lib/ai/conversation";
+import { getConversationEnrichment } from "@/lib/ai/enrichment";
+import { NotFoundError } from "@/lib/utils/errors";
+
+type ConversationRecord = typeof schema.conversations.$inferSelect;
+type MessageRecord = typeof schema.messages.$inferSelect;
+
+/**
+ * Conversation as returned by the public API (see openapi.yaml)
+ */
+export interface APIConversation {
+  id: string;
+  title: string | null;
+  status: string;
+  model: string | null;
+  systemPrompt: string | null;
+  language: string | null;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Message as returned by the public API. Attached images and tool call
+ * details stay internal; `threadId` is null on the original path.
+ */
+export interface APIMessage {
+  id: string;
+  role: string;
+  content: string;
+  threadId: string | null;
+  model: string | null;
+  usage: TokenUsage | null;
+  createdAt: string;
+}
+
+export function toAPIConversation(conversation: ConversationRecord): APIConversation {
+  const enrichment = getConversationEnrichment(conversation.metadata);
+
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    status: conversation.status,
+    model: conversation.modelId,
+    systemPrompt: conversation.systemPrompt,
+    language: enrichment?.language ?? null,
+    tags: enrichment?.tags ?? [],
+    createdAt: conversation.createdAt.toISOString(),
+    updatedAt: conversation.updatedAt.toISOString(),
+  };
+}
+
+export function toAPIMessage(message: MessageRecord): APIMessage {
+  const metadata = message.metadata as { model?: string; usage?: TokenUsage } | null;
+
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    threadId: message.threadId,
+    model: metadata?.model ?? null,
+    usage: metadata?.usage ?? null,
+    createdAt: message.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Load a conversation for the API. Soft-deleted conversations are treated as missing.
+ */
+export async function getAPIConversation(tenantId: string, userId: string, conversationId: string) {
+  const conversation = await conversationManager.findOwnedConversation(tenantId, userId, conversationId);
+
+  if (!conversation || conversation.status === "deleted") {
+    throw new NotFoundError("Conversation");
+  }
+
+  return conversation;
+}
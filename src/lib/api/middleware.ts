@@ -62,6 +62,28 @@ export async function withAPIMiddleware(
   };
 }
 
+/**
+ * API middleware for endpoints that act within the API key's tenant.
+ * Keys that are not bound to a tenant are rejected.
+ */
+export async function withTenantAPIMiddleware(
+  request: NextRequest,
+  requiredScope: APIKeyScope = "read"
+): Promise<{
+  userId: string;
+  userRole: string;
+  tenantId: string;
+  apiKeyId: string;
+}> {
+  const context = await withAPIMiddleware(request, requiredScope);
+
+  if (!context.tenantId) {
+    throw new AuthorizationError("This endpoint requires an API key scoped to a tenant");
+  }
+
+  return { ...context, tenantId: context.tenantId };
+}
+
 /**
  * IP-based rate limiting for public endpoints
  */
@@ -0,0 +1,84 @@
+/**
+ * Server-Sent Events helpers for streaming API responses
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Format a single SSE `data:` frame. Strings are sent as-is, anything else as JSON.
+ */
+export function formatSSEData(data: unknown): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  return `data: ${payload}\n\n`;
+}
+
+/**
+ * Create a streaming response that emits one SSE frame per event.
+ * The source is consumed lazily and stopped when the client disconnects.
+ */
+export function createSSEResponse(
+  events: AsyncIterable<unknown>,
+  init?: { status?: number; headers?: Record<string, string> }
+): Response {
+  const iterator = events[Symbol.asyncIterator]();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(formatSSEData(value)));
+      } catch (error) {
+        console.error("SSE stream failed:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    status: init?.status || 200,
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      ...init?.headers,
+    },
+  });
+}
+
+/**
+ * Read JSON `data:` frames from a Server-Sent Events response body
+ */
+export async function* readEventStream<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split("\n\n");
+      buffer = frames.pop() || "";
+
+      for (const frame of frames) {
+        const data = frame
+          .split("\n")
+          .filter((line) => line.startsWith("data: "))
+          .map((line) => line.slice(6))
+          .join("\n");
+        if (data) yield JSON.parse(data) as T;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,4 +1,6 @@
 import { type UserRole } from "@/db/schema";
+import { db, schema } from "@/db/query";
+import { eq } from "drizzle-orm";
 
 // Permission levels (lower number = higher privilege)
 const roleHierarchy: Record<UserRole, number> = {
@@ -113,3 +115,16 @@ export function getUnauthorizedMessage(requiredRole?: UserRole): string {
   }
   return "You are not authorized to perform this action.";
 }
+
+/**
+ * Check if a user is an admin, reading the role from the database
+ * (the session user does not carry it)
+ */
+export async function isAdminUser(userId: string): Promise<boolean> {
+  const user = await db.query.users.findFirst({
+    where: eq(schema.users.id, userId),
+    columns: { role: true },
+  });
+
+  return !!user && isAdmin(user.role as UserRole);
+}
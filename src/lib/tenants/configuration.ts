@@ -67,6 +67,7 @@ export const defaultTenantConfig = {
     chatEnabled: true,
     pluginsEnabled: true,
     apiAccessEnabled: false,
+    siteModelsEnabled: true,
   },
   limits: {
     maxConversations: 100,
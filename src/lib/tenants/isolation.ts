@@ -1,7 +1,7 @@
 import { type NextRequest } from "next/server";
-import { db } from "@/db";
+import { db } from "@/db/query";
 import { tenantUsers } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, asc } from "drizzle-orm";
 
 /**
  * Get tenant ID from request (from header, subdomain, or path)
@@ -53,6 +53,29 @@ export async function getUserTenantRole(userId: string, tenantId: string) {
   return access?.role || null;
 }
 
+/**
+ * Resolve the tenant a signed-in user is acting in.
+ * Uses the request tenant (header/subdomain) when the user belongs to it,
+ * otherwise falls back to the user's earliest tenant membership.
+ */
+export async function getActiveTenantId(
+  request: NextRequest,
+  userId: string
+): Promise<string | null> {
+  const requestedTenantId = await getTenantId(request);
+  if (requestedTenantId && (await verifyTenantAccess(userId, requestedTenantId))) {
+    return requestedTenantId;
+  }
+
+  const membership = await db.query.tenantUsers.findFirst({
+    where: eq(tenantUsers.userId, userId),
+    orderBy: [asc(tenantUsers.joinedAt)],
+    columns: { tenantId: true },
+  });
+
+  return membership?.tenantId || null;
+}
+
 /**
  * Tenant context for request
  */
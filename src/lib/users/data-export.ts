@@ -1,6 +1,7 @@
-import { db } from "@/db";
+import { db } from "@/db/query";
 import { users, userActivity, feedback } from "@/db/schema";
 import { eq } from "drizzle-orm";
+import { ConversationExport, getAllConversationExports } from "@/lib/ai/conversation-export";
 
 interface UserDataExport {
   user: {
@@ -12,6 +13,7 @@ interface UserDataExport {
   };
   activity: unknown[];
   feedback: unknown[];
+  conversations: ConversationExport[];
   exportDate: string;
 }
 
@@ -45,10 +47,14 @@ export async function exportUserData(userId: string): Promise<UserDataExport> {
     where: eq(feedback.userId, userId),
   });
 
+  // Get conversations across all tenants, with every branch
+  const conversations = await getAllConversationExports(userId);
+
   return {
     user,
     activity,
     feedback: userFeedback,
+    conversations,
     exportDate: new Date().toISOString(),
   };
 }
@@ -1,3 +1,5 @@
+import type { TokenUsage } from "@/lib/ai/types";
+
 export class AppError extends Error {
   constructor(
     message: string,
@@ -6,7 +8,8 @@ export class AppError extends Error {
   ) {
     super(message);
     this.name = "AppError";
-    Object.setPrototypeOf(this, AppError.prototype);
+    // Keep subclass prototypes so `instanceof` checks on specific errors work
+    Object.setPrototypeOf(this, new.target.prototype);
   }
 }
 
@@ -52,6 +55,36 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class ModelUnavailableError extends AppError {
+  constructor(message: string = "The requested model is not available") {
+    super(message, 400, "MODEL_UNAVAILABLE");
+    this.name = "ModelUnavailableError";
+  }
+}
+
+export interface QuotaDetails {
+  period: "daily" | "monthly";
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+export class QuotaExceededError extends AppError {
+  constructor(message: string = "Request quota exceeded", public quota?: QuotaDetails) {
+    super(message, 429, "QUOTA_EXCEEDED");
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class StructuredOutputError extends AppError {
+  // Tokens spent across all attempts, still billable to the tenant
+  constructor(message: string = "The model did not return valid structured output", public usage?: TokenUsage) {
+    super(message, 502, "INVALID_STRUCTURED_OUTPUT");
+    this.name = "StructuredOutputError";
+  }
+}
+
 // Error response formatter
 export function formatErrorResponse(error: unknown) {
   if (error instanceof AppError) {
@@ -61,6 +94,7 @@ export function formatErrorResponse(error: unknown) {
         code: error.code,
         statusCode: error.statusCode,
         ...(error instanceof ValidationError && error.errors ? { errors: error.errors } : {}),
+        ...(error instanceof QuotaExceededError && error.quota ? { quota: error.quota } : {}),
       },
     };
   }
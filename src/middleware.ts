@@ -74,8 +74,8 @@ export async function middleware(request: NextRequest) {
     }
   }
 
-  // Allow public paths
-  if (publicPaths.includes(pathname)) {
+  // Allow public paths, including read-only shared conversations
+  if (publicPaths.includes(pathname) || pathname.startsWith("/share/")) {
     return NextResponse.next();
   }
 
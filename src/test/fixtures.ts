@@ -0,0 +1,80 @@
+import { randomUUID } from "node:crypto";
+import { db, schema } from "@/db/query";
+import type { AIModel, ChatResponse } from "@/lib/ai/types";
+
+type ModelValues = typeof schema.aiModels.$inferInsert;
+
+/**
+ * A user and a tenant they belong to
+ */
+export async function createAccount() {
+  const id = randomUUID();
+  const [user] = await db.insert(schema.users).values({
+    id,
+    email: `${id}@example.com`,
+    name: "Test User",
+  }).returning();
+  const [tenant] = await db.insert(schema.tenants).values({
+    name: "Test Tenant",
+    slug: `tenant-${id}`,
+  }).returning();
+  return { user, tenant };
+}
+
+/**
+ * A conversation of a new account
+ */
+export async function createConversation() {
+  const { user, tenant } = await createAccount();
+  // Already enriched, so no background titling request is made
+  const [conversation] = await db.insert(schema.conversations).values({
+    tenantId: tenant.id,
+    userId: user.id,
+    title: "Test",
+    metadata: { enrichment: { language: "en", tags: [], model: "test-model", enrichedAt: "" } },
+  }).returning();
+  return { user, tenant, conversation };
+}
+
+export async function createModel(values: Partial<ModelValues> = {}) {
+  const modelId = values.modelId ?? `model-${randomUUID()}`;
+  const [model] = await db.insert(schema.aiModels).values({
+    name: modelId,
+    displayName: modelId,
+    provider: "openai",
+    modelId,
+    ...values,
+  }).returning();
+  return model;
+}
+
+export function modelInfo(values: Partial<AIModel> = {}): AIModel {
+  return {
+    id: "test-model",
+    name: "Test Model",
+    provider: "openai",
+    contextWindow: 8192,
+    supportsFunctionCalling: true,
+    ...values,
+  };
+}
+
+export function chatResponse(values: Partial<ChatResponse> = {}): ChatResponse {
+  return {
+    id: randomUUID(),
+    content: "",
+    role: "assistant",
+    model: "test-model",
+    created: Date.now(),
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    ...values,
+  };
+}
+
+export async function createTenantModelConfig(
+  values: Pick<typeof schema.tenantModelConfigs.$inferInsert, "tenantId" | "modelId"> &
+    Partial<typeof schema.tenantModelConfigs.$inferInsert>
+) {
+  const [config] = await db.insert(schema.tenantModelConfigs).values({ isEnabled: true, ...values }).returning();
+  return config;
+}
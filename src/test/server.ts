@@ -0,0 +1,87 @@
+import { createServer, IncomingHttpHeaders, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: unknown;
+}
+
+export type StandInHandler = (request: RecordedRequest, response: ServerResponse) => void | Promise<void>;
+
+/**
+ * A local HTTP server standing in for a provider API. Every request is recorded
+ * with its parsed JSON body before the handler answers it.
+ */
+export async function startStandIn(handler: StandInHandler) {
+  const requests: RecordedRequest[] = [];
+
+  const server = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+
+    const request: RecordedRequest = {
+      method: req.method || "GET",
+      path: req.url || "/",
+      headers: req.headers,
+      body: raw ? JSON.parse(raw) : undefined,
+    };
+    requests.push(request);
+
+    try {
+      await handler(request, res);
+    } catch (error) {
+      res.writeHead(500).end(String(error));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+export function sendJson(res: ServerResponse, body: unknown, status = 200) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+/**
+ * Answer with newline-delimited JSON, one write per object
+ */
+export function sendNDJSON(res: ServerResponse, lines: unknown[]) {
+  res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+  for (const line of lines) res.write(`${JSON.stringify(line)}\n`);
+  res.end();
+}
+
+/**
+ * Answer with server-sent events; objects are sent as JSON `data` lines
+ */
+export function sendEvents(res: ServerResponse, events: (unknown | { event: string; data: unknown })[]) {
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  for (const event of events) {
+    if (event && typeof event === "object" && "event" in event && "data" in event) {
+      res.write(`event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    } else {
+      res.write(`data: ${typeof event === "string" ? event : JSON.stringify(event)}\n\n`);
+    }
+  }
+  res.end();
+}
+
+/**
+ * The `data` payloads of a server-sent event response, parsed as JSON except `[DONE]`
+ */
+export async function readEvents(response: Response): Promise<unknown[]> {
+  const text = await response.text();
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith("data: "))
+    .map((line) => line.slice("data: ".length))
+    .map((data) => (data === "[DONE]" ? data : JSON.parse(data)));
+}
@@ -0,0 +1,23 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll } from "vitest";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+
+// Every test file gets its own migrated SQLite database, and platform providers
+// are only configured by the tests that need them
+process.env.DATABASE_TYPE = "sqlite";
+const directory = mkdtempSync(join(tmpdir(), "projectaware-test-"));
+process.env.DATABASE_URL = join(directory, "test.db");
+process.env.ENCRYPTION_KEY = "test-encryption-key-0123456789abcdef";
+process.env.BETTER_AUTH_SECRET = "test-auth-secret";
+process.env.AI_HEALTH_CHECK_INTERVAL_MS = "0";
+for (const name of ["OPENAI_API_KEY", "ANTHROPIC_API_KEY", "COHERE_API_KEY", "OLLAMA_BASE_URL"]) {
+  delete process.env[name];
+}
+
+const { db } = await import("@/db");
+migrate(db as unknown as BetterSQLite3Database, { migrationsFolder: "./src/db/migrations/sqlite" });
+
+afterAll(() => rmSync(directory, { recursive: true, force: true }));